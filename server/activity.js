@@ -0,0 +1,34 @@
+import { toRecord } from "./store.js";
+import { activity } from "./db.js";
+import { publishIssueEvent } from "./events.js";
+import { generateId } from "../src/lib/mockData.ts";
+import { diffIssue } from "../src/lib/activity.ts";
+
+const compareEntries = (a, b) =>
+  a.timestamp === b.timestamp
+    ? a.id.localeCompare(b.id)
+    : new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+// Activity of one issue in chronological order
+export const getIssueActivity = (issueId) =>
+  activity.filter((entry) => entry.issueId === issueId).sort(compareEntries);
+
+// Log every tracked field that differs between two versions of an issue.
+// Entries are never updated or removed, even when the issue is deleted.
+export const recordIssueChanges = (before, after, actorId) => {
+  const timestamp = new Date();
+
+  return diffIssue(before, after).map((change) => {
+    const entry = activity.insert(
+      toRecord({
+        id: generateId(),
+        issueId: after.id,
+        ...change,
+        actorId,
+        timestamp,
+      }),
+    );
+    publishIssueEvent(after.id, "activity", entry);
+    return entry;
+  });
+};
@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import { sessions, users } from "./db.js";
+import { hasPermission } from "../src/lib/permissions.ts";
+
+export const SESSION_COOKIE = "sid";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// User record without credentials, safe to send to clients
+export const toPublicUser = ({ passwordHash, ...user }) => user;
+
+// Values that are not valid percent-encoding are kept as sent, so a
+// malformed cookie cannot fail every request
+const decodeCookieValue = (value) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const parseCookies = (header = "") =>
+  header.split(";").reduce((cookies, pair) => {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      cookies[pair.slice(0, index).trim()] = decodeCookieValue(
+        pair.slice(index + 1).trim(),
+      );
+    }
+    return cookies;
+  }, {});
+
+export const createSession = (res, userId) => {
+  const session = sessions.insert({
+    id: crypto.randomBytes(32).toString("hex"),
+    userId,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+  });
+
+  res.cookie(SESSION_COOKIE, session.id, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_MS,
+  });
+  return session;
+};
+
+export const destroySession = (req, res) => {
+  if (req.sessionId) sessions.remove(req.sessionId);
+  res.clearCookie(SESSION_COOKIE);
+};
+
+// Attach `req.user` when the request carries a valid session cookie
+export const authenticate = (req, res, next) => {
+  const sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  const session = sessionId && sessions.get(sessionId);
+
+  if (session) {
+    const user = users.get(session.userId);
+    if (user && new Date(session.expiresAt).getTime() > Date.now()) {
+      req.sessionId = session.id;
+      req.user = toPublicUser(user);
+    } else {
+      sessions.remove(session.id);
+    }
+  }
+
+  next();
+};
+
+export const requireAuth = (req, res, next) => {
+  if (!req.user) {
+    return res
+      .status(401)
+      .json({ success: false, error: "Authentication required" });
+  }
+  next();
+};
+
+export const requirePermission = (permission) => (req, res, next) => {
+  if (!hasPermission(req.user, permission)) {
+    return res.status(403).json({
+      success: false,
+      error: "You do not have permission to perform this action",
+    });
+  }
+  next();
+};
@@ -0,0 +1,97 @@
+import fs from "fs";
+import { toRecord } from "./store.js";
+import { issues, messages } from "./db.js";
+import { appendMessage } from "./threads.js";
+import { defaultAutomationRules } from "./automationRules.js";
+import { createAutomationEngine } from "../src/lib/automation.ts";
+
+// How often delayed actions are checked for being due
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const loadRules = () => {
+  const rulesPath = process.env.AUTOMATION_RULES_PATH;
+  if (!rulesPath) return defaultAutomationRules;
+
+  try {
+    return JSON.parse(fs.readFileSync(rulesPath, "utf8"));
+  } catch (error) {
+    console.error(
+      `Failed to load automation rules from ${rulesPath}:`,
+      error.message,
+    );
+    return defaultAutomationRules;
+  }
+};
+
+let engine;
+
+// Created on first use, once the environment is set up. Delayed actions
+// are stored on their issue, so they are deleted and restored along with it
+// and survive a restart.
+const getEngine = () => {
+  engine ??= createAutomationEngine({
+    rules: loadRules(),
+    postMessage: ({ issueId, sender, message, isSystem, isBot }) =>
+      appendMessage(issueId, { sender, message, isSystem, isBot }),
+    schedule: (issueId, scheduled) => {
+      const issue = issues.get(issueId);
+      if (!issue) return;
+
+      issues.update(issueId, {
+        scheduledAutomations: [
+          ...(issue.scheduledAutomations ?? []),
+          toRecord(scheduled),
+        ],
+      });
+    },
+  });
+  return engine;
+};
+
+// Issues as clients get them; delayed actions stay on the server
+export const toPublicIssue = ({ scheduledAutomations, ...issue }) => issue;
+
+// Run matching automation rules for an issue event. Failures are logged
+// so a broken rule never fails the request that triggered it.
+export const runAutomations = (event) => {
+  try {
+    getEngine().handle(event);
+  } catch (error) {
+    console.error("Automation error:", error);
+  }
+};
+
+// Run the delayed actions due by `now`, including any that came due while
+// the server was down. Each is taken off its issue before it runs, so a
+// failing one is not retried on every sweep.
+export const runDueAutomations = (now = new Date()) => {
+  const isDue = (scheduled) => new Date(scheduled.dueAt) <= now;
+
+  issues
+    .filter((issue) => issue.scheduledAutomations?.some(isDue))
+    .forEach((existing) => {
+      const issue = issues.update(existing.id, {
+        scheduledAutomations: existing.scheduledAutomations.filter(
+          (scheduled) => !isDue(scheduled),
+        ),
+      });
+
+      existing.scheduledAutomations.filter(isDue).forEach((scheduled) => {
+        try {
+          getEngine().runScheduled(
+            scheduled,
+            issue,
+            scheduled.messageId && messages.get(scheduled.messageId),
+          );
+        } catch (error) {
+          console.error("Automation error:", error);
+        }
+      });
+    });
+};
+
+// Catch up on startup, then check every minute
+export const startAutomationSweeps = () => {
+  runDueAutomations();
+  return setInterval(runDueAutomations, SWEEP_INTERVAL_MS);
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createTestApp } from "./test/app.js";
+
+let testApp;
+let alex;
+let mike;
+let runDueAutomations;
+let issues;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  [alex, mike] = await Promise.all([
+    testApp.login("alex"),
+    testApp.login("mike"),
+  ]);
+  ({ runDueAutomations } = await import("./automation.js"));
+  ({ issues } = await import("./db.js"));
+});
+
+afterAll(() => testApp.cleanup());
+
+const HOUR_MS = 60 * 60 * 1000;
+const ESCALATION = /open for 4 hours without progress/;
+
+const createUrgentIssue = async () => {
+  const res = await alex
+    .post("/issues")
+    .send({
+      type: "general",
+      title: "Office is flooded",
+      description: "Water everywhere",
+      priority: "urgent",
+    })
+    .expect(201);
+  return res.body.issue;
+};
+
+const getThread = async (issueId) => {
+  const res = await alex.get(`/issues/${issueId}/messages`).expect(200);
+  return res.body.messages.map(({ message }) => message);
+};
+
+describe("delayed automations", () => {
+  it("should keep the due time with the issue and run it once due", async () => {
+    const issue = await createUrgentIssue();
+
+    const [scheduled] = issues.get(issue.id).scheduledAutomations;
+    expect(scheduled.ruleId).toBe("escalate-stale-urgent");
+    expect(new Date(scheduled.dueAt).getTime()).toBeGreaterThan(
+      new Date(issue.submittedAt).getTime(),
+    );
+
+    runDueAutomations(new Date(Date.now() + HOUR_MS));
+    expect(await getThread(issue.id)).not.toContainEqual(
+      expect.stringMatching(ESCALATION),
+    );
+
+    runDueAutomations(new Date(Date.now() + 5 * HOUR_MS));
+    expect(await getThread(issue.id)).toContainEqual(
+      expect.stringMatching(ESCALATION),
+    );
+
+    expect(issues.get(issue.id).scheduledAutomations).toEqual([]);
+  });
+
+  it("should keep delayed actions out of API responses", async () => {
+    const issue = await createUrgentIssue();
+    expect(issue).not.toHaveProperty("scheduledAutomations");
+
+    const stored = await alex.get(`/issues/${issue.id}`).expect(200);
+    expect(stored.body.issue).not.toHaveProperty("scheduledAutomations");
+    const listed = await alex.get("/issues").expect(200);
+    expect(
+      listed.body.issues.find(({ id }) => id === issue.id),
+    ).not.toHaveProperty("scheduledAutomations");
+    const exported = await alex.get("/issues/export?format=json").expect(200);
+    expect(exported.text).not.toContain("scheduledAutomations");
+  });
+
+  it("should skip actions whose conditions no longer hold", async () => {
+    const issue = await createUrgentIssue();
+    await mike
+      .patch(`/issues/${issue.id}`)
+      .send({ status: "in-progress" })
+      .expect(200);
+
+    runDueAutomations(new Date(Date.now() + 5 * HOUR_MS));
+
+    expect(await getThread(issue.id)).not.toContainEqual(
+      expect.stringMatching(ESCALATION),
+    );
+  });
+});
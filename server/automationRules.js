@@ -0,0 +1,67 @@
+// Default automation rules. Set AUTOMATION_RULES_PATH to a JSON file with
+// the same shape to replace them without touching code.
+// See AutomationRule in src/lib/automation.ts for the format.
+export const defaultAutomationRules = [
+  {
+    id: "request-steps-to-reproduce",
+    name: "Ask for steps to reproduce",
+    trigger: "issue.created",
+    conditions: [
+      { field: "issue.type", operator: "equals", value: "technical" },
+      {
+        field: "issue.technicalDetails.stepsToReproduce",
+        operator: "empty",
+      },
+    ],
+    action: {
+      type: "post-message",
+      sender: "Support Bot",
+      message:
+        'Thanks for reporting "{{issue.title}}". Could you add the steps to reproduce the problem? It helps us find the cause much faster.',
+    },
+  },
+  {
+    id: "acknowledge-urgent",
+    name: "Acknowledge urgent issues",
+    trigger: "issue.created",
+    conditions: [
+      { field: "issue.priority", operator: "equals", value: "urgent" },
+    ],
+    action: {
+      type: "post-message",
+      sender: "System",
+      message: "Marked as urgent. The on-call support team has been notified.",
+      isSystem: true,
+    },
+  },
+  {
+    id: "escalate-stale-urgent",
+    name: "Escalate urgent issues still open after 4 hours",
+    trigger: "issue.created",
+    conditions: [
+      { field: "issue.priority", operator: "equals", value: "urgent" },
+      { field: "issue.status", operator: "equals", value: "open" },
+    ],
+    action: {
+      type: "post-message",
+      sender: "Support Bot",
+      message:
+        "This urgent issue has been open for 4 hours without progress. Escalating to the support lead.",
+      delayMs: 4 * 60 * 60 * 1000,
+    },
+  },
+  {
+    id: "confirm-resolution",
+    name: "Ask the submitter to confirm a resolution",
+    trigger: "issue.status-changed",
+    conditions: [
+      { field: "issue.status", operator: "equals", value: "resolved" },
+    ],
+    action: {
+      type: "post-message",
+      sender: "Support Bot",
+      message:
+        "This issue was marked as resolved. If the problem comes back, just reply here and we'll reopen it.",
+    },
+  },
+];
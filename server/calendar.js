@@ -0,0 +1,62 @@
+import fs from "fs";
+import {
+  DEFAULT_CALENDAR,
+  mergeHolidays,
+  parseICalHolidays,
+  validateCalendar,
+} from "../src/lib/businessCalendar.ts";
+
+// The business calendar starts from BUSINESS_CALENDAR_PATH, a JSON file
+// with any of `timeZone`, `weeklyHours` and `holidays` (see
+// src/lib/businessCalendar.ts), and adds the holidays of every iCalendar
+// file listed in HOLIDAY_CALENDAR_PATHS (comma-separated). Broken files
+// are logged and left out rather than stopping the server.
+const loadCalendar = () => {
+  let calendar = DEFAULT_CALENDAR;
+
+  const calendarPath = process.env.BUSINESS_CALENDAR_PATH;
+  if (calendarPath) {
+    try {
+      const configured = {
+        ...DEFAULT_CALENDAR,
+        ...JSON.parse(fs.readFileSync(calendarPath, "utf8")),
+      };
+      const error = validateCalendar(configured);
+      if (error) throw new Error(error);
+      calendar = configured;
+    } catch (error) {
+      console.error(
+        `Failed to load the business calendar from ${calendarPath}:`,
+        error.message,
+      );
+    }
+  }
+
+  const holidayPaths = (process.env.HOLIDAY_CALENDAR_PATHS || "")
+    .split(",")
+    .map((holidayPath) => holidayPath.trim())
+    .filter(Boolean);
+  const imported = holidayPaths.flatMap((holidayPath) => {
+    try {
+      return parseICalHolidays(fs.readFileSync(holidayPath, "utf8"));
+    } catch (error) {
+      console.error(
+        `Failed to import holidays from ${holidayPath}:`,
+        error.message,
+      );
+      return [];
+    }
+  });
+
+  return imported.length > 0
+    ? { ...calendar, holidays: mergeHolidays(calendar.holidays, imported) }
+    : calendar;
+};
+
+let calendar;
+
+// Loaded on first use, once the environment is set up
+export const getBusinessCalendar = () => {
+  calendar ??= loadCalendar();
+  return calendar;
+};
@@ -0,0 +1,88 @@
+import { createCollection, toRecord } from "./store.js";
+import { hashPassword } from "./passwords.js";
+import { isFirstResponse } from "../src/lib/sla.ts";
+import { DONE_STATUSES } from "../src/lib/workflow.ts";
+import {
+  mockUsers,
+  generateMockIssues,
+  generateMockChatMessages,
+} from "../src/lib/mockData.ts";
+
+// All collections are created here so routes can share them without
+// import cycles. A fresh data directory is seeded with demo content.
+export const users = createCollection("users", {
+  // Demo accounts share DEMO_PASSWORD, read when the data is first seeded
+  seed: () => {
+    const password = process.env.DEMO_PASSWORD || "password";
+    return mockUsers.map((user) => ({
+      ...user,
+      passwordHash: hashPassword(password),
+    }));
+  },
+});
+
+export const sessions = createCollection("sessions");
+
+export const issues = createCollection("issues", {
+  seed: () => toRecord(generateMockIssues()),
+});
+
+export const messages = createCollection("messages", {
+  seed: () =>
+    issues
+      .all()
+      .flatMap((issue) => toRecord(generateMockChatMessages(issue.id))),
+});
+
+// Append-only log of issue field changes
+export const activity = createCollection("activity");
+
+// Named issue list filters, and each user's pinned and default views.
+// Preferences are keyed by user id.
+export const savedViews = createCollection("savedViews");
+export const viewPreferences = createCollection("viewPreferences");
+
+// Which issue events each user is emailed about, keyed by user id
+export const notificationPreferences = createCollection(
+  "notificationPreferences",
+);
+
+// Each user's notification inbox, and the issues they follow. Follows are
+// keyed by "<issue id>:<user id>".
+export const inboxNotifications = createCollection("inboxNotifications");
+export const issueFollows = createCollection("issueFollows");
+
+// Issues saved before accounts existed store the submitter's name;
+// point them at the matching user id instead
+const userIdsByName = new Map(users.all().map((user) => [user.name, user.id]));
+issues
+  .filter((issue) => userIdsByName.has(issue.submittedBy))
+  .forEach((issue) =>
+    issues.update(issue.id, {
+      submittedBy: userIdsByName.get(issue.submittedBy),
+    }),
+  );
+
+// Issues saved before SLA tracking get the timestamps it reads: the first
+// qualifying reply in their thread and, for done issues, the last status
+// change (or the last update when the activity log has none)
+issues
+  .filter((issue) => issue.firstResponseAt === undefined)
+  .forEach((issue) => {
+    const [firstReply] = messages
+      .filter(
+        (message) =>
+          message.issueId === issue.id && isFirstResponse(issue, message),
+      )
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const [lastStatusChange] = activity
+      .filter((entry) => entry.issueId === issue.id && entry.field === "status")
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    issues.update(issue.id, {
+      firstResponseAt: firstReply?.timestamp ?? null,
+      resolvedAt: DONE_STATUSES.includes(issue.status)
+        ? (lastStatusChange?.timestamp ?? issue.updatedAt)
+        : null,
+    });
+  });
@@ -0,0 +1,25 @@
+import { describe, it, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { createTestApp } from "./test/app.js";
+
+let testApp;
+
+beforeAll(async () => {
+  process.env.DEMO_PASSWORD = "correct horse";
+  testApp = await createTestApp();
+});
+
+afterAll(() => testApp.cleanup());
+
+describe("demo accounts", () => {
+  it("should be seeded with DEMO_PASSWORD", async () => {
+    await request(testApp.app)
+      .post("/auth/login")
+      .send({ email: "alex@company.com", password: "correct horse" })
+      .expect(200);
+    await request(testApp.app)
+      .post("/auth/login")
+      .send({ email: "alex@company.com", password: "password" })
+      .expect(401);
+  });
+});
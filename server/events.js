@@ -0,0 +1,107 @@
+import { hasPermission } from "../src/lib/permissions.ts";
+
+// Server-Sent Events hub. Clients subscribe to a single issue and receive
+// new chat messages and issue updates as they happen.
+
+const MAX_BUFFERED_EVENTS = 1000;
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECONNECT_DELAY_MS = 3000;
+
+// Event ids are `<bootId>:<sequence>` so ids handed out before a restart
+// are recognised as unknown instead of being replayed from the wrong point
+const bootId = Date.now().toString(36);
+let sequence = 0;
+
+const recentEvents = [];
+const subscribers = new Map();
+
+const writeEvent = (res, event) => {
+  res.write(
+    `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`,
+  );
+};
+
+// Internal notes only go to users allowed to read them
+const isVisibleTo = (event, user) =>
+  !(event.type === "message" && event.data.isInternal) ||
+  hasPermission(user, "issue.view-internal-notes");
+
+// Events for `issueId` after `lastEventId`, or null when they are no
+// longer buffered and the client has to reload the thread instead
+const getMissedEvents = (issueId, lastEventId) => {
+  const [eventBootId, eventSequence] = String(lastEventId).split(":");
+  const lastSequence = Number(eventSequence);
+  const oldestSequence = recentEvents[0]?.sequence ?? sequence + 1;
+
+  if (eventBootId !== bootId || !Number.isInteger(lastSequence)) {
+    return null;
+  }
+  if (lastSequence < oldestSequence - 1) {
+    return null;
+  }
+
+  return recentEvents.filter(
+    (event) => event.issueId === issueId && event.sequence > lastSequence,
+  );
+};
+
+export const publishIssueEvent = (issueId, type, data) => {
+  sequence += 1;
+  const event = { id: `${bootId}:${sequence}`, sequence, issueId, type, data };
+
+  recentEvents.push(event);
+  if (recentEvents.length > MAX_BUFFERED_EVENTS) {
+    recentEvents.shift();
+  }
+
+  subscribers.get(issueId)?.forEach((subscriber) => {
+    if (isVisibleTo(event, subscriber.user)) {
+      writeEvent(subscriber.res, event);
+    }
+  });
+};
+
+// Keep the response open as an event stream for one issue. Reconnecting
+// clients send the last id they saw (the Last-Event-ID header, or the
+// `lastEventId` query parameter for a fresh EventSource) to get a backfill.
+export const subscribeToIssue = (issueId, req, res) => {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const lastEventId = req.get("Last-Event-ID") || req.query.lastEventId;
+  if (lastEventId) {
+    const missed = getMissedEvents(issueId, lastEventId);
+    if (missed) {
+      missed
+        .filter((event) => isVisibleTo(event, req.user))
+        .forEach((event) => writeEvent(res, event));
+    } else {
+      res.write(`event: resync\ndata: {}\n\n`);
+    }
+  }
+
+  if (!subscribers.has(issueId)) {
+    subscribers.set(issueId, new Set());
+  }
+  const subscriber = { res, user: req.user };
+  subscribers.get(issueId).add(subscriber);
+
+  const heartbeat = setInterval(
+    () => res.write(": ping\n\n"),
+    HEARTBEAT_INTERVAL_MS,
+  );
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    const issueSubscribers = subscribers.get(issueId);
+    issueSubscribers?.delete(subscriber);
+    if (issueSubscribers?.size === 0) {
+      subscribers.delete(issueId);
+    }
+  });
+};
@@ -0,0 +1,59 @@
+import { issues } from "./db.js";
+import {
+  createIssueFilter,
+  serializeIssueFilters,
+} from "../src/lib/issueFilters.ts";
+import { indexIssues } from "../src/lib/issuePagination.ts";
+
+// Sorted copies of the issues collection, one per sort key and direction,
+// rebuilt on first use after the collection changes
+let indexedVersion = null;
+const indexes = new Map();
+
+const getIssueIndex = (sort, direction) => {
+  if (indexedVersion !== issues.version()) {
+    indexes.clear();
+    indexedVersion = issues.version();
+  }
+
+  const key = `${sort}:${direction}`;
+  if (!indexes.has(key)) {
+    indexes.set(key, indexIssues(issues.all(), sort, direction));
+  }
+  return indexes.get(key);
+};
+
+// Results of recent list queries, so paging through a list filters the
+// collection once rather than for every page. They expire quickly as the
+// SLA filter depends on the time, and least recently used ones go first.
+const MATCH_CACHE_SIZE = 20;
+const MATCH_CACHE_TTL_MS = 30 * 1000;
+const matchCache = new Map();
+
+// Issues matching `filters` in list order, each with its sort position
+export const getMatchingIssues = (filters, context) => {
+  const key = [
+    issues.version(),
+    context.currentUserId,
+    serializeIssueFilters(filters).toString(),
+  ].join("\n");
+  const now = Date.now();
+
+  let entry = matchCache.get(key);
+  matchCache.delete(key);
+  if (!entry || now - entry.createdAt >= MATCH_CACHE_TTL_MS) {
+    const matches = createIssueFilter(filters, context, new Date(now));
+    entry = {
+      matching: getIssueIndex(filters.sort, filters.sortDirection).filter(
+        ({ issue }) => matches(issue),
+      ),
+      createdAt: now,
+    };
+  }
+
+  matchCache.set(key, entry);
+  if (matchCache.size > MATCH_CACHE_SIZE) {
+    matchCache.delete(matchCache.keys().next().value);
+  }
+  return entry.matching;
+};
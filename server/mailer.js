@@ -0,0 +1,48 @@
+import nodemailer from "nodemailer";
+
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+// SMTP settings come from the environment and are read when mail is first
+// sent, after dotenv has run. Mail is off without SMTP_HOST.
+const getSmtpConfig = () =>
+  process.env.SMTP_HOST
+    ? {
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        // Implicit TLS (usually port 465); otherwise STARTTLS when offered
+        secure: process.env.SMTP_SECURE === "true",
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS ?? "" }
+          : undefined,
+        connectionTimeout: SMTP_TIMEOUT_MS,
+        greetingTimeout: SMTP_TIMEOUT_MS,
+        socketTimeout: SMTP_TIMEOUT_MS,
+      }
+    : null;
+
+export const isMailEnabled = () => Boolean(process.env.SMTP_HOST);
+
+let cachedTransport = null;
+
+const getTransport = () => {
+  if (!cachedTransport) {
+    const config = getSmtpConfig();
+    if (!config) return null;
+    cachedTransport = nodemailer.createTransport(config);
+  }
+  return cachedTransport;
+};
+
+// Send a plain-text email to `to` ({ name, email }). Resolves to false
+// without sending when mail is not configured.
+export const sendMail = async ({ to, subject, text }) => {
+  const transport = getTransport();
+  if (!transport) return false;
+  await transport.sendMail({
+    from: process.env.MAIL_FROM || "Issue Tracker <no-reply@localhost>",
+    to: { name: to.name ?? "", address: to.email },
+    subject,
+    text,
+  });
+  return true;
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+let sink;
+let mailDir;
+let sendMail;
+
+// The fake SMTP server from `npm run mail:sink`, saving into a temp directory
+beforeAll(async () => {
+  mailDir = fs.mkdtempSync(path.join(os.tmpdir(), "issues-mail-"));
+  const port = 20000 + (process.pid % 10000);
+  sink = spawn(process.execPath, [path.resolve("server/smtpSink.js")], {
+    env: {
+      ...process.env,
+      MAIL_SINK_PORT: String(port),
+      MAIL_SINK_DIR: mailDir,
+    },
+  });
+  await new Promise((resolve, reject) => {
+    sink.stdout.on("data", (chunk) => {
+      if (chunk.toString().includes("listening")) resolve();
+    });
+    sink.once("exit", () => reject(new Error("SMTP sink did not start")));
+  });
+
+  process.env.SMTP_HOST = "127.0.0.1";
+  process.env.SMTP_PORT = String(port);
+  process.env.MAIL_FROM = "Issue Tracker <no-reply@example.com>";
+  ({ sendMail } = await import("./mailer.js"));
+});
+
+afterAll(() => {
+  sink.kill();
+  fs.rmSync(mailDir, { recursive: true, force: true });
+});
+
+describe("sendMail", () => {
+  it("should deliver a plain-text message over SMTP", async () => {
+    await expect(
+      sendMail({
+        to: { name: "Mike Chen", email: "mike@company.com" },
+        subject: "Issue resolved: Login fails",
+        text: "Mike, the login issue was resolved.\n.\nThanks",
+      }),
+    ).resolves.toBe(true);
+
+    const [file] = fs.readdirSync(mailDir);
+    const message = fs.readFileSync(path.join(mailDir, file), "utf8");
+    expect(message).toContain("X-Envelope-From: <no-reply@example.com>");
+    expect(message).toContain("X-Envelope-To: <mike@company.com>");
+    expect(message).toContain("To: Mike Chen <mike@company.com>");
+    expect(message).toContain("Subject: Issue resolved: Login fails");
+    expect(message).toContain("the login issue was resolved.\r\n.\r\nThanks");
+  });
+});
@@ -0,0 +1,157 @@
+import fs from "fs";
+import { toRecord } from "./store.js";
+import {
+  inboxNotifications,
+  issueFollows,
+  notificationPreferences,
+  users,
+} from "./db.js";
+import { isMailEnabled, sendMail } from "./mailer.js";
+import { generateId } from "../src/lib/mockData.ts";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  INBOX_EXCERPT_LENGTH,
+  getInboxRecipients,
+  getNotificationRecipients,
+  getTemplateValues,
+  normalizeEmailPreferences,
+  renderTemplate,
+} from "../src/lib/notifications.ts";
+
+// Templates from EMAIL_TEMPLATES_PATH, a JSON file keyed by event with
+// any of `subject` and `text`, replace the defaults per field. Loaded on
+// first use, once dotenv has run.
+let templates;
+const getTemplates = () => {
+  if (templates) return templates;
+  templates = DEFAULT_EMAIL_TEMPLATES;
+
+  const templatesPath = process.env.EMAIL_TEMPLATES_PATH;
+  if (templatesPath) {
+    try {
+      const overrides = JSON.parse(fs.readFileSync(templatesPath, "utf8"));
+      templates = Object.fromEntries(
+        Object.entries(DEFAULT_EMAIL_TEMPLATES).map(([event, template]) => [
+          event,
+          { ...template, ...overrides[event] },
+        ]),
+      );
+    } catch (error) {
+      console.error(
+        `Failed to load email templates from ${templatesPath}:`,
+        error.message,
+      );
+    }
+  }
+  return templates;
+};
+
+export const getEmailPreferences = (userId) =>
+  normalizeEmailPreferences(notificationPreferences.get(userId)?.email);
+
+export const saveEmailPreferences = (userId, email) => {
+  const preferences = normalizeEmailPreferences(email);
+  if (notificationPreferences.has(userId)) {
+    notificationPreferences.update(userId, { email: preferences });
+  } else {
+    notificationPreferences.insert({ id: userId, email: preferences });
+  }
+  return preferences;
+};
+
+const MAX_INBOX_SIZE = 200;
+
+const getFollowId = (issueId, userId) => `${issueId}:${userId}`;
+
+export const getFollowerIds = (issueId) =>
+  issueFollows
+    .filter((follow) => follow.issueId === issueId)
+    .map((follow) => follow.userId);
+
+export const isFollowing = (issueId, userId) =>
+  issueFollows.has(getFollowId(issueId, userId));
+
+export const setFollowing = (issueId, userId, following) => {
+  const id = getFollowId(issueId, userId);
+  if (following && !issueFollows.has(id)) {
+    issueFollows.insert(
+      toRecord({ id, issueId, userId, createdAt: new Date() }),
+    );
+  } else if (!following && issueFollows.has(id)) {
+    issueFollows.remove(id);
+  }
+};
+
+// A user's inbox, newest first
+export const getInbox = (userId) =>
+  inboxNotifications
+    .filter((notification) => notification.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Each inbox keeps only its newest entries
+const addToInboxes = (event, context) => {
+  const { issue, actor, message } = context;
+
+  getInboxRecipients(event, context).forEach(({ userId, type }) => {
+    inboxNotifications.insert(
+      toRecord({
+        id: generateId(),
+        userId,
+        type,
+        issueId: issue.id,
+        issueTitle: issue.title,
+        actorId: actor.id,
+        actorName: actor.name,
+        ...(type === "status-change" && { status: issue.status }),
+        ...(message && {
+          excerpt: message.message.slice(0, INBOX_EXCERPT_LENGTH),
+        }),
+        createdAt: new Date(),
+        readAt: null,
+      }),
+    );
+    getInbox(userId)
+      .slice(MAX_INBOX_SIZE)
+      .forEach((notification) => inboxNotifications.remove(notification.id));
+  });
+};
+
+// Email everyone who should hear about an issue event and has not turned
+// it off. Sending happens in the background; failures are logged so mail
+// trouble never fails the request that caused the event.
+const sendEmails = (event, context) => {
+  const template = getTemplates()[event];
+  const appUrl = process.env.APP_URL || "http://localhost:8080";
+
+  getNotificationRecipients(event, context)
+    .filter((recipient) => recipient.email)
+    .filter((recipient) => getEmailPreferences(recipient.id)[event])
+    .forEach((recipient) => {
+      const values = getTemplateValues(context, recipient, appUrl);
+      sendMail({
+        to: { name: recipient.name, email: recipient.email },
+        subject: renderTemplate(template.subject, values),
+        text: renderTemplate(template.text, values),
+      }).catch((error) =>
+        console.error(
+          `Failed to email ${recipient.email} about ${event}:`,
+          error.message,
+        ),
+      );
+    });
+};
+
+// Tell the people involved about an issue event: in their inbox and, if
+// the server sends mail, by email
+export const notifyIssueEvent = (event, { issue, actor, ...details }) => {
+  const context = {
+    issue,
+    actor,
+    users: users.all(),
+    followerIds: getFollowerIds(issue.id),
+    ...details,
+  };
+
+  addToInboxes(event, context);
+  if (isMailEnabled()) sendEmails(event, context);
+};
@@ -0,0 +1,27 @@
+import express from "express";
+import { activity, issues } from "../db.js";
+import {
+  computeIssueAnalytics,
+  parseAnalyticsFilters,
+} from "../../src/lib/analytics.ts";
+
+const router = express.Router();
+
+// Dashboard figures for `from`..`to` (whole UTC days) and an optional
+// issue `type`; see src/lib/analytics.ts
+router.get("/", (req, res) => {
+  const params = new URL(req.originalUrl, "http://localhost").searchParams;
+  const result = parseAnalyticsFilters(params);
+  if ("error" in result) {
+    return res.status(400).json({ success: false, error: result.error });
+  }
+
+  const analytics = computeIssueAnalytics(
+    issues.all(),
+    activity.filter((entry) => entry.field === "status"),
+    result.filters,
+  );
+  res.json({ success: true, analytics });
+});
+
+export default router;
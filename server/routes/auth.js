@@ -0,0 +1,49 @@
+import express from "express";
+import { users } from "../db.js";
+import { verifyPassword } from "../passwords.js";
+import {
+  createSession,
+  destroySession,
+  requireAuth,
+  toPublicUser,
+} from "../auth.js";
+
+const router = express.Router();
+
+router.post("/login", (req, res) => {
+  const { email, password } = req.body || {};
+
+  if (typeof email !== "string" || typeof password !== "string") {
+    return res
+      .status(400)
+      .json({ success: false, error: "Email and password are required" });
+  }
+
+  const user = users
+    .all()
+    .find(
+      (candidate) =>
+        candidate.email.toLowerCase() === email.trim().toLowerCase(),
+    );
+
+  if (!user || !verifyPassword(password, user.passwordHash)) {
+    return res
+      .status(401)
+      .json({ success: false, error: "Invalid email or password" });
+  }
+
+  createSession(res, user.id);
+  res.json({ success: true, user: toPublicUser(user) });
+});
+
+router.post("/logout", (req, res) => {
+  destroySession(req, res);
+  res.json({ success: true });
+});
+
+// The signed-in user for the session cookie
+router.get("/me", requireAuth, (req, res) => {
+  res.json({ success: true, user: req.user });
+});
+
+export default router;
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { createTestApp } from "../test/app.js";
+
+let testApp;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+});
+
+afterAll(() => testApp.cleanup());
+
+describe("sessions", () => {
+  it("should sign in, report the user and sign out", async () => {
+    const agent = await testApp.login("mike");
+
+    const me = await agent.get("/auth/me").expect(200);
+    expect(me.body.user).toMatchObject({ id: "user-3", role: "support" });
+    expect(me.body.user).not.toHaveProperty("passwordHash");
+
+    await agent.post("/auth/logout").expect(200);
+    await agent.get("/auth/me").expect(401);
+  });
+
+  it("should reject wrong credentials", async () => {
+    const res = await request(testApp.app)
+      .post("/auth/login")
+      .send({ email: "mike@company.com", password: "wrong" })
+      .expect(401);
+
+    expect(res.body.error).toBe("Invalid email or password");
+  });
+
+  it("should treat a malformed session cookie as signed out", async () => {
+    await request(testApp.app)
+      .get("/health")
+      .set("Cookie", "sid=%E0%A4%A")
+      .expect(200);
+    await request(testApp.app)
+      .get("/auth/me")
+      .set("Cookie", "sid=%E0%A4%A")
+      .expect(401);
+  });
+});
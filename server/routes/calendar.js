@@ -0,0 +1,11 @@
+import express from "express";
+import { getBusinessCalendar } from "../calendar.js";
+
+const router = express.Router();
+
+// Working hours and holidays, so clients count business time the same way
+router.get("/", (req, res) => {
+  res.json({ success: true, calendar: getBusinessCalendar() });
+});
+
+export default router;
@@ -0,0 +1,827 @@
+import crypto from "crypto";
+import express from "express";
+import { toRecord } from "../store.js";
+import { issues, users } from "../db.js";
+import { publishIssueEvent, subscribeToIssue } from "../events.js";
+import { generateId } from "../../src/lib/mockData.ts";
+import {
+  appendSystemMessage,
+  getIssueMessages,
+  removeIssueMessages,
+  restoreMessages,
+} from "../threads.js";
+import { runAutomations, toPublicIssue } from "../automation.js";
+import { getIssueActivity, recordIssueChanges } from "../activity.js";
+import { parseSearchQuery } from "../../src/lib/searchQuery.ts";
+import { parseIssueFilters } from "../../src/lib/issueFilters.ts";
+import { getSortPosition } from "../../src/lib/issueGrouping.ts";
+import { pageSortedIssues } from "../../src/lib/issuePagination.ts";
+import { getMatchingIssues } from "../issueIndex.js";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  getCsvHeaders,
+  getExportFileName,
+  issueToCsvLine,
+  issueToJson,
+  toCsvLine,
+} from "../../src/lib/issueExport.ts";
+import { requirePermission } from "../auth.js";
+import { canEditIssue, hasPermission } from "../../src/lib/permissions.ts";
+import { TEAMS, getTeamName, isAssignable } from "../../src/lib/assignment.ts";
+import {
+  MAX_BATCH_SIZE,
+  resolveBulkChanges,
+} from "../../src/lib/bulkActions.ts";
+import {
+  DONE_STATUSES,
+  getStatusLabel,
+  getWorkflow,
+  validateTransition,
+} from "../../src/lib/workflow.ts";
+import { getResolvedAt } from "../../src/lib/sla.ts";
+import { getBusinessCalendar } from "../calendar.js";
+import { notifyIssueEvent } from "../notifications.js";
+
+const ISSUE_TYPES = ["content", "technical", "general"];
+const PRIORITIES = ["low", "medium", "high", "urgent"];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Cursors are opaque to clients: base64url-encoded sort position of the
+// last issue on the page they already have
+const encodeCursor = (position) =>
+  Buffer.from(JSON.stringify(position)).toString("base64url");
+
+const decodeCursor = (cursor) => {
+  try {
+    const position = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    return Array.isArray(position) &&
+      position.length === 3 &&
+      (position[0] === null ||
+        ["number", "string"].includes(typeof position[0])) &&
+      typeof position[1] === "number" &&
+      typeof position[2] === "string"
+      ? position
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Fields a client may set when creating or updating an issue
+const EDITABLE_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "status",
+  "resolutionNote",
+  "assigneeId",
+  "team",
+  "tags",
+  "mediaFiles",
+  "contentDetails",
+  "technicalDetails",
+  "generalDetails",
+];
+
+const pickEditableFields = (body) =>
+  EDITABLE_FIELDS.reduce((fields, field) => {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+    return fields;
+  }, {});
+
+const DETAIL_LABELS = {
+  contentDetails: "Content details",
+  technicalDetails: "Technical details",
+  generalDetails: "General details",
+};
+
+const isPlainObject = (value) =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Returns an error message for the first invalid field, if any
+const validateIssueFields = (fields, { partial }) => {
+  if (!partial || fields.title !== undefined) {
+    if (typeof fields.title !== "string" || !fields.title.trim()) {
+      return "Title is required";
+    }
+  }
+  if (!partial || fields.description !== undefined) {
+    if (typeof fields.description !== "string" || !fields.description.trim()) {
+      return "Description is required";
+    }
+  }
+  if (fields.type !== undefined && !ISSUE_TYPES.includes(fields.type)) {
+    return `Invalid issue type "${fields.type}"`;
+  }
+  if (
+    fields.resolutionNote !== undefined &&
+    fields.resolutionNote !== null &&
+    typeof fields.resolutionNote !== "string"
+  ) {
+    return "Resolution note must be a string";
+  }
+  if (fields.priority !== undefined && !PRIORITIES.includes(fields.priority)) {
+    return `Invalid priority "${fields.priority}"`;
+  }
+  if (
+    fields.tags !== undefined &&
+    (!Array.isArray(fields.tags) ||
+      fields.tags.some((tag) => typeof tag !== "string"))
+  ) {
+    return "Tags must be a list of strings";
+  }
+  for (const [field, label] of Object.entries(DETAIL_LABELS)) {
+    const details = fields[field];
+    if (
+      details !== undefined &&
+      (!isPlainObject(details) ||
+        Object.values(details).some((value) => typeof value !== "string"))
+    ) {
+      return `${label} must be an object with text values`;
+    }
+  }
+  if (
+    fields.mediaFiles !== undefined &&
+    (!Array.isArray(fields.mediaFiles) ||
+      fields.mediaFiles.some((file) => !isPlainObject(file)))
+  ) {
+    return "Media files must be a list of files";
+  }
+  if (fields.assigneeId) {
+    const assignee = users.get(fields.assigneeId);
+    if (!assignee || !isAssignable(assignee)) {
+      return "Issues can only be assigned to support or admin users";
+    }
+  }
+  if (fields.team && !TEAMS.some((team) => team.id === fields.team)) {
+    return `Invalid team "${fields.team}"`;
+  }
+  return null;
+};
+
+// Validate and store a new issue submitted by `user`. New issues start in
+// their workflow's initial status; imported ones may bring their own.
+// Returns the issue, or the status code and message to refuse it with.
+const createIssue = (body, user, { imported = false } = {}) => {
+  const { status, resolutionNote, ...editableFields } =
+    pickEditableFields(body);
+  const fields = { ...editableFields, type: body.type };
+
+  if (fields.type === undefined) {
+    return { status: 400, error: "Issue type is required" };
+  }
+
+  const error = validateIssueFields(fields, { partial: false });
+  if (error) {
+    return { status: 400, error };
+  }
+  if (
+    (fields.assigneeId || fields.team) &&
+    !hasPermission(user, "issue.reassign")
+  ) {
+    return {
+      status: 403,
+      error: "You do not have permission to assign issues",
+    };
+  }
+
+  const workflow = getWorkflow(fields.type);
+  let initialStatus = workflow.initial;
+  let initialResolutionNote;
+  if (imported && status !== undefined && status !== workflow.initial) {
+    if (!workflow.states.includes(status)) {
+      return {
+        status: 400,
+        error: `"${status}" is not a valid status for ${fields.type} issues`,
+      };
+    }
+    if (!hasPermission(user, "issue.change-status")) {
+      return {
+        status: 403,
+        error: "You do not have permission to import issues with a status",
+      };
+    }
+    initialStatus = status;
+    if (DONE_STATUSES.includes(status) && typeof resolutionNote === "string") {
+      initialResolutionNote = resolutionNote.trim() || undefined;
+    }
+  }
+
+  const now = new Date().toISOString();
+  const issue = issues.insert(
+    toRecord({
+      priority: "medium",
+      tags: [],
+      mediaFiles: [],
+      ...fields,
+      status: initialStatus,
+      ...(initialResolutionNote && { resolutionNote: initialResolutionNote }),
+      firstResponseAt: null,
+      resolvedAt: getResolvedAt(undefined, initialStatus),
+      id: generateId(),
+      submittedBy: user.id,
+      submittedAt: now,
+      updatedAt: now,
+    }),
+  );
+
+  appendSystemMessage(
+    issue.id,
+    imported
+      ? `Issue imported by ${user.name}.`
+      : "Issue created successfully. A support representative will be with you shortly.",
+  );
+  runAutomations({ type: "issue.created", issue });
+  // Imports would flood inboxes
+  if (!imported) {
+    notifyIssueEvent("issue.created", { issue, actor: user });
+    if (issue.assigneeId) {
+      notifyIssueEvent("issue.assigned", { issue, actor: user });
+    }
+  }
+
+  return { issue };
+};
+
+// Whether the issue was saved again after the version a client based its
+// changes on
+const isOutdated = (existing, expectedUpdatedAt) =>
+  new Date(expectedUpdatedAt).getTime() !==
+  new Date(existing.updatedAt).getTime();
+
+// Validate and apply changes to an issue on behalf of `user`, with the same
+// messages, activity entries and automations as a single edit. Returns the
+// updated issue, or the status code and message to refuse it with.
+// A `revert` puts back the exact fields the server recorded before a bulk
+// change, so the workflow may not lead there and no automations run for
+// it; the status must still be one of the workflow's.
+const updateIssue = (existing, changes, user, { revert = false } = {}) => {
+  const error = validateIssueFields(changes, { partial: true });
+  if (error) {
+    return { status: 400, error };
+  }
+
+  const { status, resolutionNote, assigneeId, team, ...otherChanges } = changes;
+  const statusChanged = status !== undefined && status !== existing.status;
+  if (statusChanged && !getWorkflow(existing.type).states.includes(status)) {
+    return {
+      status: 400,
+      error: `"${status}" is not a valid status for ${existing.type} issues`,
+    };
+  }
+  if (resolutionNote !== undefined && !statusChanged && !revert) {
+    return {
+      status: 400,
+      error: "A resolution note can only be given when changing the status",
+    };
+  }
+  if (
+    (assigneeId !== undefined || team !== undefined) &&
+    !hasPermission(user, "issue.reassign")
+  ) {
+    return {
+      status: 403,
+      error: "You do not have permission to assign issues",
+    };
+  }
+  if (statusChanged && !hasPermission(user, "issue.change-status")) {
+    return {
+      status: 403,
+      error: "You do not have permission to change the status of issues",
+    };
+  }
+  if (statusChanged && !revert) {
+    const transitionError = validateTransition(existing, status, {
+      resolutionNote,
+    });
+    if (transitionError) {
+      return { status: 400, error: transitionError };
+    }
+  }
+  if (Object.keys(otherChanges).length > 0 && !canEditIssue(user, existing)) {
+    return {
+      status: 403,
+      error: "You can only edit issues you submitted",
+    };
+  }
+
+  // Reopening an issue drops the note explaining why it was done, and
+  // restarts the resolution clock
+  if (statusChanged && !revert) {
+    changes.resolutionNote = DONE_STATUSES.includes(status)
+      ? resolutionNote?.trim() || existing.resolutionNote || null
+      : null;
+    changes.resolvedAt = getResolvedAt(existing, status);
+  }
+
+  const issue = issues.update(
+    existing.id,
+    toRecord({ ...changes, updatedAt: new Date() }),
+  );
+
+  publishIssueEvent(issue.id, "issue", toPublicIssue(issue));
+  recordIssueChanges(existing, issue, user.id);
+
+  if (assigneeId !== undefined && assigneeId !== existing.assigneeId) {
+    const assignee = assigneeId && users.get(assigneeId);
+    appendSystemMessage(
+      issue.id,
+      assignee ? `Issue assigned to ${assignee.name}` : "Issue unassigned",
+    );
+    if (assignee) {
+      notifyIssueEvent("issue.assigned", { issue, actor: user });
+    }
+  }
+  if (team !== undefined && team !== existing.team) {
+    appendSystemMessage(
+      issue.id,
+      team
+        ? `Issue moved to the ${getTeamName(team)} team`
+        : "Issue removed from its team",
+    );
+  }
+  if (statusChanged) {
+    appendSystemMessage(
+      issue.id,
+      resolutionNote?.trim()
+        ? `Issue status changed to "${getStatusLabel(status)}": ${resolutionNote.trim()}`
+        : `Issue status changed to "${getStatusLabel(status)}"`,
+    );
+    if (!revert) {
+      runAutomations({
+        type: "issue.status-changed",
+        issue,
+        previousStatus: existing.status,
+      });
+    }
+    notifyIssueEvent("issue.status-changed", {
+      issue,
+      actor: user,
+      previousStatus: existing.status,
+    });
+  }
+
+  return { issue };
+};
+
+// Deleted issues and their threads are kept in memory for a while so a
+// bulk delete can be undone. Activity entries are never removed, so they
+// need no restoring.
+const RESTORE_WINDOW_MS = 10 * 60 * 1000;
+const recentlyDeleted = new Map();
+
+const pruneRecentlyDeleted = () => {
+  const cutoff = Date.now() - RESTORE_WINDOW_MS;
+  recentlyDeleted.forEach((entry, id) => {
+    if (entry.deletedAt < cutoff) recentlyDeleted.delete(id);
+  });
+};
+
+// Bulk changes are remembered for as long, each under a token that undoes
+// it once: the fields it changed with their earlier values, and the
+// `updatedAt` it left the issue at
+const recentChanges = new Map();
+
+// Fields a bulk change sets, directly or through a status change
+const BULK_CHANGE_FIELDS = [
+  "status",
+  "resolutionNote",
+  "resolvedAt",
+  "priority",
+  "assigneeId",
+  "tags",
+];
+
+const pruneRecentChanges = () => {
+  const cutoff = Date.now() - RESTORE_WINDOW_MS;
+  recentChanges.forEach((entry, token) => {
+    if (entry.changedAt < cutoff) recentChanges.delete(token);
+  });
+};
+
+// Remember how to undo a bulk change made by `user`; returns the token
+const recordBulkChange = (before, after, user) => {
+  const previous = {};
+  BULK_CHANGE_FIELDS.forEach((field) => {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      previous[field] = before[field] ?? null;
+    }
+  });
+
+  pruneRecentChanges();
+  const token = crypto.randomBytes(16).toString("hex");
+  recentChanges.set(token, {
+    issueId: after.id,
+    userId: user.id,
+    previous,
+    updatedAt: after.updatedAt,
+    changedAt: Date.now(),
+  });
+  return token;
+};
+
+const deleteIssue = (id) => {
+  const issue = issues.get(id);
+  if (!issue) return false;
+
+  issues.remove(id);
+  const removedMessages = removeIssueMessages(id);
+  pruneRecentlyDeleted();
+  recentlyDeleted.set(id, {
+    issue,
+    messages: removedMessages,
+    deletedAt: Date.now(),
+  });
+  publishIssueEvent(id, "issue-deleted", { id });
+  return true;
+};
+
+const restoreIssue = (id) => {
+  pruneRecentlyDeleted();
+  const entry = recentlyDeleted.get(id);
+  if (!entry || issues.has(id)) return undefined;
+
+  recentlyDeleted.delete(id);
+  const issue = issues.insert(entry.issue);
+  restoreMessages(entry.messages);
+  publishIssueEvent(id, "issue", toPublicIssue(issue));
+  return issue;
+};
+
+// Run one operation of a batch request; see POST /batch
+const runBatchOperation = (operation, user) => {
+  const id = operation?.id;
+  if (typeof id !== "string") {
+    return { id, success: false, error: "Operation is missing an issue id" };
+  }
+
+  if (operation.restore === true) {
+    if (!hasPermission(user, "issue.delete")) {
+      return {
+        id,
+        success: false,
+        error: "You do not have permission to restore issues",
+      };
+    }
+    const issue = restoreIssue(id);
+    return issue
+      ? { id, success: true, issue: toPublicIssue(issue) }
+      : { id, success: false, error: "Issue can no longer be restored" };
+  }
+
+  const existing = issues.get(id);
+  if (!existing) {
+    return { id, success: false, error: "Issue not found" };
+  }
+
+  if (operation.delete === true) {
+    if (!hasPermission(user, "issue.delete")) {
+      return {
+        id,
+        success: false,
+        error: "You do not have permission to delete issues",
+      };
+    }
+    deleteIssue(id);
+    return { id, success: true };
+  }
+
+  if (operation.undoToken !== undefined) {
+    pruneRecentChanges();
+    const entry = recentChanges.get(operation.undoToken);
+    if (!entry || entry.issueId !== id || entry.userId !== user.id) {
+      return { id, success: false, error: "Change can no longer be undone" };
+    }
+    if (isOutdated(existing, entry.updatedAt)) {
+      return {
+        id,
+        success: false,
+        error: "Issue was changed by someone else in the meantime",
+      };
+    }
+
+    const result = updateIssue(existing, { ...entry.previous }, user, {
+      revert: true,
+    });
+    if (result.error) {
+      return { id, success: false, error: result.error };
+    }
+    recentChanges.delete(operation.undoToken);
+    return { id, success: true, issue: toPublicIssue(result.issue) };
+  }
+
+  const changes = operation.changes;
+  if (!changes || typeof changes !== "object") {
+    return { id, success: false, error: "Operation has no changes" };
+  }
+  if (
+    [changes.addTags, changes.removeTags].some(
+      (tags) =>
+        tags !== undefined &&
+        (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")),
+    )
+  ) {
+    return { id, success: false, error: "Tags must be a list of strings" };
+  }
+
+  const resolved = resolveBulkChanges(existing, changes);
+  if (Object.keys(resolved).length === 0) {
+    return { id, success: true, issue: toPublicIssue(existing) };
+  }
+
+  const result = updateIssue(existing, resolved, user);
+  return result.error
+    ? { id, success: false, error: result.error }
+    : {
+        id,
+        success: true,
+        issue: toPublicIssue(result.issue),
+        undoToken: recordBulkChange(existing, result.issue, user),
+      };
+};
+
+// Resolves `me` and user names in search queries and exports, and counts
+// business time for the SLA filter
+const getSearchContext = (user) => ({
+  currentUserId: user.id,
+  getUserName: (userId) => users.get(userId)?.name,
+  calendar: getBusinessCalendar(),
+});
+
+const router = express.Router();
+
+// Without `limit`, list every matching issue. With it, return one page plus
+// a `nextCursor` to pass back as `cursor`. Filters, sorting and grouping use
+// the same query parameters as the issue list URL (see
+// src/lib/issueFilters.ts); `q` uses the search syntax from
+// src/lib/searchQuery.ts and `groupValue` narrows the page to one group.
+router.get("/", (req, res) => {
+  const params = new URL(req.originalUrl, "http://localhost").searchParams;
+  const filters = parseIssueFilters(params);
+
+  const query = parseSearchQuery(filters.search);
+  if (query.errors.length > 0) {
+    return res.status(400).json({ success: false, error: query.errors[0] });
+  }
+
+  const searchContext = getSearchContext(req.user);
+  const matching = getMatchingIssues(filters, searchContext);
+
+  if (!params.has("limit") && !params.has("cursor")) {
+    return res.json({
+      success: true,
+      issues: matching.map(({ issue }) => toPublicIssue(issue)),
+    });
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(params.get("limit"), 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE,
+  );
+
+  let after = null;
+  if (params.get("cursor")) {
+    after = decodeCursor(params.get("cursor"));
+    if (!after) {
+      return res.status(400).json({ success: false, error: "Invalid cursor" });
+    }
+  }
+
+  const page = pageSortedIssues(
+    matching,
+    {
+      filters,
+      groupValue: params.get("groupValue") || undefined,
+      after,
+      limit,
+    },
+    searchContext,
+  );
+  const last = page.issues[page.issues.length - 1];
+
+  res.json({
+    success: true,
+    issues: page.issues.map(toPublicIssue),
+    nextCursor: page.hasMore
+      ? encodeCursor(getSortPosition(last, filters.sort))
+      : null,
+    total: page.total,
+    groups: page.groups,
+  });
+});
+
+// Download every issue matching the list filters as CSV or JSON. Takes the
+// same query parameters as GET /, plus `format` (csv or json) and
+// `messages=1` to include each issue's conversation. Rows are written one
+// issue at a time so large exports do not have to fit in one response
+// string.
+router.get("/export", async (req, res) => {
+  const params = new URL(req.originalUrl, "http://localhost").searchParams;
+  const format = params.get("format") || "csv";
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res
+      .status(400)
+      .json({ success: false, error: `Invalid export format "${format}"` });
+  }
+
+  const filters = parseIssueFilters(params);
+  const query = parseSearchQuery(filters.search);
+  if (query.errors.length > 0) {
+    return res.status(400).json({ success: false, error: query.errors[0] });
+  }
+
+  const searchContext = getSearchContext(req.user);
+  const matching = getMatchingIssues(filters, searchContext).map(({ issue }) =>
+    toPublicIssue(issue),
+  );
+
+  const includeMessages = params.get("messages") === "1";
+  const canSeeInternal = hasPermission(req.user, "issue.view-internal-notes");
+  const getMessages = (issueId) =>
+    includeMessages
+      ? getIssueMessages(issueId).filter(
+          (message) => canSeeInternal || !message.isInternal,
+        )
+      : undefined;
+
+  let closed = false;
+  req.on("close", () => {
+    closed = true;
+  });
+  // Wait for the client to catch up instead of buffering the whole export
+  const write = (chunk) =>
+    res.write(chunk) ||
+    new Promise((resolve) => {
+      res.once("drain", resolve);
+      res.once("close", resolve);
+    });
+
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${getExportFileName(format)}"`,
+  );
+
+  await write(
+    format === "csv" ? toCsvLine(getCsvHeaders(includeMessages)) : "[",
+  );
+  for (const [index, issue] of matching.entries()) {
+    if (closed) return;
+    await write(
+      format === "csv"
+        ? issueToCsvLine(issue, searchContext, getMessages(issue.id))
+        : `${index > 0 ? ",\n" : ""}${issueToJson(issue, getMessages(issue.id))}`,
+    );
+  }
+  res.end(format === "csv" ? "" : "]\n");
+});
+
+router.get("/:id", (req, res) => {
+  const issue = issues.get(req.params.id);
+  if (!issue) {
+    return res.status(404).json({ success: false, error: "Issue not found" });
+  }
+
+  res.json({ success: true, issue: toPublicIssue(issue) });
+});
+
+// Field change history of one issue, oldest first. Optional `field` and
+// `actor` query parameters narrow the result.
+router.get("/:id/activity", (req, res) => {
+  if (!issues.has(req.params.id)) {
+    return res.status(404).json({ success: false, error: "Issue not found" });
+  }
+
+  const { field, actor } = req.query;
+  const entries = getIssueActivity(req.params.id).filter(
+    (entry) =>
+      (!field ||
+        entry.field === field ||
+        entry.field.startsWith(`${field}.`)) &&
+      (!actor || entry.actorId === actor),
+  );
+
+  res.json({ success: true, activity: entries });
+});
+
+// Live updates for one issue as Server-Sent Events
+router.get("/:id/events", (req, res) => {
+  if (!issues.has(req.params.id)) {
+    return res.status(404).json({ success: false, error: "Issue not found" });
+  }
+
+  subscribeToIssue(req.params.id, req, res);
+});
+
+router.post("/", (req, res) => {
+  const result = createIssue(req.body || {}, req.user);
+  if (result.error) {
+    return res
+      .status(result.status)
+      .json({ success: false, error: result.error });
+  }
+
+  res.status(201).json({ success: true, issue: toPublicIssue(result.issue) });
+});
+
+// Create many issues at once, e.g. from a spreadsheet. Unlike POST /,
+// imported issues may keep their status. Each issue succeeds or fails on
+// its own; `results` lists the outcome of every one in request order.
+router.post("/import", (req, res) => {
+  const imported = req.body?.issues;
+  if (!Array.isArray(imported) || imported.length === 0) {
+    return res.status(400).json({ success: false, error: "No issues given" });
+  }
+  if (imported.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({
+      success: false,
+      error: `An import can have at most ${MAX_BATCH_SIZE} issues`,
+    });
+  }
+
+  const results = imported.map((fields, index) => {
+    const result =
+      fields && typeof fields === "object"
+        ? createIssue(fields, req.user, { imported: true })
+        : { error: "Issue must be an object" };
+    return result.error
+      ? { index, success: false, error: result.error }
+      : { index, success: true, issue: toPublicIssue(result.issue) };
+  });
+
+  res.json({ success: true, results });
+});
+
+// Apply many operations in one request, e.g. from the issue list's bulk
+// actions. Each operation succeeds or fails on its own; the response lists
+// the outcome of every one in request order.
+router.post("/batch", (req, res) => {
+  const operations = req.body?.operations;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return res
+      .status(400)
+      .json({ success: false, error: "No operations given" });
+  }
+  if (operations.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({
+      success: false,
+      error: `A batch can have at most ${MAX_BATCH_SIZE} operations`,
+    });
+  }
+
+  const results = operations.map((operation) =>
+    runBatchOperation(operation, req.user),
+  );
+
+  res.json({ success: true, results });
+});
+
+router.patch("/:id", (req, res) => {
+  const existing = issues.get(req.params.id);
+  if (!existing) {
+    return res.status(404).json({ success: false, error: "Issue not found" });
+  }
+
+  // Editors send the `updatedAt` their changes are based on; refuse to
+  // overwrite a newer version someone else saved in the meantime
+  const expectedUpdatedAt = req.body?.expectedUpdatedAt;
+  if (
+    expectedUpdatedAt !== undefined &&
+    isOutdated(existing, expectedUpdatedAt)
+  ) {
+    return res.status(409).json({
+      success: false,
+      error: "This issue was changed by someone else. Reload it and try again.",
+    });
+  }
+
+  const result = updateIssue(
+    existing,
+    pickEditableFields(req.body || {}),
+    req.user,
+  );
+  if (result.error) {
+    return res
+      .status(result.status)
+      .json({ success: false, error: result.error });
+  }
+
+  res.json({ success: true, issue: toPublicIssue(result.issue) });
+});
+
+router.delete("/:id", requirePermission("issue.delete"), (req, res) => {
+  if (!deleteIssue(req.params.id)) {
+    return res.status(404).json({ success: false, error: "Issue not found" });
+  }
+
+  res.json({ success: true });
+});
+
+export default router;
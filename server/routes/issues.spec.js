@@ -0,0 +1,494 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { createTestApp } from "../test/app.js";
+
+let testApp;
+let alex;
+let sarah;
+let mike;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  [alex, sarah, mike] = await Promise.all(
+    ["alex", "sarah", "mike"].map((name) => testApp.login(name)),
+  );
+});
+
+afterAll(() => testApp.cleanup());
+
+const newIssue = (fields = {}) => ({
+  type: "general",
+  title: "Printer is offline",
+  description: "The printer on floor 2 does not respond",
+  ...fields,
+});
+
+const createIssue = async (agent = alex, fields = {}) => {
+  const res = await agent.post("/issues").send(newIssue(fields)).expect(201);
+  return res.body.issue;
+};
+
+describe("authentication", () => {
+  it("should refuse requests without a session", async () => {
+    const res = await request(testApp.app).get("/issues").expect(401);
+
+    expect(res.body).toEqual({
+      success: false,
+      error: "Authentication required",
+    });
+  });
+});
+
+describe("POST /issues", () => {
+  it("should create an open issue submitted by the signed-in user", async () => {
+    const res = await alex
+      .post("/issues")
+      .send(newIssue({ tags: ["printer"] }))
+      .expect(201);
+
+    expect(res.body.issue).toMatchObject({
+      title: "Printer is offline",
+      status: "open",
+      priority: "medium",
+      tags: ["printer"],
+      submittedBy: "user-1",
+    });
+    await alex.get(`/issues/${res.body.issue.id}`).expect(200);
+  });
+
+  it("should reject missing and invalid fields", async () => {
+    const cases = [
+      [{ type: undefined }, "Issue type is required"],
+      [{ title: " " }, "Title is required"],
+      [{ priority: "critical" }, 'Invalid priority "critical"'],
+      [{ tags: "printer" }, "Tags must be a list of strings"],
+    ];
+
+    for (const [fields, error] of cases) {
+      const res = await alex.post("/issues").send(newIssue(fields)).expect(400);
+      expect(res.body).toEqual({ success: false, error });
+    }
+  });
+
+  it("should only let staff assign new issues", async () => {
+    await alex
+      .post("/issues")
+      .send(newIssue({ assigneeId: "user-3" }))
+      .expect(403);
+    const res = await mike
+      .post("/issues")
+      .send(newIssue({ assigneeId: "user-3" }))
+      .expect(201);
+
+    expect(res.body.issue.assigneeId).toBe("user-3");
+  });
+});
+
+describe("PATCH /issues/:id", () => {
+  it("should validate changes", async () => {
+    const issue = await createIssue();
+
+    const res = await alex
+      .patch(`/issues/${issue.id}`)
+      .send({ description: "" })
+      .expect(400);
+
+    expect(res.body.error).toBe("Description is required");
+    await alex.patch("/issues/missing").send({ title: "Hi" }).expect(404);
+  });
+
+  it("should reject details and media files of the wrong shape", async () => {
+    const issue = await createIssue(alex, { type: "technical" });
+    const cases = [
+      [
+        { technicalDetails: "oops" },
+        "Technical details must be an object with text values",
+      ],
+      [
+        { technicalDetails: { systemType: ["web"] } },
+        "Technical details must be an object with text values",
+      ],
+      [
+        { generalDetails: null },
+        "General details must be an object with text values",
+      ],
+      [{ mediaFiles: "photo.png" }, "Media files must be a list of files"],
+    ];
+
+    for (const [changes, error] of cases) {
+      const res = await alex
+        .patch(`/issues/${issue.id}`)
+        .send(changes)
+        .expect(400);
+      expect(res.body.error).toBe(error);
+    }
+    await alex
+      .post("/issues")
+      .send(newIssue({ contentDetails: ["blog"] }))
+      .expect(400);
+
+    const { body } = await alex.get(`/issues/${issue.id}/activity`);
+    expect(body.activity).toEqual([]);
+  });
+
+  it("should refuse changes based on an outdated version", async () => {
+    const issue = await createIssue();
+    const { body } = await alex
+      .patch(`/issues/${issue.id}`)
+      .send({ title: "Printer on floor 2", expectedUpdatedAt: issue.updatedAt })
+      .expect(200);
+
+    await alex
+      .patch(`/issues/${issue.id}`)
+      .send({ title: "Stale edit", expectedUpdatedAt: issue.updatedAt })
+      .expect(409);
+    await alex
+      .patch(`/issues/${issue.id}`)
+      .send({ title: "Fresh edit", expectedUpdatedAt: body.issue.updatedAt })
+      .expect(200);
+  });
+
+  it("should enforce permissions", async () => {
+    const issue = await createIssue(sarah);
+
+    await alex
+      .patch(`/issues/${issue.id}`)
+      .send({ title: "Not mine" })
+      .expect(403);
+    await alex
+      .patch(`/issues/${issue.id}`)
+      .send({ status: "in-progress" })
+      .expect(403);
+    await mike
+      .patch(`/issues/${issue.id}`)
+      .send({ status: "in-progress" })
+      .expect(200);
+  });
+
+  it("should only allow transitions from the workflow", async () => {
+    const issue = await createIssue(alex, { type: "technical" });
+
+    const res = await mike
+      .patch(`/issues/${issue.id}`)
+      .send({ status: "resolved" })
+      .expect(400);
+
+    expect(res.body.success).toBe(false);
+  });
+});
+
+describe("DELETE /issues/:id", () => {
+  it("should only let admins delete issues", async () => {
+    const issue = await createIssue();
+
+    await alex.delete(`/issues/${issue.id}`).expect(403);
+    await mike.delete(`/issues/${issue.id}`).expect(403);
+    await sarah.delete(`/issues/${issue.id}`).expect(200);
+    await sarah.get(`/issues/${issue.id}`).expect(404);
+  });
+});
+
+describe("POST /issues/batch", () => {
+  it("should delete and restore issues", async () => {
+    const [first, second] = await Promise.all([createIssue(), createIssue()]);
+
+    const deleted = await sarah
+      .post("/issues/batch")
+      .send({
+        operations: [
+          { id: first.id, delete: true },
+          { id: second.id, delete: true },
+          { id: "missing", delete: true },
+        ],
+      })
+      .expect(200);
+
+    expect(deleted.body.results.map(({ success }) => success)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+    await sarah.get(`/issues/${first.id}`).expect(404);
+
+    const restored = await sarah
+      .post("/issues/batch")
+      .send({ operations: [{ id: first.id, restore: true }] })
+      .expect(200);
+
+    expect(restored.body.results[0]).toMatchObject({
+      success: true,
+      issue: { id: first.id, title: first.title },
+    });
+    await sarah.get(`/issues/${first.id}`).expect(200);
+  });
+
+  it("should report operations the user may not run", async () => {
+    const issue = await createIssue();
+
+    const res = await alex
+      .post("/issues/batch")
+      .send({
+        operations: [
+          { id: issue.id, delete: true },
+          { id: issue.id, changes: { status: "in-progress" } },
+          { id: issue.id, changes: { addTags: ["printer"] } },
+        ],
+      })
+      .expect(200);
+
+    expect(res.body.results).toMatchObject([
+      { success: false, error: "You do not have permission to delete issues" },
+      { success: false },
+      { success: true, issue: { tags: ["printer"] } },
+    ]);
+  });
+
+  it("should undo a bulk close even where the workflow has no way back", async () => {
+    const issue = await createIssue(alex, { type: "technical" });
+
+    const closed = await mike
+      .post("/issues/batch")
+      .send({
+        operations: [
+          {
+            id: issue.id,
+            changes: { status: "closed", resolutionNote: "Duplicate" },
+          },
+        ],
+      })
+      .expect(200);
+    const [{ issue: after, undoToken }] = closed.body.results;
+    expect(after.status).toBe("closed");
+    expect(undoToken).toEqual(expect.any(String));
+
+    // A plain change is still held to the workflow
+    const refused = await mike
+      .post("/issues/batch")
+      .send({ operations: [{ id: issue.id, changes: { status: "open" } }] })
+      .expect(200);
+    expect(refused.body.results[0].success).toBe(false);
+
+    const undo = { id: issue.id, undoToken };
+    const reverted = await mike
+      .post("/issues/batch")
+      .send({ operations: [undo] })
+      .expect(200);
+
+    expect(reverted.body.results[0]).toMatchObject({
+      success: true,
+      issue: { status: "open", resolutionNote: null, resolvedAt: null },
+    });
+
+    const again = await mike
+      .post("/issues/batch")
+      .send({ operations: [undo] })
+      .expect(200);
+    expect(again.body.results[0]).toMatchObject({
+      success: false,
+      error: "Change can no longer be undone",
+    });
+  });
+
+  it("should only undo changes the server recorded", async () => {
+    const issue = await createIssue();
+
+    const forged = await mike
+      .post("/issues/batch")
+      .send({
+        operations: [
+          {
+            id: issue.id,
+            revert: { status: "nonsense" },
+            expectedUpdatedAt: issue.updatedAt,
+          },
+          { id: issue.id, changes: { status: "nonsense" } },
+          { id: issue.id, undoToken: "made-up" },
+        ],
+      })
+      .expect(200);
+
+    expect(forged.body.results).toMatchObject([
+      { success: false, error: "Operation has no changes" },
+      {
+        success: false,
+        error: '"nonsense" is not a valid status for general issues',
+      },
+      { success: false, error: "Change can no longer be undone" },
+    ]);
+    const stored = await mike.get(`/issues/${issue.id}`).expect(200);
+    expect(stored.body.issue.status).toBe("open");
+  });
+
+  it("should only undo a change for its author while nobody else changed the issue", async () => {
+    const issue = await createIssue();
+
+    const changed = await mike
+      .post("/issues/batch")
+      .send({ operations: [{ id: issue.id, changes: { priority: "high" } }] })
+      .expect(200);
+    const undo = { id: issue.id, undoToken: changed.body.results[0].undoToken };
+
+    const byOther = await sarah
+      .post("/issues/batch")
+      .send({ operations: [undo] })
+      .expect(200);
+    expect(byOther.body.results[0]).toMatchObject({
+      success: false,
+      error: "Change can no longer be undone",
+    });
+
+    await sarah
+      .patch(`/issues/${issue.id}`)
+      .send({ status: "in-progress" })
+      .expect(200);
+    const outdated = await mike
+      .post("/issues/batch")
+      .send({ operations: [undo] })
+      .expect(200);
+    expect(outdated.body.results[0]).toMatchObject({
+      success: false,
+      error: "Issue was changed by someone else in the meantime",
+    });
+  });
+
+  it("should reject empty batches", async () => {
+    await sarah.post("/issues/batch").send({ operations: [] }).expect(400);
+  });
+});
+
+describe("POST /issues/import", () => {
+  it("should create valid issues and report invalid ones", async () => {
+    const res = await mike
+      .post("/issues/import")
+      .send({
+        issues: [
+          newIssue({ status: "resolved", resolutionNote: "Replaced toner" }),
+          newIssue({ title: "" }),
+          "not an issue",
+        ],
+      })
+      .expect(200);
+
+    expect(res.body.results).toMatchObject([
+      {
+        index: 0,
+        success: true,
+        issue: { status: "resolved", resolutionNote: "Replaced toner" },
+      },
+      { index: 1, success: false, error: "Title is required" },
+      { index: 2, success: false, error: "Issue must be an object" },
+    ]);
+  });
+
+  it("should not let users import issues with a status", async () => {
+    const res = await alex
+      .post("/issues/import")
+      .send({ issues: [newIssue({ status: "closed" })] })
+      .expect(200);
+
+    expect(res.body.results[0]).toMatchObject({ success: false });
+  });
+});
+
+describe("GET /issues", () => {
+  it("should page through issues with cursors", async () => {
+    const first = await alex.get("/issues?limit=2").expect(200);
+    const second = await alex
+      .get(`/issues?limit=2&cursor=${first.body.nextCursor}`)
+      .expect(200);
+
+    expect(first.body.issues).toHaveLength(2);
+    expect(second.body.issues[0].id).not.toBe(first.body.issues[1].id);
+    expect(second.body.total).toBe(first.body.total);
+  });
+
+  it("should pick up changes made between pages", async () => {
+    const first = await alex.get("/issues?limit=3").expect(200);
+    const created = await createIssue();
+    const second = await alex
+      .get(`/issues?limit=3&cursor=${first.body.nextCursor}`)
+      .expect(200);
+    const fresh = await alex.get("/issues?limit=3").expect(200);
+
+    const ids = [...first.body.issues, ...second.body.issues].map(
+      ({ id }) => id,
+    );
+    expect(new Set(ids).size).toBe(6);
+    expect(second.body.total).toBe(first.body.total + 1);
+    expect(fresh.body.issues[0].id).toBe(created.id);
+  });
+
+  it("should combine the SLA filter with other filters", async () => {
+    const urgent = await createIssue(alex, {
+      priority: "urgent",
+      title: "Payments are down",
+    });
+
+    const res = await alex
+      .get("/issues?limit=50&q=payments&sla=at-risk")
+      .expect(200);
+    const all = await alex.get("/issues?q=payments").expect(200);
+
+    expect(res.body.issues).toEqual([]);
+    expect(all.body.issues.map(({ id }) => id)).toEqual([urgent.id]);
+  });
+
+  it("should reject invalid cursors and search queries", async () => {
+    const cursors = ["nonsense", Buffer.from('["a"]').toString("base64url")];
+
+    for (const cursor of cursors) {
+      const res = await alex.get(`/issues?limit=2&cursor=${cursor}`);
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe("Invalid cursor");
+    }
+    await alex.get("/issues?q=status:archived").expect(400);
+  });
+});
+
+describe("GET /issues/export", () => {
+  it("should export matching issues with conversations as JSON", async () => {
+    const issue = await createIssue(alex, { title: "Scanner jams on A3" });
+    await alex
+      .post(`/issues/${issue.id}/messages`)
+      .send({ message: "It happens every morning" })
+      .expect(201);
+    await mike
+      .post(`/issues/${issue.id}/messages`)
+      .send({ message: "Staff only", isInternal: true })
+      .expect(201);
+
+    const exportAs = (agent) =>
+      agent
+        .get("/issues/export?format=json&messages=1&q=scanner")
+        .expect(200)
+        .expect("Content-Type", /application\/json/);
+    const [asUser, asStaff] = await Promise.all([
+      exportAs(alex),
+      exportAs(mike),
+    ]);
+    const texts = (res) =>
+      JSON.parse(res.text)[0].messages.map(({ message }) => message);
+
+    expect(JSON.parse(asUser.text)).toHaveLength(1);
+    expect(texts(asUser)).toContain("It happens every morning");
+    expect(texts(asUser)).not.toContain("Staff only");
+    expect(texts(asStaff)).toContain("Staff only");
+  });
+
+  it("should export CSV with a header row", async () => {
+    await createIssue(alex, { title: "Projector, room 4" });
+
+    const res = await alex
+      .get("/issues/export?format=csv&q=projector")
+      .expect(200)
+      .expect("Content-Disposition", /attachment; filename=".*\.csv"/);
+    const lines = res.text.trim().split(/\r?\n/);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('"Projector, room 4"');
+  });
+
+  it("should reject unknown formats", async () => {
+    await alex.get("/issues/export?format=xml").expect(400);
+  });
+});
@@ -0,0 +1,116 @@
+import express from "express";
+import { issues } from "../db.js";
+import {
+  compareMessages,
+  getIssueMessages,
+  appendMessage,
+} from "../threads.js";
+import { publishIssueEvent } from "../events.js";
+import { runAutomations, toPublicIssue } from "../automation.js";
+import { notifyIssueEvent } from "../notifications.js";
+import { hasPermission } from "../../src/lib/permissions.ts";
+import { isFirstResponse } from "../../src/lib/sla.ts";
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// Cursors are opaque to clients: base64url-encoded position of the oldest
+// message in the page they already have
+const encodeCursor = (message) =>
+  Buffer.from(
+    JSON.stringify({ timestamp: message.timestamp, id: message.id }),
+  ).toString("base64url");
+
+const decodeCursor = (cursor) => {
+  try {
+    const { timestamp, id } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    return typeof timestamp === "string" && typeof id === "string"
+      ? { timestamp, id }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const router = express.Router({ mergeParams: true });
+
+router.use((req, res, next) => {
+  if (!issues.has(req.params.id)) {
+    return res.status(404).json({ success: false, error: "Issue not found" });
+  }
+  next();
+});
+
+// Newest page of a thread; pass `before` to page backwards through history
+router.get("/", (req, res) => {
+  const limit = Math.min(
+    Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE,
+  );
+
+  let thread = getIssueMessages(req.params.id);
+
+  if (!hasPermission(req.user, "issue.view-internal-notes")) {
+    thread = thread.filter((message) => !message.isInternal);
+  }
+
+  if (req.query.before) {
+    const cursor = decodeCursor(req.query.before);
+    if (!cursor) {
+      return res.status(400).json({ success: false, error: "Invalid cursor" });
+    }
+    thread = thread.filter((message) => compareMessages(message, cursor) < 0);
+  }
+
+  const page = thread.slice(-limit);
+  const hasOlder = thread.length > page.length;
+
+  res.json({
+    success: true,
+    messages: page,
+    nextCursor: hasOlder ? encodeCursor(page[0]) : null,
+  });
+});
+
+router.post("/", (req, res) => {
+  const { message, isInternal } = req.body || {};
+
+  if (typeof message !== "string" || !message.trim()) {
+    return res
+      .status(400)
+      .json({ success: false, error: "Message text is required" });
+  }
+  if (isInternal && !hasPermission(req.user, "issue.view-internal-notes")) {
+    return res.status(403).json({
+      success: false,
+      error: "You do not have permission to post internal notes",
+    });
+  }
+
+  const created = appendMessage(req.params.id, {
+    sender: req.user.name,
+    senderId: req.user.id,
+    message: message.trim(),
+    isInternal: isInternal === true,
+  });
+
+  // Stops the SLA response clock
+  let issue = issues.get(req.params.id);
+  if (isFirstResponse(issue, created)) {
+    issue = issues.update(issue.id, { firstResponseAt: created.timestamp });
+    publishIssueEvent(issue.id, "issue", toPublicIssue(issue));
+  }
+
+  runAutomations({ type: "message.created", issue, message: created });
+  notifyIssueEvent("message.created", {
+    issue,
+    actor: req.user,
+    message: created,
+  });
+
+  res.status(201).json({ success: true, message: created });
+});
+
+export default router;
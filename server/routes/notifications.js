@@ -0,0 +1,124 @@
+import express from "express";
+import { toRecord } from "../store.js";
+import { inboxNotifications, issues } from "../db.js";
+import { isMailEnabled } from "../mailer.js";
+import {
+  getEmailPreferences,
+  getInbox,
+  isFollowing,
+  saveEmailPreferences,
+  setFollowing,
+} from "../notifications.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Entries about deleted issues stay hidden, and come back if the issue is
+// restored
+const getVisibleInbox = (userId) =>
+  getInbox(userId).filter((notification) => issues.has(notification.issueId));
+
+const router = express.Router();
+
+// The signed-in user's newest notifications and how many are unread
+router.get("/", (req, res) => {
+  const limit = Math.min(
+    Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE,
+  );
+  const inbox = getVisibleInbox(req.user.id);
+
+  res.json({
+    success: true,
+    notifications: inbox.slice(0, limit),
+    unreadCount: inbox.filter((notification) => !notification.readAt).length,
+  });
+});
+
+router.post("/read-all", (req, res) => {
+  const readAt = new Date();
+  getInbox(req.user.id)
+    .filter((notification) => !notification.readAt)
+    .forEach((notification) =>
+      inboxNotifications.update(notification.id, toRecord({ readAt })),
+    );
+
+  res.json({ success: true });
+});
+
+// The signed-in user's email preferences, and whether the server sends
+// email at all
+router.get("/preferences", (req, res) => {
+  res.json({
+    success: true,
+    preferences: { email: getEmailPreferences(req.user.id) },
+    emailEnabled: isMailEnabled(),
+  });
+});
+
+router.put("/preferences", (req, res) => {
+  const email = req.body?.email;
+  if (
+    !email ||
+    typeof email !== "object" ||
+    Object.values(email).some((enabled) => typeof enabled !== "boolean")
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: "Email preferences must map events to true or false",
+    });
+  }
+
+  res.json({
+    success: true,
+    preferences: { email: saveEmailPreferences(req.user.id, email) },
+    emailEnabled: isMailEnabled(),
+  });
+});
+
+// Ids of the issues the signed-in user follows
+router.get("/following", (req, res) => {
+  const issueIds = issues
+    .all()
+    .filter((issue) => isFollowing(issue.id, req.user.id))
+    .map((issue) => issue.id);
+
+  res.json({ success: true, issueIds });
+});
+
+router.put("/following/:issueId", (req, res) => {
+  if (!issues.has(req.params.issueId)) {
+    return res.status(404).json({ success: false, error: "Issue not found" });
+  }
+
+  setFollowing(req.params.issueId, req.user.id, true);
+  res.json({ success: true, following: true });
+});
+
+router.delete("/following/:issueId", (req, res) => {
+  setFollowing(req.params.issueId, req.user.id, false);
+  res.json({ success: true, following: false });
+});
+
+// Mark one of the signed-in user's notifications read or unread
+router.patch("/:id", (req, res) => {
+  const notification = inboxNotifications.get(req.params.id);
+  if (!notification || notification.userId !== req.user.id) {
+    return res
+      .status(404)
+      .json({ success: false, error: "Notification not found" });
+  }
+  if (typeof req.body?.read !== "boolean") {
+    return res
+      .status(400)
+      .json({ success: false, error: "read must be true or false" });
+  }
+
+  const updated = inboxNotifications.update(
+    notification.id,
+    toRecord({ readAt: req.body.read ? new Date() : null }),
+  );
+  res.json({ success: true, notification: updated });
+});
+
+export default router;
@@ -0,0 +1,11 @@
+import express from "express";
+import { users } from "../db.js";
+import { toPublicUser } from "../auth.js";
+
+const router = express.Router();
+
+router.get("/", (req, res) => {
+  res.json({ success: true, users: users.all().map(toPublicUser) });
+});
+
+export default router;
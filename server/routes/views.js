@@ -0,0 +1,187 @@
+import express from "express";
+import { toRecord } from "../store.js";
+import { savedViews, viewPreferences } from "../db.js";
+import { generateId } from "../../src/lib/mockData.ts";
+import { normalizeTableColumns } from "../../src/lib/issueColumns.ts";
+
+const MAX_NAME_LENGTH = 80;
+
+const isVisibleTo = (view, user) => view.shared || view.ownerId === user.id;
+
+// Returns an error message for the first invalid field, if any
+const validateViewFields = (fields, { partial }) => {
+  if (!partial || fields.name !== undefined) {
+    if (typeof fields.name !== "string" || !fields.name.trim()) {
+      return "View name is required";
+    }
+    if (fields.name.trim().length > MAX_NAME_LENGTH) {
+      return `View names can be at most ${MAX_NAME_LENGTH} characters`;
+    }
+  }
+  if (fields.query !== undefined && typeof fields.query !== "string") {
+    return "View query must be a string";
+  }
+  if (fields.shared !== undefined && typeof fields.shared !== "boolean") {
+    return "Shared must be true or false";
+  }
+  return null;
+};
+
+const pickViewFields = ({ name, query, shared }) => ({
+  ...(name !== undefined && {
+    name: typeof name === "string" ? name.trim() : name,
+  }),
+  ...(query !== undefined && {
+    // Stored without the leading "?" so it can be appended to any path
+    query: typeof query === "string" ? query.replace(/^\?/, "") : query,
+  }),
+  ...(shared !== undefined && { shared }),
+});
+
+// Preferences only point at views the user can still see
+const getPreferences = (user) => {
+  const stored = viewPreferences.get(user.id);
+  const isUsable = (viewId) => {
+    const view = savedViews.get(viewId);
+    return Boolean(view) && isVisibleTo(view, user);
+  };
+
+  return {
+    pinnedViewIds: (stored?.pinnedViewIds ?? []).filter(isUsable),
+    defaultViewId:
+      stored?.defaultViewId && isUsable(stored.defaultViewId)
+        ? stored.defaultViewId
+        : null,
+    tableColumns: stored?.tableColumns ?? null,
+  };
+};
+
+const router = express.Router();
+
+// The user's own views and views shared by others, alphabetically
+router.get("/", (req, res) => {
+  const views = savedViews
+    .filter((view) => isVisibleTo(view, req.user))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  res.json({ success: true, views });
+});
+
+router.get("/preferences", (req, res) => {
+  res.json({ success: true, preferences: getPreferences(req.user) });
+});
+
+router.put("/preferences", (req, res) => {
+  const {
+    pinnedViewIds = [],
+    defaultViewId = null,
+    tableColumns = null,
+  } = req.body || {};
+
+  if (
+    !Array.isArray(pinnedViewIds) ||
+    pinnedViewIds.some((id) => typeof id !== "string")
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: "Pinned views must be a list of view ids",
+    });
+  }
+  const unknownId = [...pinnedViewIds, defaultViewId]
+    .filter(Boolean)
+    .find((id) => {
+      const view = savedViews.get(id);
+      return !view || !isVisibleTo(view, req.user);
+    });
+  if (unknownId) {
+    return res
+      .status(400)
+      .json({ success: false, error: `Unknown view "${unknownId}"` });
+  }
+
+  if (tableColumns !== null && !Array.isArray(tableColumns)) {
+    return res.status(400).json({
+      success: false,
+      error: "Table columns must be a list of columns",
+    });
+  }
+
+  const preferences = {
+    pinnedViewIds: [...new Set(pinnedViewIds)],
+    defaultViewId,
+    // Unknown columns are dropped rather than refused
+    tableColumns: tableColumns && normalizeTableColumns(tableColumns),
+  };
+  if (viewPreferences.has(req.user.id)) {
+    viewPreferences.update(req.user.id, preferences);
+  } else {
+    viewPreferences.insert({ id: req.user.id, ...preferences });
+  }
+
+  res.json({ success: true, preferences: getPreferences(req.user) });
+});
+
+router.post("/", (req, res) => {
+  const fields = pickViewFields(req.body || {});
+  const error = validateViewFields(fields, { partial: false });
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const now = new Date();
+  const view = savedViews.insert(
+    toRecord({
+      query: "",
+      shared: false,
+      ...fields,
+      id: generateId(),
+      ownerId: req.user.id,
+      createdAt: now,
+      updatedAt: now,
+    }),
+  );
+
+  res.status(201).json({ success: true, view });
+});
+
+// Only the owner may change or delete a view, even a shared one
+const loadOwnView = (req, res) => {
+  const view = savedViews.get(req.params.id);
+  if (!view || !isVisibleTo(view, req.user)) {
+    res.status(404).json({ success: false, error: "View not found" });
+    return null;
+  }
+  if (view.ownerId !== req.user.id) {
+    res.status(403).json({
+      success: false,
+      error: "Only the owner can change this view",
+    });
+    return null;
+  }
+  return view;
+};
+
+router.patch("/:id", (req, res) => {
+  if (!loadOwnView(req, res)) return;
+
+  const changes = pickViewFields(req.body || {});
+  const error = validateViewFields(changes, { partial: true });
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const view = savedViews.update(
+    req.params.id,
+    toRecord({ ...changes, updatedAt: new Date() }),
+  );
+  res.json({ success: true, view });
+});
+
+router.delete("/:id", (req, res) => {
+  if (!loadOwnView(req, res)) return;
+
+  savedViews.remove(req.params.id);
+  res.json({ success: true });
+});
+
+export default router;
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Fake SMTP server for trying email notifications locally and for the
+ * mailer tests. It accepts every message and saves it as an .eml file
+ * instead of delivering it.
+ *
+ * Usage: npm run mail:sink
+ * Then start the backend with SMTP_HOST=localhost and SMTP_PORT=2525.
+ */
+
+import net from "net";
+import fs from "fs";
+import path from "path";
+
+const PORT = Number(process.env.MAIL_SINK_PORT) || 2525;
+const MAIL_DIR = path.resolve(process.env.MAIL_SINK_DIR || "server/data/mail");
+
+fs.mkdirSync(MAIL_DIR, { recursive: true });
+
+let saved = 0;
+
+// Envelope recipients are recorded as a header so a test can find the
+// messages sent to one address
+const saveMessage = ({ from, recipients, data }) => {
+  saved++;
+  const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${saved}.eml`;
+  const file = path.join(MAIL_DIR, name);
+  const envelope = [
+    `X-Envelope-From: <${from}>`,
+    ...recipients.map((recipient) => `X-Envelope-To: <${recipient}>`),
+  ].join("\r\n");
+
+  fs.writeFileSync(file, `${envelope}\r\n${data}\r\n`);
+  console.log(`📨 ${recipients.join(", ")} -> ${file}`);
+};
+
+const handleConnection = (socket) => {
+  let buffer = "";
+  let from = null;
+  let recipients = [];
+  let data = null;
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+  const reset = () => {
+    from = null;
+    recipients = [];
+    data = null;
+  };
+
+  const handleLine = (line) => {
+    // Inside DATA, collect lines until the lone dot and undo dot-stuffing
+    if (data !== null) {
+      if (line === ".") {
+        saveMessage({ from, recipients, data: data.join("\r\n") });
+        reset();
+        return reply("250 OK: message saved");
+      }
+      data.push(line.startsWith("..") ? line.slice(1) : line);
+      return;
+    }
+
+    const [verb] = line.split(" ", 1);
+    switch (verb.toUpperCase()) {
+      case "EHLO":
+        return reply("250-localhost\r\n250-8BITMIME\r\n250 AUTH PLAIN LOGIN");
+      case "HELO":
+        return reply("250 localhost");
+      case "AUTH":
+        return reply("235 Accepted");
+      case "MAIL":
+        from = line.match(/<([^>]*)>/)?.[1] ?? "";
+        recipients = [];
+        return reply("250 OK");
+      case "RCPT":
+        if (from === null) return reply("503 MAIL first");
+        recipients.push(line.match(/<([^>]*)>/)?.[1] ?? "");
+        return reply("250 OK");
+      case "DATA":
+        if (recipients.length === 0) return reply("503 RCPT first");
+        data = [];
+        return reply("354 End data with <CR><LF>.<CR><LF>");
+      case "RSET":
+        reset();
+        return reply("250 OK");
+      case "NOOP":
+        return reply("250 OK");
+      case "QUIT":
+        reply("221 Bye");
+        return socket.end();
+      default:
+        return reply("502 Command not implemented");
+    }
+  };
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    let end;
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      handleLine(line);
+    }
+  });
+  socket.on("error", (error) => console.error("Connection error:", error));
+
+  reply("220 localhost fake SMTP sink");
+};
+
+net.createServer(handleConnection).listen(PORT, () => {
+  console.log(`📬 Fake SMTP sink listening on port ${PORT}`);
+  console.log(`📁 Saving messages to ${MAIL_DIR}`);
+});
@@ -0,0 +1,104 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// JSON files live next to the server unless DATA_DIR points elsewhere
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, "data");
+
+const FLUSH_DELAY_MS = 100;
+
+const pendingFlushes = new Set();
+
+// Round-trip through JSON so stored records hold ISO date strings
+export const toRecord = (value) => JSON.parse(JSON.stringify(value));
+
+// Create a file-backed collection of records keyed by `id`.
+// Records are kept in memory and written back to `<DATA_DIR>/<name>.json`
+// shortly after each change.
+export const createCollection = (name, { seed } = {}) => {
+  const filePath = path.join(DATA_DIR, `${name}.json`);
+  const records = new Map();
+  let flushTimer = null;
+  // Bumped on every change, so data derived from the records can tell
+  // when it is out of date
+  let version = 0;
+
+  const flush = () => {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+    pendingFlushes.delete(flush);
+
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify([...records.values()]));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer) return;
+    pendingFlushes.add(flush);
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  };
+
+  const load = () => {
+    if (!fs.existsSync(DATA_DIR)) {
+      fs.mkdirSync(DATA_DIR, { recursive: true });
+    }
+
+    if (fs.existsSync(filePath)) {
+      try {
+        const stored = JSON.parse(fs.readFileSync(filePath, "utf8"));
+        stored.forEach((record) => records.set(record.id, record));
+        return;
+      } catch (error) {
+        console.error(`Failed to load ${name} collection:`, error.message);
+      }
+    }
+
+    if (seed) {
+      seed().forEach((record) => records.set(record.id, record));
+      flush();
+    }
+  };
+
+  load();
+
+  return {
+    all: () => [...records.values()],
+    get: (id) => records.get(id),
+    has: (id) => records.has(id),
+    filter: (predicate) => [...records.values()].filter(predicate),
+    version: () => version,
+    insert: (record) => {
+      records.set(record.id, record);
+      version++;
+      scheduleFlush();
+      return record;
+    },
+    update: (id, changes) => {
+      const existing = records.get(id);
+      if (!existing) return undefined;
+
+      const updated = { ...existing, ...changes, id };
+      records.set(id, updated);
+      version++;
+      scheduleFlush();
+      return updated;
+    },
+    remove: (id) => {
+      const removed = records.delete(id);
+      if (removed) {
+        version++;
+        scheduleFlush();
+      }
+      return removed;
+    },
+  };
+};
+
+// Write any collections with unsaved changes to disk
+export const flushAll = () => {
+  [...pendingFlushes].forEach((flush) => flush());
+};
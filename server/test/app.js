@@ -0,0 +1,33 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+
+// The app on a fresh data directory seeded with the demo accounts. The
+// store reads DATA_DIR when it is first imported, so the app is imported
+// here instead of at the top of a spec; each spec file gets its own.
+export const createTestApp = async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "issues-api-"));
+  process.env.DATA_DIR = dataDir;
+
+  const { createApp } = await import("../app.js");
+  const { flushAll } = await import("../store.js");
+  const app = createApp();
+
+  // An agent that keeps the session cookie of one of the demo users
+  const login = async (name) => {
+    const agent = request.agent(app);
+    await agent
+      .post("/auth/login")
+      .send({ email: `${name}@company.com`, password: "password" })
+      .expect(200);
+    return agent;
+  };
+
+  const cleanup = () => {
+    flushAll();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  return { app, login, cleanup };
+};
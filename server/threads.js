@@ -0,0 +1,61 @@
+import { toRecord } from "./store.js";
+import { messages } from "./db.js";
+import { publishIssueEvent } from "./events.js";
+import { generateId } from "../src/lib/mockData.ts";
+
+// Chat thread helpers shared by the routes and the automation engine
+
+export const compareMessages = (a, b) =>
+  a.timestamp === b.timestamp
+    ? a.id.localeCompare(b.id)
+    : new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+// Messages of one issue in chronological order
+export const getIssueMessages = (issueId) =>
+  messages
+    .filter((message) => message.issueId === issueId)
+    .sort(compareMessages);
+
+// Store a new message in an issue thread
+export const appendMessage = (
+  issueId,
+  {
+    sender,
+    senderId,
+    message,
+    isSystem = false,
+    isBot = false,
+    isInternal = false,
+  },
+) => {
+  const created = messages.insert(
+    toRecord({
+      id: generateId(),
+      issueId,
+      sender,
+      senderId,
+      message,
+      timestamp: new Date(),
+      isSystem,
+      ...(isBot && { isBot }),
+      ...(isInternal && { isInternal }),
+    }),
+  );
+
+  publishIssueEvent(issueId, "message", created);
+  return created;
+};
+
+export const appendSystemMessage = (issueId, message) =>
+  appendMessage(issueId, { sender: "System", message, isSystem: true });
+
+// Returns the removed messages so a restored issue can get them back
+export const removeIssueMessages = (issueId) => {
+  const removed = getIssueMessages(issueId);
+  removed.forEach((message) => messages.remove(message.id));
+  return removed;
+};
+
+export const restoreMessages = (removed) => {
+  removed.forEach((message) => messages.insert(message));
+};
@@ -2,9 +2,20 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import {
+  BrowserRouter,
+  Navigate,
+  Outlet,
+  Routes,
+  Route,
+} from "react-router-dom";
+import RequireAuth from "./components/RequireAuth";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
+import Workload from "./pages/Workload";
+import ImportIssues from "./pages/ImportIssues";
+import Analytics from "./pages/Analytics";
 
 const queryClient = new QueryClient();
 
@@ -15,7 +26,24 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/login" element={<Login />} />
+          <Route
+            element={
+              <RequireAuth>
+                <Outlet />
+              </RequireAuth>
+            }
+          >
+            <Route path="/" element={<Navigate to="/issues" replace />} />
+            <Route path="/issues" element={<Index view="issues" />} />
+            <Route path="/issues/new" element={<Index view="submit" />} />
+            <Route path="/issues/import" element={<ImportIssues />} />
+            <Route path="/issues/:id" element={<Index view="issue" />} />
+            <Route path="/issues/:id/chat" element={<Index view="chat" />} />
+            <Route path="/issues/:id/edit" element={<Index view="edit" />} />
+            <Route path="/workload" element={<Workload />} />
+            <Route path="/analytics" element={<Analytics />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,93 @@
+import React from "react";
+import { format } from "date-fns";
+import { History, Plus } from "lucide-react";
+import { ActivityEntry, Issue, ResolutionStatus } from "@/lib/types";
+import { getFieldLabel } from "@/lib/activity";
+import { getTeamName } from "@/lib/assignment";
+import { getStatusLabel } from "@/lib/workflow";
+import { useUserLookup } from "@/hooks/use-users";
+
+interface ActivityTimelineProps {
+  issue: Issue;
+  entries: ActivityEntry[];
+  isLoading?: boolean;
+}
+
+const MAX_VALUE_LENGTH = 80;
+
+export default function ActivityTimeline({
+  issue,
+  entries,
+  isLoading,
+}: ActivityTimelineProps) {
+  const getUser = useUserLookup();
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined) return "none";
+    if (Array.isArray(value)) return value.length ? value.join(", ") : "none";
+
+    switch (field) {
+      case "status":
+        return getStatusLabel(value as ResolutionStatus);
+      case "assigneeId":
+        return getUser(value as string)?.name ?? "Unknown user";
+      case "team":
+        return getTeamName(value as string) ?? String(value);
+      case "contentDetails.deadline":
+        return format(new Date(value as string), "MMM d, yyyy");
+    }
+
+    const text = String(value);
+    return text.length > MAX_VALUE_LENGTH
+      ? `${text.slice(0, MAX_VALUE_LENGTH)}…`
+      : text;
+  };
+
+  return (
+    <ol className="relative border-l ml-3 space-y-6 py-2">
+      <li className="ml-6">
+        <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary text-primary-foreground">
+          <Plus className="h-3 w-3" />
+        </span>
+        <p className="text-sm">
+          <span className="font-medium">
+            {getUser(issue.submittedBy)?.name ?? "Unknown user"}
+          </span>{" "}
+          submitted the issue
+        </p>
+        <time className="text-xs text-muted-foreground">
+          {format(issue.submittedAt, "MMM d, yyyy HH:mm")}
+        </time>
+      </li>
+
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-6">
+          <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted">
+            <History className="h-3 w-3" />
+          </span>
+          <p className="text-sm">
+            <span className="font-medium">
+              {getUser(entry.actorId)?.name ?? "Unknown user"}
+            </span>{" "}
+            changed{" "}
+            <span className="font-medium">{getFieldLabel(entry.field)}</span>{" "}
+            from{" "}
+            <span className="text-muted-foreground line-through">
+              {formatValue(entry.field, entry.oldValue)}
+            </span>{" "}
+            to <span>{formatValue(entry.field, entry.newValue)}</span>
+          </p>
+          <time className="text-xs text-muted-foreground">
+            {format(entry.timestamp, "MMM d, yyyy HH:mm")}
+          </time>
+        </li>
+      ))}
+
+      {!isLoading && entries.length === 0 && (
+        <li className="ml-6 text-sm text-muted-foreground">
+          No changes since the issue was submitted.
+        </li>
+      )}
+    </ol>
+  );
+}
@@ -0,0 +1,52 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUsers } from "@/hooks/use-users";
+import { isAssignable } from "@/lib/assignment";
+
+// Radix Select items cannot have an empty value
+const UNASSIGNED = "unassigned";
+
+interface AssigneeSelectProps {
+  value: string | null | undefined;
+  onChange: (assigneeId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function AssigneeSelect({
+  value,
+  onChange,
+  disabled,
+  className,
+}: AssigneeSelectProps) {
+  const { data: users = [] } = useUsers();
+  const assignableUsers = users.filter(isAssignable);
+
+  return (
+    <Select
+      value={value || UNASSIGNED}
+      onValueChange={(selected) =>
+        onChange(selected === UNASSIGNED ? null : selected)
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Assignee" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {assignableUsers.map((user) => (
+          <SelectItem key={user.id} value={user.id}>
+            {user.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,404 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { CheckCircle, Tag, Trash2, X, XCircle } from "lucide-react";
+import { Issue, Priority, ResolutionStatus } from "@/lib/types";
+import { BatchOperation, BatchResult, BulkChanges } from "@/lib/bulkActions";
+import { STATUS_LABELS, findTransition } from "@/lib/workflow";
+import { isAssignable } from "@/lib/assignment";
+import { useIssueBatch } from "@/hooks/use-issues";
+import { useUsers } from "@/hooks/use-users";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import TransitionDialog from "./TransitionDialog";
+
+// Radix Select items cannot have an empty value
+const UNASSIGNED = "unassigned";
+
+const PRIORITY_LABELS: Record<Priority, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+interface BulkActionBarProps {
+  // The selected issues as they were when selected
+  issues: Issue[];
+  onClear: () => void;
+  // Called after a batch with the ids that failed, which stay selected
+  onComplete: (failedIds: string[]) => void;
+}
+
+const countIssues = (count: number) =>
+  `${count} ${count === 1 ? "issue" : "issues"}`;
+
+// Applies one change to every selected issue in a single batch request,
+// reports the issues it could not change and offers to undo the rest
+export default function BulkActionBar({
+  issues,
+  onClear,
+  onComplete,
+}: BulkActionBarProps) {
+  const batch = useIssueBatch();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { data: users = [] } = useUsers();
+
+  const [tagInput, setTagInput] = useState("");
+  const [pendingStatus, setPendingStatus] = useState<ResolutionStatus | null>(
+    null,
+  );
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [report, setReport] = useState<{
+    results: BatchResult[];
+    titles: Map<string, string>;
+  } | null>(null);
+
+  // Issue titles for the report, kept for undoing after the selection
+  // has changed
+  const runBatch = async (
+    operations: BatchOperation[],
+    titles: Map<string, string>,
+  ) => {
+    let results: BatchResult[];
+    try {
+      results = await batch.mutateAsync(operations);
+    } catch (error) {
+      toast({
+        title: "Bulk action failed",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const failed = results.filter((result) => !result.success);
+    const succeeded = results.filter((result) => result.success);
+    if (failed.length > 0) setReport({ results, titles });
+    return { succeeded, failed };
+  };
+
+  const undo = async (
+    operations: BatchOperation[],
+    titles: Map<string, string>,
+  ) => {
+    const outcome = await runBatch(operations, titles);
+    if (!outcome) return;
+    toast({
+      title: `Undid changes to ${countIssues(outcome.succeeded.length)}`,
+      description:
+        outcome.failed.length > 0
+          ? `${countIssues(outcome.failed.length)} could not be changed back`
+          : undefined,
+      variant: outcome.failed.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  const apply = async (operations: BatchOperation[], verb: string) => {
+    const titles = new Map(issues.map((issue) => [issue.id, issue.title]));
+    const outcome = await runBatch(operations, titles);
+    if (!outcome) return;
+    onComplete(outcome.failed.map((result) => result.id));
+
+    const undoOperations = outcome.succeeded.flatMap(
+      ({ id, issue, undoToken }): BatchOperation[] => {
+        if (!issue) return [{ id, restore: true }];
+        return undoToken ? [{ id, undoToken }] : [];
+      },
+    );
+
+    toast({
+      title: `${verb} ${countIssues(outcome.succeeded.length)}`,
+      description:
+        outcome.failed.length > 0
+          ? `${countIssues(outcome.failed.length)} could not be changed`
+          : undefined,
+      variant:
+        outcome.succeeded.length === 0 && outcome.failed.length > 0
+          ? "destructive"
+          : "default",
+      action:
+        undoOperations.length > 0 ? (
+          <ToastAction
+            altText="Undo"
+            onClick={() => undo(undoOperations, titles)}
+          >
+            Undo
+          </ToastAction>
+        ) : undefined,
+    });
+  };
+
+  const applyChanges = (changes: BulkChanges) =>
+    apply(
+      issues.map((issue) => ({ id: issue.id, changes })),
+      "Updated",
+    );
+
+  // One resolution note is asked for when any selected issue needs it
+  const changeStatus = (status: ResolutionStatus) => {
+    const needsNote = issues.some(
+      (issue) =>
+        findTransition(issue.type, issue.status, status)?.requires?.length,
+    );
+    if (needsNote) {
+      setPendingStatus(status);
+    } else {
+      applyChanges({ status });
+    }
+  };
+
+  const changeTags = (mode: "add" | "remove") => {
+    const tags = tagInput
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    if (tags.length === 0) return;
+    applyChanges(mode === "add" ? { addTags: tags } : { removeTags: tags });
+    setTagInput("");
+  };
+
+  return (
+    <Card className="sticky top-2 z-10 border-primary/40">
+      <CardContent className="flex flex-wrap items-center gap-2 p-3">
+        <span className="text-sm font-medium" aria-live="polite">
+          {issues.length} selected
+        </span>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          {can("issue.change-status") && (
+            <Select
+              value=""
+              onValueChange={(value) => changeStatus(value as ResolutionStatus)}
+              disabled={batch.isPending}
+            >
+              <SelectTrigger className="w-36" aria-label="Set status">
+                <SelectValue placeholder="Set status" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                  <SelectItem key={status} value={status}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Select
+            value=""
+            onValueChange={(value) =>
+              applyChanges({ priority: value as Priority })
+            }
+            disabled={batch.isPending}
+          >
+            <SelectTrigger className="w-36" aria-label="Set priority">
+              <SelectValue placeholder="Set priority" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PRIORITY_LABELS).map(([priority, label]) => (
+                <SelectItem key={priority} value={priority}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {can("issue.reassign") && (
+            <Select
+              value=""
+              onValueChange={(value) =>
+                applyChanges({
+                  assigneeId: value === UNASSIGNED ? null : value,
+                })
+              }
+              disabled={batch.isPending}
+            >
+              <SelectTrigger className="w-36" aria-label="Assign to">
+                <SelectValue placeholder="Assign to" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {users.filter(isAssignable).map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" disabled={batch.isPending}>
+                <Tag className="h-4 w-4 mr-1" />
+                Tags
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-2">
+              <Input
+                value={tagInput}
+                onChange={(event) => setTagInput(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") {
+                    event.preventDefault();
+                    changeTags("add");
+                  }
+                }}
+                placeholder="Tags, separated by commas"
+                aria-label="Tags"
+              />
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => changeTags("remove")}
+                  disabled={!tagInput.trim()}
+                >
+                  Remove
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => changeTags("add")}
+                  disabled={!tagInput.trim()}
+                >
+                  Add
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          {can("issue.delete") && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setConfirmDelete(true)}
+              disabled={batch.isPending}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Only the target status matters to the dialog */}
+      <TransitionDialog
+        transition={
+          pendingStatus && {
+            from: pendingStatus,
+            to: pendingStatus,
+            requires: ["resolutionNote"],
+          }
+        }
+        onConfirm={({ resolutionNote }) => {
+          applyChanges({ status: pendingStatus, resolutionNote });
+          setPendingStatus(null);
+        }}
+        onCancel={() => setPendingStatus(null)}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {countIssues(issues.length)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The issues and their conversations will be removed for everyone.
+              You can undo this for a few minutes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                apply(
+                  issues.map((issue) => ({ id: issue.id, delete: true })),
+                  "Deleted",
+                )
+              }
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={report !== null} onOpenChange={() => setReport(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Some issues were not changed</DialogTitle>
+            <DialogDescription>
+              {report &&
+                `${countIssues(
+                  report.results.filter((result) => !result.success).length,
+                )} of ${report.results.length} could not be changed.`}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-80 space-y-2 overflow-y-auto text-sm">
+            {report?.results.map((result) => (
+              <li key={result.id} className="flex items-start space-x-2">
+                {result.success ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+                )}
+                <div className="min-w-0">
+                  <p className="truncate font-medium">
+                    {result.issue?.title ??
+                      report.titles.get(result.id) ??
+                      result.id}
+                  </p>
+                  {result.error && (
+                    <p className="text-muted-foreground">{result.error}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setReport(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
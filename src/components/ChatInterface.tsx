@@ -6,6 +6,20 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import {
   ArrowLeft,
   Send,
@@ -15,17 +29,51 @@ import {
   Bot,
   Paperclip,
   ExternalLink,
+  Lock,
+  Trash2,
+  UserCheck,
+  CheckCircle,
+  Pencil,
+  Bell,
+  BellOff,
 } from "lucide-react";
-import { Issue, ChatMessage } from "@/lib/types";
-import { generateId, currentUser } from "@/lib/mockData";
+import { Issue, ChatMessage, ActivityEntry } from "@/lib/types";
+import { LiveConnectionState } from "@/hooks/use-issue-events";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useUserLookup } from "@/hooks/use-users";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useFollowIssue, useFollowedIssues } from "@/hooks/use-notifications";
+import { getTeamName } from "@/lib/assignment";
+import { getStatusLabel } from "@/lib/workflow";
+import ActivityTimeline from "./ActivityTimeline";
+import AssigneeSelect from "./AssigneeSelect";
+import TeamSelect from "./TeamSelect";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 
+export type IssueTab = "conversation" | "activity";
+
 interface ChatInterfaceProps {
   issue: Issue;
   messages: ChatMessage[];
   onBack: () => void;
-  onSendMessage: (issueId: string, message: string) => void;
+  onSendMessage: (
+    issueId: string,
+    message: string,
+    options?: { isInternal?: boolean },
+  ) => void;
+  onEdit?: (issueId: string) => void;
+  onDelete?: (issueId: string) => void;
+  activeTab: IssueTab;
+  onTabChange: (tab: IssueTab) => void;
+  activity: ActivityEntry[];
+  isLoadingActivity?: boolean;
+  onAssign?: (issueId: string, assigneeId: string | null) => void;
+  onTeamChange?: (issueId: string, team: string | null) => void;
+  hasOlderMessages?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  connectionState?: LiveConnectionState;
 }
 
 export default function ChatInterface({
@@ -33,18 +81,43 @@ export default function ChatInterface({
   messages,
   onBack,
   onSendMessage,
+  onEdit,
+  onDelete,
+  activeTab,
+  onTabChange,
+  activity,
+  isLoadingActivity,
+  onAssign,
+  onTeamChange,
+  hasOlderMessages,
+  isLoadingOlder,
+  onLoadOlder,
+  connectionState,
 }: ChatInterfaceProps) {
   const [newMessage, setNewMessage] = useState("");
+  const [isInternalNote, setIsInternalNote] = useState(false);
+  const getUser = useUserLookup();
+  const { can, canEdit } = usePermissions();
+  const canWriteInternalNotes = can("issue.view-internal-notes");
+  const canReassign = can("issue.reassign");
+  const { user: currentUser } = useCurrentUser();
+  const { data: followedIssueIds = [] } = useFollowedIssues();
+  const followIssue = useFollowIssue();
+  const isFollowing = followedIssueIds.includes(issue.id);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const latestMessageId = messages[messages.length - 1]?.id;
 
+  // Only follow new messages; loading older history keeps the position
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [latestMessageId]);
 
   const handleSendMessage = () => {
     if (newMessage.trim()) {
-      onSendMessage(issue.id, newMessage.trim());
+      onSendMessage(issue.id, newMessage.trim(), {
+        isInternal: canWriteInternalNotes && isInternalNote,
+      });
       setNewMessage("");
     }
   };
@@ -115,7 +188,7 @@ export default function ChatInterface({
                   variant="outline"
                   className={cn("status-badge", getStatusColor(issue.status))}
                 >
-                  {issue.status.replace("-", " ")}
+                  {getStatusLabel(issue.status)}
                 </Badge>
                 <Badge
                   variant="outline"
@@ -134,16 +207,91 @@ export default function ChatInterface({
               </div>
               <CardTitle className="text-xl">{issue.title}</CardTitle>
             </div>
+            <div className="flex items-center space-x-2">
+              {/* Submitters hear about their own issues anyway */}
+              {currentUser && currentUser.id !== issue.submittedBy && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={followIssue.isPending}
+                  onClick={() =>
+                    followIssue.mutate({
+                      issueId: issue.id,
+                      following: !isFollowing,
+                    })
+                  }
+                  title={
+                    isFollowing
+                      ? "Stop getting notifications about this issue"
+                      : "Get notified about status changes and replies"
+                  }
+                >
+                  {isFollowing ? (
+                    <BellOff className="h-4 w-4 mr-2" />
+                  ) : (
+                    <Bell className="h-4 w-4 mr-2" />
+                  )}
+                  {isFollowing ? "Unfollow" : "Follow"}
+                </Button>
+              )}
+              {onEdit && canEdit(issue) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onEdit(issue.id)}
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              )}
+              {onDelete && can("issue.delete") && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this issue?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The issue and its conversation will be removed for
+                        everyone. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => onDelete(issue.id)}>
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
             <p className="text-muted-foreground">{issue.description}</p>
+            {issue.resolutionNote && (
+              <div className="flex items-start space-x-2 rounded-md border border-green-200 bg-green-50 p-3 text-sm dark:border-green-900 dark:bg-green-950">
+                <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                <span>
+                  <span className="font-medium">Resolution: </span>
+                  {issue.resolutionNote}
+                </span>
+              </div>
+            )}
 
             <div className="flex items-center space-x-6 text-sm text-muted-foreground">
               <div className="flex items-center space-x-1">
                 <User className="h-4 w-4" />
-                <span>Submitted by {issue.submittedBy}</span>
+                <span>
+                  Submitted by{" "}
+                  {getUser(issue.submittedBy)?.name ?? "Unknown user"}
+                </span>
               </div>
               <div className="flex items-center space-x-1">
                 <Calendar className="h-4 w-4" />
@@ -155,6 +303,40 @@ export default function ChatInterface({
               </div>
             </div>
 
+            {canReassign && onAssign && onTeamChange ? (
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center space-x-2">
+                  <Label className="text-sm text-muted-foreground">
+                    Assignee
+                  </Label>
+                  <AssigneeSelect
+                    value={issue.assigneeId}
+                    onChange={(assigneeId) => onAssign(issue.id, assigneeId)}
+                    className="w-44"
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label className="text-sm text-muted-foreground">Team</Label>
+                  <TeamSelect
+                    value={issue.team}
+                    onChange={(team) => onTeamChange(issue.id, team)}
+                    className="w-40"
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+                <UserCheck className="h-4 w-4" />
+                <span>
+                  {issue.assigneeId
+                    ? `Assigned to ${getUser(issue.assigneeId)?.name ?? "Unknown user"}`
+                    : "Not assigned yet"}
+                  {getTeamName(issue.team) &&
+                    ` · ${getTeamName(issue.team)} team`}
+                </span>
+              </div>
+            )}
+
             {issue.tags.length > 0 && (
               <div className="flex flex-wrap gap-1">
                 {issue.tags.map((tag, index) => (
@@ -194,48 +376,129 @@ export default function ChatInterface({
 
       {/* Chat Messages */}
       <Card className="flex-1 flex flex-col">
-        <CardHeader>
-          <CardTitle className="text-lg">Conversation</CardTitle>
-        </CardHeader>
-        <CardContent className="flex-1 flex flex-col p-0">
-          <ScrollArea className="flex-1 px-6" ref={scrollAreaRef}>
-            <div className="space-y-4 pb-4">
-              {messages.map((message, index) => (
-                <div key={message.id}>
-                  {index > 0 &&
-                    format(message.timestamp, "yyyy-MM-dd") !==
-                      format(messages[index - 1].timestamp, "yyyy-MM-dd") && (
-                      <div className="flex items-center my-4">
-                        <Separator className="flex-1" />
-                        <span className="px-3 text-xs text-muted-foreground bg-background">
-                          {format(message.timestamp, "MMMM d, yyyy")}
-                        </span>
-                        <Separator className="flex-1" />
-                      </div>
+        <Tabs
+          value={activeTab}
+          onValueChange={(value) => onTabChange(value as IssueTab)}
+          className="flex-1 flex flex-col"
+        >
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <TabsList>
+                <TabsTrigger value="conversation">Conversation</TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+              </TabsList>
+              {connectionState && (
+                <Badge variant="outline" className="text-xs">
+                  <span
+                    className={cn(
+                      "h-2 w-2 rounded-full mr-1.5",
+                      connectionState === "live"
+                        ? "bg-green-500"
+                        : "bg-yellow-500 animate-pulse",
                     )}
-                  <MessageBubble message={message} />
-                </div>
-              ))}
-              <div ref={messagesEndRef} />
+                  />
+                  {connectionState === "live"
+                    ? "Live"
+                    : connectionState === "connecting"
+                      ? "Connecting..."
+                      : "Reconnecting..."}
+                </Badge>
+              )}
             </div>
-          </ScrollArea>
+          </CardHeader>
+          <TabsContent
+            value="conversation"
+            className="flex-1 flex flex-col mt-0"
+          >
+            <CardContent className="flex-1 flex flex-col p-0">
+              <ScrollArea className="flex-1 px-6" ref={scrollAreaRef}>
+                <div className="space-y-4 pb-4">
+                  {hasOlderMessages && (
+                    <div className="flex justify-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={onLoadOlder}
+                        disabled={isLoadingOlder}
+                      >
+                        {isLoadingOlder
+                          ? "Loading..."
+                          : "Load earlier messages"}
+                      </Button>
+                    </div>
+                  )}
+                  {messages.map((message, index) => (
+                    <div key={message.id}>
+                      {index > 0 &&
+                        format(message.timestamp, "yyyy-MM-dd") !==
+                          format(
+                            messages[index - 1].timestamp,
+                            "yyyy-MM-dd",
+                          ) && (
+                          <div className="flex items-center my-4">
+                            <Separator className="flex-1" />
+                            <span className="px-3 text-xs text-muted-foreground bg-background">
+                              {format(message.timestamp, "MMMM d, yyyy")}
+                            </span>
+                            <Separator className="flex-1" />
+                          </div>
+                        )}
+                      <MessageBubble message={message} />
+                    </div>
+                  ))}
+                  <div ref={messagesEndRef} />
+                </div>
+              </ScrollArea>
 
-          {/* Message Input */}
-          <div className="border-t p-4">
-            <div className="flex space-x-2">
-              <Input
-                placeholder="Type your message..."
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="flex-1"
+              {/* Message Input */}
+              <div className="border-t p-4 space-y-3">
+                {canWriteInternalNotes && (
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="internal-note"
+                      checked={isInternalNote}
+                      onCheckedChange={setIsInternalNote}
+                    />
+                    <Label
+                      htmlFor="internal-note"
+                      className="text-sm text-muted-foreground"
+                    >
+                      Internal note (visible to support staff only)
+                    </Label>
+                  </div>
+                )}
+                <div className="flex space-x-2">
+                  <Input
+                    placeholder={
+                      isInternalNote && canWriteInternalNotes
+                        ? "Write an internal note..."
+                        : "Type your message..."
+                    }
+                    value={newMessage}
+                    onChange={(e) => setNewMessage(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    className="flex-1"
+                  />
+                  <Button
+                    onClick={handleSendMessage}
+                    disabled={!newMessage.trim()}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </TabsContent>
+          <TabsContent value="activity" className="mt-0">
+            <CardContent>
+              <ActivityTimeline
+                issue={issue}
+                entries={activity}
+                isLoading={isLoadingActivity}
               />
-              <Button onClick={handleSendMessage} disabled={!newMessage.trim()}>
-                <Send className="h-4 w-4" />
-              </Button>
-            </div>
-          </div>
-        </CardContent>
+            </CardContent>
+          </TabsContent>
+        </Tabs>
       </Card>
     </div>
   );
@@ -246,7 +509,9 @@ interface MessageBubbleProps {
 }
 
 function MessageBubble({ message }: MessageBubbleProps) {
-  const isCurrentUser = message.sender === currentUser.name;
+  const { user: currentUser } = useCurrentUser();
+  const isCurrentUser =
+    Boolean(currentUser) && message.senderId === currentUser.id;
   const isSystem = message.isSystem;
 
   if (isSystem) {
@@ -274,12 +539,7 @@ function MessageBubble({ message }: MessageBubbleProps) {
       >
         <Avatar className="h-8 w-8 mt-1">
           <AvatarFallback className="text-xs">
-            {isCurrentUser ? (
-              currentUser.name
-                .split(" ")
-                .map((n) => n[0])
-                .join("")
-            ) : message.sender === "System" ? (
+            {message.isBot || message.sender === "System" ? (
               <Bot className="h-4 w-4" />
             ) : (
               message.sender
@@ -294,9 +554,19 @@ function MessageBubble({ message }: MessageBubbleProps) {
           <div
             className={cn(
               "rounded-lg px-3 py-2",
-              isCurrentUser ? "bg-primary text-primary-foreground" : "bg-muted",
+              message.isInternal
+                ? "bg-amber-50 text-amber-900 border border-amber-200 dark:bg-amber-900/20 dark:text-amber-200 dark:border-amber-800"
+                : isCurrentUser
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted",
             )}
           >
+            {message.isInternal && (
+              <p className="flex items-center text-xs font-medium mb-1">
+                <Lock className="h-3 w-3 mr-1" />
+                Internal note
+              </p>
+            )}
             <p className="text-sm">{message.message}</p>
           </div>
           <div
@@ -0,0 +1,132 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { IssueFilters, filterIssues } from "@/lib/issueFilters";
+import { sortIssues } from "@/lib/issueGrouping";
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportFormat,
+  buildIssueExport,
+  getExportFileName,
+} from "@/lib/issueExport";
+import { fetchIssueExport } from "@/lib/issuesApi";
+import { isOffline } from "@/lib/apiClient";
+import { loadCachedIssues } from "@/hooks/use-issues";
+import { loadCachedMessages } from "@/hooks/use-messages";
+import { useUserLookup } from "@/hooks/use-users";
+import { useBusinessCalendar } from "@/hooks/use-business-calendar";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useToast } from "@/hooks/use-toast";
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface ExportMenuProps {
+  filters: IssueFilters;
+}
+
+// Downloads every issue matching the list filters, not just the current
+// page. The server builds the file; while it cannot be reached, the file
+// is built from the offline cache instead.
+export default function ExportMenu({ filters }: ExportMenuProps) {
+  const [includeMessages, setIncludeMessages] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const getUser = useUserLookup();
+  const calendar = useBusinessCalendar();
+  const { user: currentUser } = useCurrentUser();
+  const { toast } = useToast();
+
+  const buildOfflineExport = (format: ExportFormat) => {
+    const context = {
+      currentUserId: currentUser?.id,
+      getUserName: (userId: string) => getUser(userId)?.name,
+      calendar,
+    };
+    const issues = sortIssues(
+      filterIssues(loadCachedIssues(), filters, context),
+      filters.sort,
+      filters.sortDirection,
+    );
+    return new Blob(
+      [
+        buildIssueExport(issues, format, {
+          context,
+          getMessages: includeMessages ? loadCachedMessages : undefined,
+        }),
+      ],
+      { type: EXPORT_CONTENT_TYPES[format] },
+    );
+  };
+
+  const exportIssues = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      let blob: Blob;
+      try {
+        blob = await fetchIssueExport(filters, format, { includeMessages });
+      } catch (error) {
+        if (!isOffline(error)) throw error;
+        console.warn("Export API unavailable, using offline cache:", error);
+        blob = buildOfflineExport(format);
+        toast({
+          title: "Exported from the offline cache",
+          description:
+            "The server could not be reached, so the file only has issues and messages loaded in this browser.",
+        });
+      }
+      saveBlob(blob, getExportFileName(format));
+    } catch (error) {
+      toast({
+        title: "Could not export issues",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isExporting}>
+          <Download className="h-4 w-4 mr-1" />
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export matching issues</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportIssues("csv")}>
+          CSV (spreadsheets)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportIssues("json")}>
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeMessages}
+          onCheckedChange={setIncludeMessages}
+          // Keep the menu open to pick a format next
+          onSelect={(event) => event.preventDefault()}
+        >
+          Include conversations
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
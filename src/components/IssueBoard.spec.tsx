@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+} from "@testing-library/react";
+import { useIssuePages } from "@/hooks/use-issues";
+import { DEFAULT_ISSUE_FILTERS } from "@/lib/issueFilters";
+import { makeIssue } from "@/lib/test/fixtures";
+import IssueBoard from "./IssueBoard";
+
+vi.mock("@/hooks/use-issues", () => ({ useIssuePages: vi.fn() }));
+vi.mock("@/hooks/use-business-calendar", () => ({
+  useBusinessCalendar: () => undefined,
+}));
+vi.mock("@/hooks/use-users", () => ({ useUserLookup: () => () => undefined }));
+vi.mock("@/hooks/use-current-user", () => ({
+  useCurrentUser: () => ({ user: { id: "user-3", role: "support" } }),
+}));
+vi.mock("@/hooks/use-permissions", () => ({
+  usePermissions: () => ({ can: () => true }),
+}));
+vi.mock("@/hooks/use-toast", () => ({ useToast: () => ({ toast: vi.fn() }) }));
+
+const issue = makeIssue("1", { title: "Printer jammed" });
+
+beforeEach(() => {
+  vi.mocked(useIssuePages).mockReturnValue([
+    { data: { issues: [issue], nextCursor: null, total: 1, groups: [] } },
+    {},
+    {},
+    {},
+  ] as unknown as ReturnType<typeof useIssuePages>);
+});
+
+afterEach(cleanup);
+
+const renderBoard = (
+  onStatusChange: () => Promise<boolean>,
+  filters = DEFAULT_ISSUE_FILTERS,
+) =>
+  render(
+    <IssueBoard
+      filters={filters}
+      onIssueClick={vi.fn()}
+      onStatusChange={onStatusChange}
+      onShowAll={vi.fn()}
+    />,
+  );
+
+describe("IssueBoard", () => {
+  it("should announce a move only once the server has refused it", async () => {
+    let settle: (moved: boolean) => void;
+    const onStatusChange = vi.fn(
+      () => new Promise<boolean>((resolve) => (settle = resolve)),
+    );
+    renderBoard(onStatusChange);
+
+    fireEvent.keyDown(screen.getByText("Printer jammed"), {
+      key: "ArrowRight",
+      shiftKey: true,
+    });
+
+    expect(onStatusChange).toHaveBeenCalledWith("1", "in-progress", {});
+    expect(screen.queryByText(/Moved/)).toBeNull();
+
+    await act(async () => settle(false));
+    expect(
+      screen.getByText('Could not move "Printer jammed" to In Progress'),
+    ).toBeTruthy();
+  });
+
+  it("should show every status whatever the status filter", () => {
+    renderBoard(vi.fn(), { ...DEFAULT_ISSUE_FILTERS, status: "open" });
+
+    const [params] = vi.mocked(useIssuePages).mock.calls[0];
+    expect(params.map(({ filters }) => filters.status)).toEqual([
+      "all",
+      "all",
+      "all",
+      "all",
+    ]);
+  });
+});
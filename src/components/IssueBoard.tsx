@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserCheck } from "lucide-react";
+import { Issue, ResolutionStatus } from "@/lib/types";
+import { IssueFilters } from "@/lib/issueFilters";
+import {
+  TransitionFields,
+  WorkflowTransition,
+  findAdjacentStatus,
+  findTransition,
+  getStatusLabel,
+  validateTransition,
+} from "@/lib/workflow";
+import { cn } from "@/lib/utils";
+import { useIssuePages } from "@/hooks/use-issues";
+import { useBusinessCalendar } from "@/hooks/use-business-calendar";
+import { useUserLookup } from "@/hooks/use-users";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import TransitionDialog from "./TransitionDialog";
+
+const COLUMNS: ResolutionStatus[] = [
+  "open",
+  "in-progress",
+  "resolved",
+  "closed",
+];
+
+// Cards loaded per column; the rest are reachable from the list layout
+const COLUMN_SIZE = 50;
+
+interface IssueBoardProps {
+  filters: IssueFilters;
+  onIssueClick: (issue: Issue) => void;
+  onStatusChange: (
+    issueId: string,
+    status: ResolutionStatus,
+    fields?: TransitionFields,
+  ) => Promise<boolean>;
+  onShowAll: (status: ResolutionStatus) => void;
+}
+
+const canMove = (issue: Issue, to: ResolutionStatus) =>
+  issue.status !== to && Boolean(findTransition(issue.type, issue.status, to));
+
+// One column per status. Cards are moved by dragging them onto another
+// column or with Shift+Left/Right, and go through the same workflow checks
+// as the status select.
+export default function IssueBoard({
+  filters,
+  onIssueClick,
+  onStatusChange,
+  onShowAll,
+}: IssueBoardProps) {
+  const getUser = useUserLookup();
+  const { user: currentUser } = useCurrentUser();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const calendar = useBusinessCalendar();
+  const canChangeStatus = can("issue.change-status");
+
+  const [draggedIssue, setDraggedIssue] = useState<Issue | null>(null);
+  const [dropTarget, setDropTarget] = useState<ResolutionStatus | null>(null);
+  const [pending, setPending] = useState<{
+    issue: Issue;
+    transition: WorkflowTransition;
+  } | null>(null);
+  // Keeps keyboard focus on a card after it moves to another column
+  const [focusedIssueId, setFocusedIssueId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  // Every column shows one status, so the list's status filter is left out
+  const columnParams = useMemo(
+    () =>
+      COLUMNS.map((status) => ({
+        filters: {
+          ...filters,
+          status: "all" as const,
+          groupBy: "status" as const,
+        },
+        groupValue: status,
+        limit: COLUMN_SIZE,
+      })),
+    [filters],
+  );
+  const columns = useIssuePages(columnParams, {
+    offlineContext: {
+      currentUserId: currentUser?.id,
+      getUserName: (userId) => getUser(userId)?.name,
+      calendar,
+    },
+  });
+
+  // Cards are placed by their current status rather than by the page they
+  // came from, so a move shows up before the pages are refetched
+  const issuesByStatus = useMemo(() => {
+    const seen = new Map<string, Issue>();
+    columns.forEach(({ data }) =>
+      data?.issues.forEach((issue) => seen.set(issue.id, issue)),
+    );
+    return COLUMNS.reduce(
+      (acc, status) => {
+        acc[status] = [...seen.values()].filter(
+          (issue) => issue.status === status,
+        );
+        return acc;
+      },
+      {} as Record<ResolutionStatus, Issue[]>,
+    );
+  }, [columns]);
+
+  const countFor = (status: ResolutionStatus, index: number) =>
+    columns[index].data?.groups.find((group) => group.key === status)?.count ??
+    issuesByStatus[status].length;
+
+  // Announced once the server has taken the move, since a rejected move
+  // puts the card back where it was
+  const applyMove = async (
+    issue: Issue,
+    to: ResolutionStatus,
+    fields: TransitionFields = {},
+  ) => {
+    const moved = await onStatusChange(issue.id, to, fields);
+    setAnnouncement(
+      moved
+        ? `Moved "${issue.title}" to ${getStatusLabel(to)}`
+        : `Could not move "${issue.title}" to ${getStatusLabel(to)}`,
+    );
+  };
+
+  const moveIssue = (issue: Issue, to: ResolutionStatus) => {
+    const transition = findTransition(issue.type, issue.status, to);
+    if (!transition) {
+      const error = validateTransition(issue, to);
+      setAnnouncement(error);
+      toast({
+        title: "Cannot move issue",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFocusedIssueId(issue.id);
+    if (transition.requires?.length) {
+      setPending({ issue, transition });
+    } else {
+      applyMove(issue, to);
+    }
+  };
+
+  const moveByKeyboard = (issue: Issue, step: 1 | -1) => {
+    const to = findAdjacentStatus(issue, COLUMNS, step);
+    if (to) {
+      moveIssue(issue, to);
+    } else {
+      setAnnouncement(
+        `"${issue.title}" cannot move ${step > 0 ? "right" : "left"} from ${getStatusLabel(issue.status)}`,
+      );
+    }
+  };
+
+  const endDrag = () => {
+    setDraggedIssue(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p id="board-instructions" className="text-sm text-muted-foreground">
+        {canChangeStatus
+          ? "Drag a card to another column, or focus it and press Shift+Left/Right, to change its status. Press Enter to open it."
+          : "Press Enter on a card to open it."}
+      </p>
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        {COLUMNS.map((status, index) => {
+          const issues = issuesByStatus[status];
+          const count = countFor(status, index);
+          const isAllowed = draggedIssue ? canMove(draggedIssue, status) : true;
+
+          return (
+            <Card
+              key={status}
+              role="region"
+              aria-label={`${getStatusLabel(status)}, ${count} issues`}
+              className={cn(
+                "flex flex-col bg-muted/40 transition-opacity",
+                draggedIssue && !isAllowed && "opacity-50",
+                dropTarget === status && "ring-2 ring-primary",
+              )}
+              onDragOver={(event) => {
+                if (!draggedIssue || !isAllowed) return;
+                event.preventDefault();
+                event.dataTransfer.dropEffect = "move";
+                setDropTarget(status);
+              }}
+              onDragLeave={(event) => {
+                if (
+                  !event.currentTarget.contains(event.relatedTarget as Node)
+                ) {
+                  setDropTarget(null);
+                }
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (draggedIssue) moveIssue(draggedIssue, status);
+                endDrag();
+              }}
+            >
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 p-4 pb-2">
+                <CardTitle className="text-base">
+                  {getStatusLabel(status)}
+                </CardTitle>
+                <Badge variant="secondary" title="Issues in this column">
+                  {count}
+                </Badge>
+              </CardHeader>
+              <CardContent className="flex-1 space-y-2 p-4 pt-2 min-h-32">
+                {columns[index].isLoading && (
+                  <p className="text-sm text-muted-foreground">Loading...</p>
+                )}
+                {issues.map((issue) => (
+                  <BoardCard
+                    key={issue.id}
+                    issue={issue}
+                    assigneeName={
+                      issue.assigneeId
+                        ? getUser(issue.assigneeId)?.name
+                        : undefined
+                    }
+                    draggable={canChangeStatus}
+                    autoFocus={issue.id === focusedIssueId}
+                    onOpen={() => onIssueClick(issue)}
+                    onMove={(step) =>
+                      canChangeStatus && moveByKeyboard(issue, step)
+                    }
+                    onDragStart={() => setDraggedIssue(issue)}
+                    onDragEnd={endDrag}
+                  />
+                ))}
+                {count > issues.length && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => onShowAll(status)}
+                  >
+                    Show all {count} in the list
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <TransitionDialog
+        transition={pending?.transition ?? null}
+        initialResolutionNote={pending?.issue.resolutionNote}
+        onConfirm={(fields) => {
+          applyMove(pending.issue, pending.transition.to, fields);
+          setPending(null);
+        }}
+        onCancel={() => setPending(null)}
+      />
+    </div>
+  );
+}
+
+interface BoardCardProps {
+  issue: Issue;
+  assigneeName?: string;
+  draggable: boolean;
+  autoFocus: boolean;
+  onOpen: () => void;
+  onMove: (step: 1 | -1) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}
+
+function BoardCard({
+  issue,
+  assigneeName,
+  draggable,
+  autoFocus,
+  onOpen,
+  onMove,
+  onDragStart,
+  onDragEnd,
+}: BoardCardProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (autoFocus) ref.current?.focus();
+  }, [autoFocus]);
+
+  return (
+    <div
+      ref={ref}
+      role="button"
+      tabIndex={0}
+      aria-describedby="board-instructions"
+      draggable={draggable}
+      className="cursor-pointer rounded-md border bg-background p-3 shadow-sm transition-shadow hover:shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+      onClick={onOpen}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          onOpen();
+        } else if (event.shiftKey && event.key === "ArrowRight") {
+          event.preventDefault();
+          onMove(1);
+        } else if (event.shiftKey && event.key === "ArrowLeft") {
+          event.preventDefault();
+          onMove(-1);
+        }
+      }}
+      onDragStart={(event) => {
+        event.dataTransfer.setData("text/plain", issue.id);
+        event.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+    >
+      <div className="mb-1 flex items-center space-x-2">
+        <Badge variant="outline" className="text-xs capitalize">
+          {issue.type}
+        </Badge>
+        <span
+          className={cn("text-xs font-medium", `priority-${issue.priority}`)}
+        >
+          {issue.priority.toUpperCase()}
+        </span>
+      </div>
+      <p className="text-sm font-medium line-clamp-2">{issue.title}</p>
+      <div className="mt-2 flex items-center space-x-1 text-xs text-muted-foreground">
+        <UserCheck className="h-3 w-3" />
+        <span>{assigneeName ?? "Unassigned"}</span>
+      </div>
+    </div>
+  );
+}
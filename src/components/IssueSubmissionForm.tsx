@@ -18,10 +18,13 @@ import { Progress } from "@/components/ui/progress";
 import { AlertCircle, Upload, X, FileText, Image, Video } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Issue, IssueType, Priority, MediaFile } from "@/lib/types";
-import { generateId, currentUser } from "@/lib/mockData";
+import { generateId } from "@/lib/mockData";
 import { uploadMediaFileWithFallback } from "@/lib/cloudinaryUpload";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { UploadStatusIndicator } from "./UploadStatusIndicator";
+import { ApiError } from "@/lib/apiClient";
 import { cn } from "@/lib/utils";
+import { format } from "date-fns";
 
 interface IssueFormData {
   title: string;
@@ -45,20 +48,55 @@ interface IssueFormData {
 }
 
 interface IssueSubmissionFormProps {
-  onSubmit: (issue: Issue) => void;
+  // When given, the form edits this issue instead of creating a new one.
+  // The issue passed to onSubmit then carries the `updatedAt` the edits
+  // were based on, so the save can be rejected if someone else got there
+  // first.
+  issue?: Issue;
+  onSubmit: (issue: Issue) => void | Promise<void>;
   onCancel?: () => void;
 }
 
+const toFormData = (issue: Issue): IssueFormData => ({
+  title: issue.title,
+  description: issue.description,
+  priority: issue.priority,
+  tags: issue.tags.join(", "),
+  contentType: issue.contentDetails?.contentType,
+  platform: issue.contentDetails?.platform,
+  audience: issue.contentDetails?.audience,
+  deadline: issue.contentDetails?.deadline
+    ? format(issue.contentDetails.deadline, "yyyy-MM-dd")
+    : undefined,
+  systemType: issue.technicalDetails?.systemType,
+  browser: issue.technicalDetails?.browser,
+  errorMessage: issue.technicalDetails?.errorMessage,
+  stepsToReproduce: issue.technicalDetails?.stepsToReproduce,
+  category: issue.generalDetails?.category,
+  department: issue.generalDetails?.department,
+  urgency: issue.generalDetails?.urgency,
+});
+
 export default function IssueSubmissionForm({
+  issue: editedIssue,
   onSubmit,
   onCancel,
 }: IssueSubmissionFormProps) {
-  const [activeTab, setActiveTab] = useState<IssueType>("content");
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const isEditing = Boolean(editedIssue);
+  const [activeTab, setActiveTab] = useState<IssueType>(
+    editedIssue?.type ?? "content",
+  );
+  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>(
+    editedIssue?.mediaFiles ?? [],
+  );
+  // Version of the issue the edits are based on
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState(editedIssue?.updatedAt);
+  const [hasConflict, setHasConflict] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<{
     [key: string]: number;
   }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { user: currentUser } = useCurrentUser();
 
   const {
     register,
@@ -68,12 +106,28 @@ export default function IssueSubmissionForm({
     watch,
     reset,
   } = useForm<IssueFormData>({
-    defaultValues: {
-      priority: "medium",
-      tags: "",
-    },
+    defaultValues: editedIssue
+      ? toFormData(editedIssue)
+      : {
+          priority: "medium",
+          tags: "",
+        },
   });
 
+  // Throw away local edits and start over from the latest saved version
+  const discardChanges = () => {
+    reset(toFormData(editedIssue));
+    setMediaFiles(editedIssue.mediaFiles);
+    setBaseUpdatedAt(editedIssue.updatedAt);
+    setHasConflict(false);
+  };
+
+  // Keep local edits and save them over the latest saved version
+  const overwriteChanges = () => {
+    setBaseUpdatedAt(editedIssue.updatedAt);
+    setHasConflict(false);
+  };
+
   const handleFileUpload = async (files: FileList | null) => {
     if (!files) return;
 
@@ -149,15 +203,17 @@ export default function IssueSubmissionForm({
         .filter(Boolean);
 
       const issue: Issue = {
-        id: generateId(),
+        ...(editedIssue ?? {
+          id: generateId(),
+          status: "open",
+          submittedBy: currentUser?.id ?? "",
+          submittedAt: new Date(),
+        }),
+        updatedAt: baseUpdatedAt ?? new Date(),
         title: data.title,
         description: data.description,
         type: activeTab,
         priority: data.priority,
-        status: "open",
-        submittedBy: currentUser.name,
-        submittedAt: new Date(),
-        updatedAt: new Date(),
         tags,
         mediaFiles,
         ...(activeTab === "content" && {
@@ -185,13 +241,19 @@ export default function IssueSubmissionForm({
         }),
       };
 
-      await new Promise((resolve) => setTimeout(resolve, 1000)); // Simulate submission
-      onSubmit(issue);
+      await onSubmit(issue);
 
-      // Reset form
-      reset();
-      setMediaFiles([]);
-      setActiveTab("content");
+      if (!isEditing) {
+        reset();
+        setMediaFiles([]);
+        setActiveTab("content");
+      }
+    } catch (error) {
+      // The parent reports the failure; keep the form filled in for a retry
+      console.error("Issue submission failed:", error);
+      if (error instanceof ApiError && error.status === 409) {
+        setHasConflict(true);
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -206,22 +268,67 @@ export default function IssueSubmissionForm({
   return (
     <Card className="w-full max-w-4xl mx-auto">
       <CardHeader>
-        <CardTitle className="text-2xl font-bold">Submit New Issue</CardTitle>
+        <CardTitle className="text-2xl font-bold">
+          {isEditing ? "Edit Issue" : "Submit New Issue"}
+        </CardTitle>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+          {hasConflict && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription className="space-y-3">
+                <p>
+                  Someone else saved changes to this issue while you were
+                  editing it. Discard your edits to load their version, or save
+                  yours over it.
+                </p>
+                <div className="flex space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={discardChanges}
+                  >
+                    Discard my changes
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    onClick={overwriteChanges}
+                  >
+                    Keep my changes
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           <Tabs
             value={activeTab}
             onValueChange={(value) => setActiveTab(value as IssueType)}
           >
             <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="content" className="text-sm font-medium">
+              <TabsTrigger
+                value="content"
+                className="text-sm font-medium"
+                disabled={isEditing && activeTab !== "content"}
+              >
                 Content Issues
               </TabsTrigger>
-              <TabsTrigger value="technical" className="text-sm font-medium">
+              <TabsTrigger
+                value="technical"
+                className="text-sm font-medium"
+                disabled={isEditing && activeTab !== "technical"}
+              >
                 Technical Issues
               </TabsTrigger>
-              <TabsTrigger value="general" className="text-sm font-medium">
+              <TabsTrigger
+                value="general"
+                className="text-sm font-medium"
+                disabled={isEditing && activeTab !== "general"}
+              >
                 General Requests
               </TabsTrigger>
             </TabsList>
@@ -246,6 +353,7 @@ export default function IssueSubmissionForm({
                 <div className="space-y-2">
                   <Label htmlFor="priority">Priority</Label>
                   <Select
+                    value={watch("priority") ?? ""}
                     onValueChange={(value) =>
                       setValue("priority", value as Priority)
                     }
@@ -290,6 +398,7 @@ export default function IssueSubmissionForm({
                 <div className="space-y-2">
                   <Label htmlFor="contentType">Content Type</Label>
                   <Select
+                    value={watch("contentType") ?? ""}
                     onValueChange={(value) => setValue("contentType", value)}
                   >
                     <SelectTrigger>
@@ -307,6 +416,7 @@ export default function IssueSubmissionForm({
                 <div className="space-y-2">
                   <Label htmlFor="platform">Platform</Label>
                   <Select
+                    value={watch("platform") ?? ""}
                     onValueChange={(value) => setValue("platform", value)}
                   >
                     <SelectTrigger>
@@ -324,6 +434,7 @@ export default function IssueSubmissionForm({
                 <div className="space-y-2">
                   <Label htmlFor="audience">Target Audience</Label>
                   <Select
+                    value={watch("audience") ?? ""}
                     onValueChange={(value) => setValue("audience", value)}
                   >
                     <SelectTrigger>
@@ -349,6 +460,7 @@ export default function IssueSubmissionForm({
                 <div className="space-y-2">
                   <Label htmlFor="systemType">System/Application</Label>
                   <Select
+                    value={watch("systemType") ?? ""}
                     onValueChange={(value) => setValue("systemType", value)}
                   >
                     <SelectTrigger>
@@ -365,7 +477,10 @@ export default function IssueSubmissionForm({
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="browser">Browser (if applicable)</Label>
-                  <Select onValueChange={(value) => setValue("browser", value)}>
+                  <Select
+                    value={watch("browser") ?? ""}
+                    onValueChange={(value) => setValue("browser", value)}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Select browser" />
                     </SelectTrigger>
@@ -403,6 +518,7 @@ export default function IssueSubmissionForm({
                 <div className="space-y-2">
                   <Label htmlFor="category">Category</Label>
                   <Select
+                    value={watch("category") ?? ""}
                     onValueChange={(value) => setValue("category", value)}
                   >
                     <SelectTrigger>
@@ -420,6 +536,7 @@ export default function IssueSubmissionForm({
                 <div className="space-y-2">
                   <Label htmlFor="department">Department</Label>
                   <Select
+                    value={watch("department") ?? ""}
                     onValueChange={(value) => setValue("department", value)}
                   >
                     <SelectTrigger>
@@ -436,7 +553,10 @@ export default function IssueSubmissionForm({
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="urgency">Urgency Level</Label>
-                  <Select onValueChange={(value) => setValue("urgency", value)}>
+                  <Select
+                    value={watch("urgency") ?? ""}
+                    onValueChange={(value) => setValue("urgency", value)}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Select urgency" />
                     </SelectTrigger>
@@ -544,8 +664,14 @@ export default function IssueSubmissionForm({
                 Cancel
               </Button>
             )}
-            <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? "Submitting..." : "Submit Issue"}
+            <Button type="submit" disabled={isSubmitting || hasConflict}>
+              {isEditing
+                ? isSubmitting
+                  ? "Saving..."
+                  : "Save Changes"
+                : isSubmitting
+                  ? "Submitting..."
+                  : "Submit Issue"}
             </Button>
           </div>
         </form>
@@ -0,0 +1,477 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronUp,
+  Columns3,
+} from "lucide-react";
+import { Issue, Priority, ResolutionStatus } from "@/lib/types";
+import {
+  COLUMN_IDS,
+  ISSUE_COLUMNS,
+  IssueColumnId,
+  clampColumnWidth,
+  getColumnText,
+  moveColumn,
+  toggleColumn,
+} from "@/lib/issueColumns";
+import { IssueSortKey, SORT_OPTIONS, SortDirection } from "@/lib/issueGrouping";
+import { TransitionFields } from "@/lib/workflow";
+import { cn } from "@/lib/utils";
+import { useTableColumns } from "@/hooks/use-saved-views";
+import { useUserLookup } from "@/hooks/use-users";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import StatusSelect from "./StatusSelect";
+
+const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"];
+
+// Width of the selection checkbox column
+const SELECT_COLUMN_WIDTH = 44;
+
+// Pixels a column grows or shrinks per arrow key press on its resize handle
+const RESIZE_STEP = 10;
+
+interface IssueTableProps {
+  issues: Issue[];
+  sort: IssueSortKey;
+  sortDirection: SortDirection;
+  onSort: (sort: IssueSortKey, sortDirection: SortDirection) => void;
+  isSelected: (issueId: string) => boolean;
+  onSelectedChange: (issue: Issue, selected: boolean) => void;
+  allSelected: boolean;
+  onAllSelectedChange: (selected: boolean) => void;
+  onIssueClick: (issue: Issue) => void;
+  onStatusChange: (
+    issueId: string,
+    status: ResolutionStatus,
+    fields?: TransitionFields,
+  ) => void;
+  onPriorityChange: (issueId: string, priority: Priority) => void;
+}
+
+// Dense layout of the issue list. Columns can be picked, dragged into a
+// different order and resized; the layout is saved for the signed-in user.
+export default function IssueTable({
+  issues,
+  sort,
+  sortDirection,
+  onSort,
+  isSelected,
+  onSelectedChange,
+  allSelected,
+  onAllSelectedChange,
+  onIssueClick,
+  onStatusChange,
+  onPriorityChange,
+}: IssueTableProps) {
+  const { columns: savedColumns, setColumns, isCustomized } = useTableColumns();
+  const getUser = useUserLookup();
+  const { can, canEdit } = usePermissions();
+  const { toast } = useToast();
+
+  // Shown while a column is being resized or a change is being saved
+  const [draftColumns, setDraftColumns] = useState(savedColumns);
+  useEffect(() => setDraftColumns(savedColumns), [savedColumns]);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Headers are draggable too; a resize must not start a column move
+  const isResizing = useRef(false);
+
+  const saveColumns = (columns: typeof savedColumns | null) => {
+    if (columns) setDraftColumns(columns);
+    setColumns(columns).catch((error) =>
+      toast({
+        title: "Could not save your columns",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      }),
+    );
+  };
+
+  const startResize = (index: number, event: React.PointerEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    isResizing.current = true;
+    const startX = event.clientX;
+    const startWidth = draftColumns[index].width;
+    let columns = draftColumns;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      columns = draftColumns.map((column, columnIndex) =>
+        columnIndex === index
+          ? {
+              ...column,
+              width: clampColumnWidth(startWidth + moveEvent.clientX - startX),
+            }
+          : column,
+      );
+      setDraftColumns(columns);
+    };
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      isResizing.current = false;
+      if (columns !== draftColumns) saveColumns(columns);
+    };
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  const resizeBy = (index: number, delta: number) =>
+    saveColumns(
+      draftColumns.map((column, columnIndex) =>
+        columnIndex === index
+          ? { ...column, width: clampColumnWidth(column.width + delta) }
+          : column,
+      ),
+    );
+
+  const sortBy = (sortKey: IssueSortKey) =>
+    onSort(
+      sortKey,
+      sortKey === sort
+        ? sortDirection === "asc"
+          ? "desc"
+          : "asc"
+        : SORT_OPTIONS[sortKey].defaultDirection,
+    );
+
+  const tableWidth =
+    SELECT_COLUMN_WIDTH +
+    draftColumns.reduce((width, column) => width + column.width, 0);
+
+  const renderCell = (issue: Issue, id: IssueColumnId) => {
+    switch (id) {
+      case "title":
+        return (
+          <button
+            type="button"
+            className="block w-full truncate text-left font-medium hover:underline"
+            onClick={() => onIssueClick(issue)}
+            title={issue.title}
+          >
+            {issue.title}
+          </button>
+        );
+      case "status":
+        return (
+          <StatusSelect
+            issue={issue}
+            onChange={(status, fields) =>
+              onStatusChange(issue.id, status, fields)
+            }
+            disabled={!can("issue.change-status")}
+            className="h-8 w-full"
+          />
+        );
+      case "priority":
+        return (
+          <Select
+            value={issue.priority}
+            onValueChange={(value) =>
+              onPriorityChange(issue.id, value as Priority)
+            }
+            disabled={!canEdit(issue)}
+          >
+            <SelectTrigger
+              className={cn("h-8 w-full", `priority-${issue.priority}`)}
+              aria-label={`Priority of "${issue.title}"`}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRIORITIES.map((priority) => (
+                <SelectItem key={priority} value={priority}>
+                  {getColumnText({ ...issue, priority }, "priority")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "tags":
+        return (
+          <div className="flex gap-1 overflow-hidden">
+            {issue.tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="text-xs">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        );
+      default: {
+        const text = getColumnText(issue, id, {
+          getUserName: (userId) => getUser(userId)?.name,
+        });
+        return text ? (
+          <span className="block truncate" title={text}>
+            {text}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="h-4 w-4 mr-1" />
+              Columns
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 p-2">
+            <ul className="max-h-96 space-y-1 overflow-y-auto">
+              {[
+                ...draftColumns.map(({ id }) => id as IssueColumnId),
+                ...COLUMN_IDS.filter(
+                  (id) => !draftColumns.some((column) => column.id === id),
+                ),
+              ].map((id) => {
+                const index = draftColumns.findIndex(
+                  (column) => column.id === id,
+                );
+                const shown = index >= 0;
+                const { label, issueType } = ISSUE_COLUMNS[id];
+
+                return (
+                  <li key={id} className="flex items-center space-x-2 px-1">
+                    <Checkbox
+                      id={`column-${id}`}
+                      checked={shown}
+                      // The table needs at least one column
+                      disabled={shown && draftColumns.length === 1}
+                      onCheckedChange={() =>
+                        saveColumns(toggleColumn(draftColumns, id))
+                      }
+                    />
+                    <label
+                      htmlFor={`column-${id}`}
+                      className="flex-1 truncate text-sm"
+                    >
+                      {label}
+                      {issueType && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          ({issueType})
+                        </span>
+                      )}
+                    </label>
+                    {shown && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          aria-label={`Move ${label} left`}
+                          disabled={index === 0}
+                          onClick={() =>
+                            saveColumns(
+                              moveColumn(draftColumns, index, index - 1),
+                            )
+                          }
+                        >
+                          <ChevronUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          aria-label={`Move ${label} right`}
+                          disabled={index === draftColumns.length - 1}
+                          onClick={() =>
+                            saveColumns(
+                              moveColumn(draftColumns, index, index + 1),
+                            )
+                          }
+                        >
+                          <ChevronDown className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            {isCustomized && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-2 w-full"
+                onClick={() => saveColumns(null)}
+              >
+                Reset to default columns
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <Card>
+        <Table className="table-fixed" style={{ width: tableWidth }}>
+          <colgroup>
+            <col style={{ width: SELECT_COLUMN_WIDTH }} />
+            {draftColumns.map((column) => (
+              <col key={column.id} style={{ width: column.width }} />
+            ))}
+          </colgroup>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    onAllSelectedChange(checked === true)
+                  }
+                  aria-label="Select all on this page"
+                />
+              </TableHead>
+              {draftColumns.map((column, index) => {
+                const { label, sortKey } =
+                  ISSUE_COLUMNS[column.id as IssueColumnId];
+                const isSorted = sortKey !== undefined && sortKey === sort;
+
+                return (
+                  <TableHead
+                    key={column.id}
+                    draggable
+                    aria-sort={
+                      isSorted
+                        ? sortDirection === "asc"
+                          ? "ascending"
+                          : "descending"
+                        : undefined
+                    }
+                    className={cn(
+                      "relative select-none",
+                      draggedIndex === index && "opacity-50",
+                      dropIndex === index &&
+                        draggedIndex !== index &&
+                        "bg-muted",
+                    )}
+                    onDragStart={(event) => {
+                      if (isResizing.current) {
+                        event.preventDefault();
+                        return;
+                      }
+                      event.dataTransfer.setData("text/plain", column.id);
+                      event.dataTransfer.effectAllowed = "move";
+                      setDraggedIndex(index);
+                    }}
+                    onDragOver={(event) => {
+                      if (draggedIndex === null) return;
+                      event.preventDefault();
+                      setDropIndex(index);
+                    }}
+                    onDrop={(event) => {
+                      event.preventDefault();
+                      if (draggedIndex !== null && draggedIndex !== index) {
+                        saveColumns(
+                          moveColumn(draftColumns, draggedIndex, index),
+                        );
+                      }
+                      setDraggedIndex(null);
+                      setDropIndex(null);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedIndex(null);
+                      setDropIndex(null);
+                    }}
+                  >
+                    {sortKey ? (
+                      <button
+                        type="button"
+                        className="flex w-full items-center space-x-1 truncate hover:text-foreground"
+                        onClick={() => sortBy(sortKey)}
+                      >
+                        <span className="truncate">{label}</span>
+                        {isSorted &&
+                          (sortDirection === "asc" ? (
+                            <ArrowUp className="h-3 w-3 shrink-0" />
+                          ) : (
+                            <ArrowDown className="h-3 w-3 shrink-0" />
+                          ))}
+                      </button>
+                    ) : (
+                      <span className="block truncate">{label}</span>
+                    )}
+                    <div
+                      role="separator"
+                      aria-orientation="vertical"
+                      aria-label={`Resize ${label}`}
+                      aria-valuenow={column.width}
+                      tabIndex={0}
+                      className="absolute right-0 top-0 h-full w-2 cursor-col-resize hover:bg-primary/30 focus-visible:bg-primary/30 focus:outline-none"
+                      onPointerDown={(event) => startResize(index, event)}
+                      onKeyDown={(event) => {
+                        if (event.key === "ArrowLeft") {
+                          event.preventDefault();
+                          resizeBy(index, -RESIZE_STEP);
+                        } else if (event.key === "ArrowRight") {
+                          event.preventDefault();
+                          resizeBy(index, RESIZE_STEP);
+                        }
+                      }}
+                    />
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {issues.map((issue) => (
+              <TableRow
+                key={issue.id}
+                data-state={isSelected(issue.id) ? "selected" : undefined}
+              >
+                <TableCell className="py-1">
+                  <Checkbox
+                    checked={isSelected(issue.id)}
+                    onCheckedChange={(checked) =>
+                      onSelectedChange(issue, checked === true)
+                    }
+                    aria-label={`Select "${issue.title}"`}
+                  />
+                </TableCell>
+                {draftColumns.map((column) => (
+                  <TableCell key={column.id} className="py-1">
+                    {renderCell(issue, column.id as IssueColumnId)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
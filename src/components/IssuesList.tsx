@@ -1,7 +1,6 @@
-import React, { useState, useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -12,8 +11,17 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
 import {
-  Search,
   Filter,
   MessageSquare,
   Calendar,
@@ -23,48 +31,176 @@ import {
   XCircle,
   Pause,
   Paperclip,
+  UserCheck,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Layers,
+  List,
+  Columns3,
+  Table2,
 } from "lucide-react";
 import { Issue, ResolutionStatus, IssueType, Priority } from "@/lib/types";
 import { cn } from "@/lib/utils";
+import { useUserLookup, useUsers } from "@/hooks/use-users";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useIssueFilters } from "@/hooks/use-issue-filters";
+import { useIssuePage } from "@/hooks/use-issues";
+import { useBusinessCalendar } from "@/hooks/use-business-calendar";
+import { TransitionFields } from "@/lib/workflow";
+import { parseSearchQuery } from "@/lib/searchQuery";
+import {
+  GROUP_OPTIONS,
+  IssueGroupKey,
+  IssueSortKey,
+  SORT_OPTIONS,
+} from "@/lib/issueGrouping";
+import { SlaFilter, serializeIssueFilters } from "@/lib/issueFilters";
+import { ISSUE_PAGE_SIZE } from "@/lib/issuesApi";
+import AssigneeSelect from "./AssigneeSelect";
+import BulkActionBar from "./BulkActionBar";
+import ExportMenu from "./ExportMenu";
+import IssueBoard from "./IssueBoard";
+import IssueTable from "./IssueTable";
+import SearchQueryInput from "./SearchQueryInput";
+import SlaBadge from "./SlaBadge";
+import StatusSelect from "./StatusSelect";
 import { format } from "date-fns";
 
 interface IssuesListProps {
-  issues: Issue[];
   onIssueClick: (issue: Issue) => void;
-  onStatusChange: (issueId: string, status: ResolutionStatus) => void;
+  onStatusChange: (
+    issueId: string,
+    status: ResolutionStatus,
+    fields?: TransitionFields,
+  ) => Promise<boolean>;
+  onAssign: (issueId: string, assigneeId: string | null) => void;
+  onPriorityChange: (issueId: string, priority: Priority) => void;
 }
 
 export default function IssuesList({
-  issues,
   onIssueClick,
   onStatusChange,
+  onAssign,
+  onPriorityChange,
 }: IssuesListProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<ResolutionStatus | "all">(
-    "all",
+  const [filters, updateFilters] = useIssueFilters();
+  const {
+    search: searchTerm,
+    status: statusFilter,
+    type: typeFilter,
+    priority: priorityFilter,
+    sla: slaFilter,
+    assignedToMe,
+    sort: sortKey,
+    sortDirection,
+    groupBy,
+    layout,
+  } = filters;
+  const getUser = useUserLookup();
+  const { user: currentUser } = useCurrentUser();
+  const { data: users = [] } = useUsers();
+  const calendar = useBusinessCalendar();
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+
+  // The selected group tab and the cursors of the pages before the current
+  // one. Both start over when the grouping or the filters change.
+  const listKey = serializeIssueFilters(filters).toString();
+  const [selectedGroup, setSelectedGroup] = useState({ groupBy, key: "all" });
+  const activeGroup =
+    selectedGroup.groupBy === groupBy ? selectedGroup.key : "all";
+  const [pagination, setPagination] = useState({
+    listKey,
+    activeGroup,
+    cursors: [] as string[],
+  });
+  const cursors =
+    pagination.listKey === listKey && pagination.activeGroup === activeGroup
+      ? pagination.cursors
+      : [];
+
+  const {
+    data: page,
+    isLoading,
+    isError,
+    isPlaceholderData,
+  } = useIssuePage(
+    {
+      filters,
+      groupValue: activeGroup === "all" ? undefined : activeGroup,
+      cursor: cursors[cursors.length - 1],
+    },
+    {
+      // Keep showing the last results while the query has errors
+      enabled: layout !== "board" && searchQuery.errors.length === 0,
+      offlineContext: {
+        currentUserId: currentUser?.id,
+        getUserName: (userId) => getUser(userId)?.name,
+        calendar,
+      },
+    },
   );
-  const [typeFilter, setTypeFilter] = useState<IssueType | "all">("all");
-  const [priorityFilter, setPriorityFilter] = useState<Priority | "all">("all");
-
-  const filteredIssues = useMemo(() => {
-    return issues.filter((issue) => {
-      const matchesSearch =
-        issue.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        issue.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        issue.submittedBy.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        issue.tags.some((tag) =>
-          tag.toLowerCase().includes(searchTerm.toLowerCase()),
-        );
-
-      const matchesStatus =
-        statusFilter === "all" || issue.status === statusFilter;
-      const matchesType = typeFilter === "all" || issue.type === typeFilter;
-      const matchesPriority =
-        priorityFilter === "all" || issue.priority === priorityFilter;
-
-      return matchesSearch && matchesStatus && matchesType && matchesPriority;
+  const pageIssues = page?.issues ?? [];
+
+  // Selected issues stay selected across pages and groups, but not when
+  // the filters change
+  const [selection, setSelection] = useState({
+    listKey,
+    issues: new Map<string, Issue>(),
+  });
+  const selectedIssues =
+    selection.listKey === listKey ? selection.issues : new Map<string, Issue>();
+  const allOnPageSelected =
+    pageIssues.length > 0 &&
+    pageIssues.every((issue) => selectedIssues.has(issue.id));
+
+  const updateSelection = (update: (issues: Map<string, Issue>) => void) => {
+    const issues = new Map(selectedIssues);
+    update(issues);
+    setSelection({ listKey, issues });
+  };
+
+  const toggleIssue = (issue: Issue, checked: boolean) =>
+    updateSelection((issues) =>
+      checked ? issues.set(issue.id, issue) : issues.delete(issue.id),
+    );
+
+  const togglePage = (checked: boolean) =>
+    updateSelection((issues) =>
+      pageIssues.forEach((issue) =>
+        checked ? issues.set(issue.id, issue) : issues.delete(issue.id),
+      ),
+    );
+  const groups = page?.groups ?? [];
+  const total = page?.total ?? 0;
+  const activeTotal =
+    activeGroup === "all"
+      ? total
+      : (groups.find((group) => group.key === activeGroup)?.count ?? 0);
+  const firstShown = cursors.length * ISSUE_PAGE_SIZE + 1;
+
+  const suggestionSources = useMemo(
+    () => ({
+      tags: [...new Set(pageIssues.flatMap((issue) => issue.tags))].sort(),
+      userNames: users.map((user) => user.name),
+    }),
+    [pageIssues, users],
+  );
+
+  const goToNextPage = () => {
+    if (!page?.nextCursor) return;
+    setPagination({
+      listKey,
+      activeGroup,
+      cursors: [...cursors, page.nextCursor],
     });
-  }, [issues, searchTerm, statusFilter, typeFilter, priorityFilter]);
+    window.scrollTo({ top: 0 });
+  };
+
+  const goToPreviousPage = () => {
+    setPagination({ listKey, activeGroup, cursors: cursors.slice(0, -1) });
+    window.scrollTo({ top: 0 });
+  };
 
   const getStatusIcon = (status: ResolutionStatus) => {
     switch (status) {
@@ -116,52 +252,68 @@ export default function IssuesList({
     }
   };
 
-  const issuesByStatus = useMemo(() => {
-    const grouped = filteredIssues.reduce(
-      (acc, issue) => {
-        if (!acc[issue.status]) {
-          acc[issue.status] = [];
-        }
-        acc[issue.status].push(issue);
-        return acc;
-      },
-      {} as Record<ResolutionStatus, Issue[]>,
-    );
-
-    // Sort each group by date
-    Object.keys(grouped).forEach((status) => {
-      grouped[status as ResolutionStatus].sort(
-        (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
-      );
-    });
-
-    return grouped;
-  }, [filteredIssues]);
-
   return (
     <div className="space-y-6">
       {/* Filters */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="text-xl font-bold">Issues Overview</CardTitle>
+          <div className="flex items-center space-x-4">
+            <ExportMenu filters={filters} />
+            <div
+              className="flex items-center space-x-1"
+              role="group"
+              aria-label="Layout"
+            >
+              <Button
+                variant={layout === "list" ? "default" : "outline"}
+                size="sm"
+                aria-pressed={layout === "list"}
+                onClick={() => updateFilters({ layout: "list" })}
+              >
+                <List className="h-4 w-4 mr-1" />
+                List
+              </Button>
+              <Button
+                variant={layout === "board" ? "default" : "outline"}
+                size="sm"
+                aria-pressed={layout === "board"}
+                onClick={() => updateFilters({ layout: "board" })}
+              >
+                <Columns3 className="h-4 w-4 mr-1" />
+                Board
+              </Button>
+              <Button
+                variant={layout === "table" ? "default" : "outline"}
+                size="sm"
+                aria-pressed={layout === "table"}
+                onClick={() => updateFilters({ layout: "table" })}
+              >
+                <Table2 className="h-4 w-4 mr-1" />
+                Table
+              </Button>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
             <div className="lg:col-span-2">
-              <div className="relative">
-                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search issues..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
+              <SearchQueryInput
+                value={searchTerm}
+                onChange={(search) => updateFilters({ search })}
+                sources={suggestionSources}
+                placeholder='Search, e.g. status:open priority:>=high "login error"'
+              />
+              {searchQuery.errors.map((error) => (
+                <p key={error} className="mt-1 text-sm text-red-500">
+                  {error}
+                </p>
+              ))}
             </div>
             <Select
               value={statusFilter}
               onValueChange={(value) =>
-                setStatusFilter(value as ResolutionStatus | "all")
+                updateFilters({ status: value as ResolutionStatus | "all" })
               }
             >
               <SelectTrigger>
@@ -178,7 +330,7 @@ export default function IssuesList({
             <Select
               value={typeFilter}
               onValueChange={(value) =>
-                setTypeFilter(value as IssueType | "all")
+                updateFilters({ type: value as IssueType | "all" })
               }
             >
               <SelectTrigger>
@@ -194,7 +346,7 @@ export default function IssuesList({
             <Select
               value={priorityFilter}
               onValueChange={(value) =>
-                setPriorityFilter(value as Priority | "all")
+                updateFilters({ priority: value as Priority | "all" })
               }
             >
               <SelectTrigger>
@@ -208,105 +360,312 @@ export default function IssuesList({
                 <SelectItem value="urgent">Urgent</SelectItem>
               </SelectContent>
             </Select>
+            <Select
+              value={slaFilter}
+              onValueChange={(value) =>
+                updateFilters({ sla: value as SlaFilter })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="SLA" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any SLA</SelectItem>
+                <SelectItem value="at-risk">SLA at risk</SelectItem>
+                <SelectItem value="breached">SLA breached</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 mt-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="assigned-to-me"
+                checked={assignedToMe}
+                onCheckedChange={(checked) =>
+                  updateFilters({ assignedToMe: checked })
+                }
+              />
+              <Label htmlFor="assigned-to-me">My assigned issues</Label>
+            </div>
+            <div className="flex items-center space-x-2 sm:ml-auto">
+              <Label className="text-sm text-muted-foreground">Sort by</Label>
+              <Select
+                value={sortKey}
+                onValueChange={(value) => {
+                  const sort = value as IssueSortKey;
+                  updateFilters({
+                    sort,
+                    sortDirection: SORT_OPTIONS[sort].defaultDirection,
+                  });
+                }}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                    <SelectItem key={key} value={key}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                title={sortDirection === "asc" ? "Ascending" : "Descending"}
+                onClick={() =>
+                  updateFilters({
+                    sortDirection: sortDirection === "asc" ? "desc" : "asc",
+                  })
+                }
+              >
+                {sortDirection === "asc" ? (
+                  <ArrowUpNarrowWide className="h-4 w-4" />
+                ) : (
+                  <ArrowDownWideNarrow className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+            {layout !== "board" && (
+              <div className="flex items-center space-x-2">
+                <Label className="text-sm text-muted-foreground">
+                  Group by
+                </Label>
+                <Select
+                  value={groupBy}
+                  onValueChange={(value) =>
+                    updateFilters({ groupBy: value as IssueGroupKey })
+                  }
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(GROUP_OPTIONS).map(([key, label]) => (
+                      <SelectItem key={key} value={key}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
 
-      {/* Issues Statistics */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        {Object.entries(issuesByStatus).map(([status, statusIssues]) => (
-          <Card key={status}>
-            <CardContent className="p-4">
-              <div className="flex items-center space-x-2">
-                {getStatusIcon(status as ResolutionStatus)}
-                <div>
-                  <p className="text-2xl font-bold">{statusIssues.length}</p>
-                  <p className="text-sm text-muted-foreground capitalize">
-                    {status.replace("-", " ")}
-                  </p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-
-      {/* Issues List */}
-      <Tabs defaultValue="all" className="w-full">
-        <TabsList>
-          <TabsTrigger value="all">
-            All Issues ({filteredIssues.length})
-          </TabsTrigger>
-          <TabsTrigger value="open">
-            Open ({issuesByStatus.open?.length || 0})
-          </TabsTrigger>
-          <TabsTrigger value="in-progress">
-            In Progress ({issuesByStatus["in-progress"]?.length || 0})
-          </TabsTrigger>
-          <TabsTrigger value="resolved">
-            Resolved ({issuesByStatus.resolved?.length || 0})
-          </TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="all" className="space-y-4">
-          {filteredIssues.length === 0 ? (
-            <Card>
-              <CardContent className="p-8 text-center">
-                <p className="text-muted-foreground">
-                  No issues found matching your criteria.
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-4">
-              {filteredIssues.map((issue) => (
-                <IssueCard
-                  key={issue.id}
-                  issue={issue}
-                  onClick={() => onIssueClick(issue)}
+      {layout === "board" ? (
+        <IssueBoard
+          filters={filters}
+          onIssueClick={onIssueClick}
+          onStatusChange={onStatusChange}
+          onShowAll={(status) => updateFilters({ layout: "list", status })}
+        />
+      ) : (
+        <>
+          {/* Issues Statistics */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {groups.map((group) => (
+              <Card key={group.key}>
+                <CardContent className="p-4">
+                  <div className="flex items-center space-x-2">
+                    {groupBy === "status" ? (
+                      getStatusIcon(group.key as ResolutionStatus)
+                    ) : (
+                      <Layers className="h-4 w-4" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-2xl font-bold">{group.count}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {group.label}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {selectedIssues.size > 0 && (
+            <BulkActionBar
+              issues={[...selectedIssues.values()]}
+              onClear={() => updateSelection((issues) => issues.clear())}
+              onComplete={(failedIds) =>
+                updateSelection((issues) =>
+                  [...issues.keys()]
+                    .filter((id) => !failedIds.includes(id))
+                    .forEach((id) => issues.delete(id)),
+                )
+              }
+            />
+          )}
+
+          {/* Issues List */}
+          <Tabs
+            value={activeGroup}
+            onValueChange={(key) => setSelectedGroup({ groupBy, key })}
+            className="w-full"
+          >
+            <TabsList className="h-auto flex-wrap justify-start">
+              <TabsTrigger value="all">All Issues ({total})</TabsTrigger>
+              {groups.map((group) => (
+                <TabsTrigger key={group.key} value={group.key}>
+                  {group.label} ({group.count})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            <TabsContent
+              value={activeGroup}
+              className={cn("space-y-4", isPlaceholderData && "opacity-60")}
+            >
+              {isLoading ? (
+                <Card>
+                  <CardContent className="p-8 text-center">
+                    <p className="text-muted-foreground">Loading issues...</p>
+                  </CardContent>
+                </Card>
+              ) : isError && !page ? (
+                <Card>
+                  <CardContent className="p-8 text-center">
+                    <p className="text-muted-foreground">
+                      Issues could not be loaded. Please try again.
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : pageIssues.length === 0 ? (
+                <Card>
+                  <CardContent className="p-8 text-center">
+                    <p className="text-muted-foreground">
+                      No issues found matching your criteria.
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : layout === "table" ? (
+                <IssueTable
+                  issues={pageIssues}
+                  sort={sortKey}
+                  sortDirection={sortDirection}
+                  onSort={(sort, sortDirection) =>
+                    updateFilters({ sort, sortDirection })
+                  }
+                  isSelected={(issueId) => selectedIssues.has(issueId)}
+                  onSelectedChange={toggleIssue}
+                  allSelected={allOnPageSelected}
+                  onAllSelectedChange={togglePage}
+                  onIssueClick={onIssueClick}
                   onStatusChange={onStatusChange}
+                  onPriorityChange={onPriorityChange}
                 />
-              ))}
-            </div>
-          )}
-        </TabsContent>
-
-        {Object.entries(issuesByStatus).map(([status, statusIssues]) => (
-          <TabsContent key={status} value={status} className="space-y-4">
-            {statusIssues.length === 0 ? (
-              <Card>
-                <CardContent className="p-8 text-center">
-                  <p className="text-muted-foreground">
-                    No {status.replace("-", " ")} issues.
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex items-center space-x-2 px-1">
+                    <Checkbox
+                      id="select-page"
+                      checked={allOnPageSelected}
+                      onCheckedChange={(checked) =>
+                        togglePage(checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor="select-page"
+                      className="text-sm text-muted-foreground"
+                    >
+                      Select all on this page
+                    </Label>
+                  </div>
+                  {pageIssues.map((issue) => (
+                    <IssueCard
+                      key={issue.id}
+                      issue={issue}
+                      selected={selectedIssues.has(issue.id)}
+                      onSelectedChange={(checked) =>
+                        toggleIssue(issue, checked)
+                      }
+                      onClick={() => onIssueClick(issue)}
+                      onStatusChange={onStatusChange}
+                      onAssign={onAssign}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {(cursors.length > 0 || page?.nextCursor) && (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    Showing {firstShown}–{firstShown + pageIssues.length - 1} of{" "}
+                    {activeTotal}
                   </p>
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="space-y-4">
-                {statusIssues.map((issue) => (
-                  <IssueCard
-                    key={issue.id}
-                    issue={issue}
-                    onClick={() => onIssueClick(issue)}
-                    onStatusChange={onStatusChange}
-                  />
-                ))}
-              </div>
-            )}
-          </TabsContent>
-        ))}
-      </Tabs>
+                  <Pagination className="mx-0 w-auto">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious
+                          href="#"
+                          aria-disabled={cursors.length === 0}
+                          className={cn(
+                            cursors.length === 0 &&
+                              "pointer-events-none opacity-50",
+                          )}
+                          onClick={(event) => {
+                            event.preventDefault();
+                            goToPreviousPage();
+                          }}
+                        />
+                      </PaginationItem>
+                      <PaginationItem>
+                        <PaginationNext
+                          href="#"
+                          aria-disabled={!page?.nextCursor}
+                          className={cn(
+                            !page?.nextCursor &&
+                              "pointer-events-none opacity-50",
+                          )}
+                          onClick={(event) => {
+                            event.preventDefault();
+                            goToNextPage();
+                          }}
+                        />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
     </div>
   );
 }
 
 interface IssueCardProps {
   issue: Issue;
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
   onClick: () => void;
-  onStatusChange: (issueId: string, status: ResolutionStatus) => void;
+  onStatusChange: (
+    issueId: string,
+    status: ResolutionStatus,
+    fields?: TransitionFields,
+  ) => void;
+  onAssign: (issueId: string, assigneeId: string | null) => void;
 }
 
-function IssueCard({ issue, onClick, onStatusChange }: IssueCardProps) {
+function IssueCard({
+  issue,
+  selected,
+  onSelectedChange,
+  onClick,
+  onStatusChange,
+  onAssign,
+}: IssueCardProps) {
+  const getUser = useUserLookup();
+  const submitter = getUser(issue.submittedBy);
+  const submitterName = submitter?.name ?? "Unknown user";
+  const { can } = usePermissions();
+  const assignee = issue.assigneeId ? getUser(issue.assigneeId) : undefined;
+
   const getStatusIcon = (status: ResolutionStatus) => {
     switch (status) {
       case "open":
@@ -358,9 +717,20 @@ function IssueCard({ issue, onClick, onStatusChange }: IssueCardProps) {
   };
 
   return (
-    <Card className="cursor-pointer hover:shadow-md transition-shadow">
+    <Card
+      className={cn(
+        "cursor-pointer hover:shadow-md transition-shadow",
+        selected && "ring-2 ring-primary",
+      )}
+    >
       <CardContent className="p-6">
         <div className="flex items-start justify-between">
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            aria-label={`Select "${issue.title}"`}
+            className="mt-1 mr-4"
+          />
           <div className="flex-1 min-w-0" onClick={onClick}>
             <div className="flex items-center space-x-2 mb-2">
               <Badge
@@ -386,6 +756,7 @@ function IssueCard({ issue, onClick, onStatusChange }: IssueCardProps) {
               >
                 {issue.priority.toUpperCase()}
               </span>
+              <SlaBadge issue={issue} />
             </div>
 
             <h3 className="text-lg font-semibold mb-2 truncate">
@@ -399,13 +770,13 @@ function IssueCard({ issue, onClick, onStatusChange }: IssueCardProps) {
               <div className="flex items-center space-x-1">
                 <Avatar className="h-5 w-5">
                   <AvatarFallback className="text-xs">
-                    {issue.submittedBy
+                    {submitterName
                       .split(" ")
                       .map((n) => n[0])
                       .join("")}
                   </AvatarFallback>
                 </Avatar>
-                <span>{issue.submittedBy}</span>
+                <span>{submitterName}</span>
               </div>
               <div className="flex items-center space-x-1">
                 <Calendar className="h-4 w-4" />
@@ -415,6 +786,10 @@ function IssueCard({ issue, onClick, onStatusChange }: IssueCardProps) {
                 <Clock className="h-4 w-4" />
                 <span>{format(issue.updatedAt, "MMM d, HH:mm")}</span>
               </div>
+              <div className="flex items-center space-x-1">
+                <UserCheck className="h-4 w-4" />
+                <span>{assignee?.name ?? "Unassigned"}</span>
+              </div>
               {issue.mediaFiles.length > 0 && (
                 <div className="flex items-center space-x-1">
                   <Paperclip className="h-4 w-4" />
@@ -435,22 +810,22 @@ function IssueCard({ issue, onClick, onStatusChange }: IssueCardProps) {
           </div>
 
           <div className="flex flex-col space-y-2 ml-4">
-            <Select
-              value={issue.status}
-              onValueChange={(value) =>
-                onStatusChange(issue.id, value as ResolutionStatus)
+            <StatusSelect
+              issue={issue}
+              onChange={(status, fields) =>
+                onStatusChange(issue.id, status, fields)
               }
-            >
-              <SelectTrigger className="w-32">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="open">Open</SelectItem>
-                <SelectItem value="in-progress">In Progress</SelectItem>
-                <SelectItem value="resolved">Resolved</SelectItem>
-                <SelectItem value="closed">Closed</SelectItem>
-              </SelectContent>
-            </Select>
+              disabled={!can("issue.change-status")}
+              className="w-32"
+            />
+
+            {can("issue.reassign") && (
+              <AssigneeSelect
+                value={issue.assigneeId}
+                onChange={(assigneeId) => onAssign(issue.id, assigneeId)}
+                className="w-32"
+              />
+            )}
 
             <Button variant="outline" size="sm" onClick={onClick}>
               <MessageSquare className="h-4 w-4 mr-1" />
@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AtSign,
+  Bell,
+  CheckCheck,
+  MessageSquare,
+  RefreshCw,
+  UserCheck,
+} from "lucide-react";
+import {
+  useInbox,
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+} from "@/hooks/use-notifications";
+import {
+  InboxNotificationType,
+  describeInboxNotification,
+} from "@/lib/notifications";
+import { InboxNotification } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const TYPE_ICONS: Record<InboxNotificationType, typeof Bell> = {
+  mention: AtSign,
+  assignment: UserCheck,
+  "status-change": RefreshCw,
+  reply: MessageSquare,
+};
+
+// Bell with the unread count that opens the signed-in user's inbox.
+// Opening an entry marks it read and goes to the issue's conversation.
+export default function NotificationCenter() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const { data: inbox } = useInbox();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = inbox?.notifications ?? [];
+  const unreadCount = inbox?.unreadCount ?? 0;
+
+  const openNotification = (notification: InboxNotification) => {
+    if (!notification.readAt) {
+      markRead.mutate({ id: notification.id, read: true });
+    }
+    setOpen(false);
+    navigate(`/issues/${notification.issueId}/chat`);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          title="Notifications"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px] leading-none">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="font-medium">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unreadCount === 0 || markAllRead.isPending}
+            onClick={() => markAllRead.mutate()}
+          >
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Mark all read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-8 text-center text-sm text-muted-foreground">
+            You're all caught up. Mentions, assignments and updates on issues
+            you submitted or follow show up here.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type];
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    "flex w-full items-start space-x-3 border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted/50",
+                    !notification.readAt && "bg-primary/5",
+                  )}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="text-sm">
+                      {describeInboxNotification(notification)}
+                    </p>
+                    <p className="truncate text-sm font-medium">
+                      {notification.issueTitle}
+                    </p>
+                    {notification.excerpt && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">
+                        {notification.excerpt}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(notification.createdAt, {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  </div>
+                  {!notification.readAt && (
+                    <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,85 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useNotificationSettings,
+  useUpdateNotificationPreferences,
+} from "@/hooks/use-notifications";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  DEFAULT_EMAIL_PREFERENCES,
+  NOTIFICATION_EVENTS,
+  NotificationEvent,
+} from "@/lib/notifications";
+
+interface NotificationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets the signed-in user choose which issue events they are emailed about
+export default function NotificationSettingsDialog({
+  open,
+  onOpenChange,
+}: NotificationSettingsDialogProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { data: settings } = useNotificationSettings();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const email = settings?.preferences.email ?? DEFAULT_EMAIL_PREFERENCES;
+  // Only staff hear about new issues
+  const events = NOTIFICATION_EVENTS.filter(
+    ({ id }) => id !== "issue.created" || can("issue.reassign"),
+  );
+
+  const toggle = (event: NotificationEvent, enabled: boolean) =>
+    updatePreferences
+      .mutateAsync({ email: { ...email, [event]: enabled } })
+      .catch((error) =>
+        toast({
+          title: "Could not update your notifications",
+          description: error instanceof Error ? error.message : undefined,
+          variant: "destructive",
+        }),
+      );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Email notifications</DialogTitle>
+          <DialogDescription>
+            {settings && !settings.emailEnabled
+              ? "Email is not set up on this server yet. Your choices apply once it is."
+              : "Choose which issue updates are sent to your email address."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {events.map(({ id, label, description }) => (
+            <div key={id} className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor={`notify-${id}`}>{label}</Label>
+                <p className="text-sm text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={`notify-${id}`}
+                checked={email[id]}
+                disabled={!settings || updatePreferences.isPending}
+                onCheckedChange={(checked) => toggle(id, checked)}
+              />
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
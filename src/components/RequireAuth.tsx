@@ -0,0 +1,41 @@
+import React from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+}
+
+// Render children only for signed-in users; everyone else goes to /login
+export default function RequireAuth({ children }: RequireAuthProps) {
+  const location = useLocation();
+  const { user, isLoading, isError } = useCurrentUser();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        Loading...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        Unable to reach the server. Please try again later.
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Navigate
+        to="/login"
+        replace
+        state={{ from: location.pathname + location.search }}
+      />
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,382 @@
+import React, { useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Bookmark,
+  Home,
+  List,
+  MoreHorizontal,
+  Pin,
+  Plus,
+  Star,
+  Users,
+} from "lucide-react";
+import { SavedView, ViewPreferences } from "@/lib/types";
+import { isSameListQuery } from "@/lib/issueFilters";
+import { cn } from "@/lib/utils";
+import {
+  useCreateSavedView,
+  useDeleteSavedView,
+  useSavedViews,
+  useUpdateSavedView,
+  useUpdateViewPreferences,
+  useViewPreferences,
+} from "@/hooks/use-saved-views";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useToast } from "@/hooks/use-toast";
+
+const NO_PREFERENCES: ViewPreferences = {
+  pinnedViewIds: [],
+  defaultViewId: null,
+  tableColumns: null,
+};
+
+// Saved issue list views: pinned ones first, then every view the user can
+// see, plus a button to save the current filters as a new view
+export default function SavedViewsSidebar() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user: currentUser } = useCurrentUser();
+  const { data: views = [] } = useSavedViews();
+  const { data: preferences = NO_PREFERENCES } = useViewPreferences();
+  const createView = useCreateSavedView();
+  const updateView = useUpdateSavedView();
+  const deleteView = useDeleteSavedView();
+  const updatePreferences = useUpdateViewPreferences();
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+
+  const currentQuery = location.search.replace(/^\?/, "");
+  const pinnedViews = preferences.pinnedViewIds
+    .map((id) => views.find((view) => view.id === id))
+    .filter(Boolean);
+
+  const reportError = (title: string) => (error: unknown) =>
+    toast({
+      title,
+      description: error instanceof Error ? error.message : undefined,
+      variant: "destructive",
+    });
+
+  const openView = (view: SavedView) =>
+    navigate(`/issues${view.query ? `?${view.query}` : ""}`);
+
+  const savePreferences = (changes: Partial<ViewPreferences>) =>
+    updatePreferences
+      .mutateAsync({ ...preferences, ...changes })
+      .catch(reportError("Could not update your views"));
+
+  const togglePinned = (view: SavedView) =>
+    savePreferences({
+      pinnedViewIds: preferences.pinnedViewIds.includes(view.id)
+        ? preferences.pinnedViewIds.filter((id) => id !== view.id)
+        : [...preferences.pinnedViewIds, view.id],
+    });
+
+  const toggleDefault = (view: SavedView) =>
+    savePreferences({
+      defaultViewId: preferences.defaultViewId === view.id ? null : view.id,
+    });
+
+  const handleCreate = async (input: {
+    name: string;
+    shared: boolean;
+    pinned: boolean;
+    isDefault: boolean;
+  }) => {
+    try {
+      const view = await createView.mutateAsync({
+        name: input.name,
+        query: currentQuery,
+        shared: input.shared,
+      });
+      if (input.pinned || input.isDefault) {
+        await savePreferences({
+          pinnedViewIds: input.pinned
+            ? [...preferences.pinnedViewIds, view.id]
+            : preferences.pinnedViewIds,
+          defaultViewId: input.isDefault ? view.id : preferences.defaultViewId,
+        });
+      }
+      setIsSaveDialogOpen(false);
+      toast({ title: `Saved view "${view.name}"` });
+    } catch (error) {
+      reportError("Could not save view")(error);
+    }
+  };
+
+  const renderView = (view: SavedView, key: string) => {
+    const isOwner = view.ownerId === currentUser?.id;
+    const isActive = isSameListQuery(view.query, currentQuery);
+    const isPinned = preferences.pinnedViewIds.includes(view.id);
+    const isDefault = preferences.defaultViewId === view.id;
+
+    return (
+      <div
+        key={key}
+        className={cn(
+          "group flex items-center rounded-md text-sm",
+          isActive ? "bg-primary/10 font-medium" : "hover:bg-muted",
+        )}
+      >
+        <button
+          type="button"
+          className="flex flex-1 items-center space-x-2 truncate px-2 py-1.5 text-left"
+          onClick={() => openView(view)}
+        >
+          <Bookmark className="h-4 w-4 shrink-0" />
+          <span className="truncate">{view.name}</span>
+          {isDefault && (
+            <Star className="h-3 w-3 shrink-0 fill-current text-yellow-500" />
+          )}
+          {view.shared && (
+            <Users className="h-3 w-3 shrink-0 text-muted-foreground" />
+          )}
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => togglePinned(view)}>
+              {isPinned ? "Unpin" : "Pin to sidebar"}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => toggleDefault(view)}>
+              {isDefault ? "Stop using as default" : "Use as my default"}
+            </DropdownMenuItem>
+            {isOwner && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() =>
+                    updateView
+                      .mutateAsync({
+                        id: view.id,
+                        changes: { query: currentQuery },
+                      })
+                      .catch(reportError("Could not update view"))
+                  }
+                >
+                  Replace with current filters
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() =>
+                    updateView
+                      .mutateAsync({
+                        id: view.id,
+                        changes: { shared: !view.shared },
+                      })
+                      .catch(reportError("Could not update view"))
+                  }
+                >
+                  {view.shared ? "Stop sharing" : "Share with team"}
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="text-red-600"
+                  onClick={() =>
+                    deleteView
+                      .mutateAsync(view.id)
+                      .catch(reportError("Could not delete view"))
+                  }
+                >
+                  Delete
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Views</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <button
+          type="button"
+          className={cn(
+            "flex w-full items-center space-x-2 rounded-md px-2 py-1.5 text-left text-sm",
+            !currentQuery ? "bg-primary/10 font-medium" : "hover:bg-muted",
+          )}
+          onClick={() => navigate("/issues")}
+        >
+          <Home className="h-4 w-4" />
+          <span>All issues</span>
+        </button>
+
+        {pinnedViews.length > 0 && (
+          <div className="space-y-1">
+            <p className="flex items-center px-2 text-xs font-medium uppercase text-muted-foreground">
+              <Pin className="mr-1 h-3 w-3" />
+              Pinned
+            </p>
+            {pinnedViews.map((view) => renderView(view, `pinned-${view.id}`))}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <p className="flex items-center px-2 text-xs font-medium uppercase text-muted-foreground">
+            <List className="mr-1 h-3 w-3" />
+            All views
+          </p>
+          {views.map((view) => renderView(view, view.id))}
+          {views.length === 0 && (
+            <p className="px-2 text-sm text-muted-foreground">
+              No saved views yet.
+            </p>
+          )}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => setIsSaveDialogOpen(true)}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Save current view
+        </Button>
+      </CardContent>
+
+      <SaveViewDialog
+        open={isSaveDialogOpen}
+        onOpenChange={setIsSaveDialogOpen}
+        onSave={handleCreate}
+        isSaving={createView.isPending}
+      />
+    </Card>
+  );
+}
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: {
+    name: string;
+    shared: boolean;
+    pinned: boolean;
+    isDefault: boolean;
+  }) => void;
+  isSaving: boolean;
+}
+
+function SaveViewDialog({
+  open,
+  onOpenChange,
+  onSave,
+  isSaving,
+}: SaveViewDialogProps) {
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [pinned, setPinned] = useState(true);
+  const [isDefault, setIsDefault] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName("");
+      setShared(false);
+      setPinned(true);
+      setIsDefault(false);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save view</DialogTitle>
+          <DialogDescription>
+            Save the current search and filters so you can come back to them in
+            one click.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (name.trim()) {
+              onSave({ name: name.trim(), shared, pinned, isDefault });
+            }
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Urgent technical issues"
+              maxLength={80}
+              autoFocus
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="view-pinned"
+              checked={pinned}
+              onCheckedChange={setPinned}
+            />
+            <Label htmlFor="view-pinned">Pin to sidebar</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="view-default"
+              checked={isDefault}
+              onCheckedChange={setIsDefault}
+            />
+            <Label htmlFor="view-default">Open this view by default</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="view-shared"
+              checked={shared}
+              onCheckedChange={setShared}
+            />
+            <Label htmlFor="view-shared">Share with the team</Label>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              {isSaving ? "Saving..." : "Save view"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
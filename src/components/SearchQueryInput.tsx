@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from "react";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  SuggestionSources,
+  applySearchSuggestion,
+  getSearchSuggestions,
+} from "@/lib/searchSuggestions";
+import { cn } from "@/lib/utils";
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  sources?: SuggestionSources;
+  placeholder?: string;
+  className?: string;
+}
+
+// Search box for the issue query language with completions for field
+// names and values. Arrow keys move through suggestions and Enter or Tab
+// picks one.
+export default function SearchQueryInput({
+  value,
+  onChange,
+  sources,
+  placeholder,
+  className,
+}: SearchQueryInputProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const [selected, setSelected] = useState("");
+
+  const suggestions = useMemo(
+    () => getSearchSuggestions(value, sources),
+    [value, sources],
+  );
+  const showSuggestions = isFocused && suggestions.length > 0;
+
+  const pick = (label: string) => {
+    const suggestion = suggestions.find((item) => item.label === label);
+    if (suggestion) onChange(applySearchSuggestion(value, suggestion));
+  };
+
+  return (
+    <Command
+      shouldFilter={false}
+      value={selected}
+      onValueChange={setSelected}
+      className={cn("relative overflow-visible border", className)}
+      onKeyDown={(event) => {
+        if (event.key === "Tab" && showSuggestions && selected) {
+          event.preventDefault();
+          pick(selected);
+        }
+        if (event.key === "Escape") {
+          setIsFocused(false);
+        }
+      }}
+    >
+      <CommandInput
+        value={value}
+        onValueChange={onChange}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        placeholder={placeholder}
+        className="h-10"
+      />
+      {showSuggestions && (
+        <CommandList className="absolute top-full left-0 right-0 z-50 mt-1 rounded-md border bg-popover shadow-md">
+          <CommandGroup>
+            {suggestions.map((suggestion) => (
+              <CommandItem
+                key={suggestion.label}
+                value={suggestion.label}
+                // Keep focus in the input while clicking a suggestion
+                onMouseDown={(event) => event.preventDefault()}
+                onSelect={pick}
+              >
+                <span className="font-mono text-sm">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                    {suggestion.description}
+                  </span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      )}
+    </Command>
+  );
+}
@@ -0,0 +1,63 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Timer } from "lucide-react";
+import { format, formatDistanceStrict } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Issue } from "@/lib/types";
+import { SlaState, SlaTarget, getIssueSla } from "@/lib/sla";
+import { useNow } from "@/hooks/use-now";
+import { useBusinessCalendar } from "@/hooks/use-business-calendar";
+
+const STATE_CLASSES: Record<SlaState, string> = {
+  "on-track": "text-muted-foreground",
+  "at-risk":
+    "bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300",
+  breached: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300",
+  met: "text-muted-foreground",
+};
+
+interface SlaBadgeProps {
+  issue: Issue;
+}
+
+// Countdown to the issue's next SLA deadline, or a breach marker once a
+// deadline was missed. Finished issues that met their SLA show nothing.
+export default function SlaBadge({ issue }: SlaBadgeProps) {
+  const now = useNow();
+  const calendar = useBusinessCalendar();
+  const sla = getIssueSla(issue, now, calendar);
+
+  const [label, target]: [string, SlaTarget] = !sla.response.completedAt
+    ? ["Response", sla.response]
+    : ["Resolution", sla.resolution];
+
+  if (target.completedAt) {
+    return sla.state === "breached" ? (
+      <Badge
+        variant="outline"
+        className={cn("status-badge", STATE_CLASSES.breached)}
+        title="A response or resolution deadline was missed"
+      >
+        <Timer className="h-3 w-3 mr-1" />
+        SLA breached
+      </Badge>
+    ) : null;
+  }
+
+  const distance = formatDistanceStrict(target.dueAt, now);
+  return (
+    <Badge
+      variant="outline"
+      className={cn("status-badge", STATE_CLASSES[target.state])}
+      title={`${label} due ${format(target.dueAt, "MMM d, HH:mm")}; ${Math.min(
+        target.elapsedHours,
+        target.hours,
+      ).toFixed(1)} of ${target.hours} business hours used`}
+    >
+      <Timer className="h-3 w-3 mr-1" />
+      {target.state === "breached"
+        ? `${label} overdue by ${distance}`
+        : `${label} due in ${distance}`}
+    </Badge>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Issue, ResolutionStatus } from "@/lib/types";
+import {
+  TransitionFields,
+  WorkflowTransition,
+  getAvailableTransitions,
+  getStatusLabel,
+} from "@/lib/workflow";
+import TransitionDialog from "./TransitionDialog";
+
+interface StatusSelectProps {
+  issue: Pick<Issue, "type" | "status" | "resolutionNote">;
+  onChange: (status: ResolutionStatus, fields: TransitionFields) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Offers only the statuses the issue's workflow allows next, and asks for
+// any fields the chosen transition requires before applying it
+export default function StatusSelect({
+  issue,
+  onChange,
+  disabled,
+  className,
+}: StatusSelectProps) {
+  const [pending, setPending] = useState<WorkflowTransition | null>(null);
+  const transitions = getAvailableTransitions(issue);
+
+  const handleSelect = (value: string) => {
+    const transition = transitions.find(({ to }) => to === value);
+    if (!transition) return;
+
+    if (transition.requires?.length) {
+      setPending(transition);
+    } else {
+      onChange(transition.to, {});
+    }
+  };
+
+  return (
+    <>
+      <Select
+        value={issue.status}
+        onValueChange={handleSelect}
+        disabled={disabled || transitions.length === 0}
+      >
+        <SelectTrigger className={className}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={issue.status}>
+            {getStatusLabel(issue.status)}
+          </SelectItem>
+          {transitions.map(({ to }) => (
+            <SelectItem key={to} value={to}>
+              {getStatusLabel(to)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <TransitionDialog
+        transition={pending}
+        initialResolutionNote={issue.resolutionNote}
+        onConfirm={(fields) => {
+          onChange(pending.to, fields);
+          setPending(null);
+        }}
+        onCancel={() => setPending(null)}
+      />
+    </>
+  );
+}
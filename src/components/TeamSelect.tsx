@@ -0,0 +1,48 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TEAMS } from "@/lib/assignment";
+
+// Radix Select items cannot have an empty value
+const NO_TEAM = "none";
+
+interface TeamSelectProps {
+  value: string | null | undefined;
+  onChange: (team: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function TeamSelect({
+  value,
+  onChange,
+  disabled,
+  className,
+}: TeamSelectProps) {
+  return (
+    <Select
+      value={value || NO_TEAM}
+      onValueChange={(selected) =>
+        onChange(selected === NO_TEAM ? null : selected)
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Team" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TEAM}>No team</SelectItem>
+        {TEAMS.map((team) => (
+          <SelectItem key={team.id} value={team.id}>
+            {team.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
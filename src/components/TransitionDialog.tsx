@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  TransitionFields,
+  WorkflowTransition,
+  getStatusLabel,
+} from "@/lib/workflow";
+
+interface TransitionDialogProps {
+  // The transition waiting for its required fields; null closes the dialog
+  transition: WorkflowTransition | null;
+  initialResolutionNote?: string | null;
+  onConfirm: (fields: TransitionFields) => void;
+  onCancel: () => void;
+}
+
+// Asks for the fields a workflow transition requires before it is applied
+export default function TransitionDialog({
+  transition,
+  initialResolutionNote,
+  onConfirm,
+  onCancel,
+}: TransitionDialogProps) {
+  const [resolutionNote, setResolutionNote] = useState("");
+
+  useEffect(() => {
+    if (transition) setResolutionNote(initialResolutionNote ?? "");
+  }, [transition, initialResolutionNote]);
+
+  return (
+    <Dialog
+      open={transition !== null}
+      onOpenChange={(open) => !open && onCancel()}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Move to "{transition && getStatusLabel(transition.to)}"
+          </DialogTitle>
+          <DialogDescription>
+            Explain how the issue was handled. The note is shared with the
+            submitter in the issue thread.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="resolution-note">Resolution note</Label>
+          <Textarea
+            id="resolution-note"
+            value={resolutionNote}
+            onChange={(event) => setResolutionNote(event.target.value)}
+            placeholder="e.g. Fixed in the 2.3.1 release"
+            rows={4}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm({ resolutionNote: resolutionNote.trim() })}
+            disabled={!resolutionNote.trim()}
+          >
+            Change status
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
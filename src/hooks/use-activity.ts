@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { ActivityEntry } from "@/lib/types";
+import { fetchIssueActivity } from "@/lib/activityApi";
+
+export const activityKeys = {
+  issue: (issueId: string) => ["activity", issueId] as const,
+};
+
+// Entries arriving over the live connection are appended once; the
+// server may replay events we already have after a reconnect
+export const appendActivityEntry = (
+  entries: ActivityEntry[] | undefined,
+  entry: ActivityEntry,
+) =>
+  !entries || entries.some((existing) => existing.id === entry.id)
+    ? entries
+    : [...entries, entry];
+
+export function useIssueActivity(issueId: string) {
+  return useQuery({
+    queryKey: activityKeys.issue(issueId),
+    queryFn: () => fetchIssueActivity(issueId),
+    enabled: Boolean(issueId),
+  });
+}
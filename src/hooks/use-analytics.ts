@@ -0,0 +1,34 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { ApiError } from "@/lib/apiClient";
+import { AnalyticsFilters, computeIssueAnalytics } from "@/lib/analytics";
+import { fetchIssueAnalytics } from "@/lib/analyticsApi";
+import { loadCachedIssues } from "@/hooks/use-issues";
+
+export const analyticsKeys = {
+  all: ["analytics"] as const,
+  filtered: (filters: AnalyticsFilters) => ["analytics", filters] as const,
+};
+
+// Dashboard figures from the server. Offline, they are computed from the
+// cached issues, without the activity log.
+export function useIssueAnalytics(filters: AnalyticsFilters) {
+  return useQuery({
+    queryKey: analyticsKeys.filtered(filters),
+    queryFn: async () => {
+      try {
+        return await fetchIssueAnalytics(filters);
+      } catch (error) {
+        const cached = loadCachedIssues();
+        if (!(error instanceof ApiError) && cached.length > 0) {
+          console.warn(
+            "Analytics API unavailable, using offline cache:",
+            error,
+          );
+          return computeIssueAnalytics(cached, [], filters);
+        }
+        throw error;
+      }
+    },
+    placeholderData: keepPreviousData,
+  });
+}
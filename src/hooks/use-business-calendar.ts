@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_CALENDAR } from "@/lib/businessCalendar";
+import { fetchBusinessCalendar } from "@/lib/calendarApi";
+
+export const calendarKeys = {
+  all: ["calendar"] as const,
+};
+
+// The server's business calendar. Falls back to the default calendar while
+// loading or offline, which may count business time differently.
+export function useBusinessCalendar() {
+  const { data } = useQuery({
+    queryKey: calendarKeys.all,
+    queryFn: fetchBusinessCalendar,
+    staleTime: Infinity,
+  });
+  return data ?? DEFAULT_CALENDAR;
+}
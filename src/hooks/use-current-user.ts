@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { User } from "@/lib/types";
+import { fetchCurrentUser, login, logout } from "@/lib/authApi";
+import { claimOfflineCaches, clearOfflineCaches } from "@/lib/mockData";
+
+export const authKeys = {
+  currentUser: ["auth", "me"] as const,
+};
+
+// The signed-in user; `user` is null when nobody is logged in
+export function useCurrentUser() {
+  const query = useQuery({
+    queryKey: authKeys.currentUser,
+    queryFn: async () => {
+      const user = await fetchCurrentUser();
+      if (user) claimOfflineCaches(user.id);
+      return user;
+    },
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  return { ...query, user: query.data ?? null };
+}
+
+export function useLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ email, password }: { email: string; password: string }) =>
+      login(email, password),
+    onSuccess: (user) => {
+      claimOfflineCaches(user.id);
+      queryClient.setQueryData<User | null>(authKeys.currentUser, user);
+    },
+  });
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: logout,
+    onSuccess: () => {
+      // Drop everything cached for the previous user, in memory and offline
+      queryClient.clear();
+      clearOfflineCaches();
+      queryClient.setQueryData<User | null>(authKeys.currentUser, null);
+    },
+  });
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { InfiniteData, useQueryClient } from "@tanstack/react-query";
+import { ActivityEntry } from "@/lib/types";
+import { API_BASE_URL } from "@/lib/apiClient";
+import { parseIssue } from "@/lib/issuesApi";
+import { parseChatMessage, MessagePage } from "@/lib/messagesApi";
+import { parseActivityEntry } from "@/lib/activityApi";
+import { issueKeys, removeCachedIssue, replaceCachedIssue } from "./use-issues";
+import { messageKeys, appendMessageToThread } from "./use-messages";
+import { activityKeys, appendActivityEntry } from "./use-activity";
+
+export type LiveConnectionState = "connecting" | "live" | "reconnecting";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Subscribe to live updates for an issue. New messages, issue changes and
+// activity entries are merged into the React Query cache as they arrive.
+// EventSource retries dropped connections itself; when it gives up we open
+// a new one with exponential backoff and ask the server to backfill from
+// the last event.
+export function useIssueEvents(issueId: string | null) {
+  const queryClient = useQueryClient();
+  const [state, setState] = useState<LiveConnectionState>("connecting");
+
+  useEffect(() => {
+    if (!issueId) return;
+
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let disposed = false;
+
+    const track = (event: MessageEvent) => {
+      if (event.lastEventId) lastEventId = event.lastEventId;
+    };
+
+    const connect = () => {
+      const params = lastEventId
+        ? `?lastEventId=${encodeURIComponent(lastEventId)}`
+        : "";
+      source = new EventSource(
+        `${API_BASE_URL}/issues/${issueId}/events${params}`,
+        { withCredentials: true },
+      );
+
+      source.onopen = () => {
+        // Without an event id there is nothing to backfill from
+        if (attempts > 0 && !lastEventId) {
+          queryClient.invalidateQueries({
+            queryKey: messageKeys.thread(issueId),
+          });
+        }
+        attempts = 0;
+        setState("live");
+      };
+
+      source.onerror = () => {
+        if (disposed) return;
+        setState("reconnecting");
+
+        if (source?.readyState === EventSource.CLOSED) {
+          const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+          attempts += 1;
+          reconnectTimer = setTimeout(connect, delay);
+        }
+      };
+
+      source.addEventListener("message", (event: MessageEvent) => {
+        track(event);
+        const message = parseChatMessage(JSON.parse(event.data));
+        queryClient.setQueryData<InfiniteData<MessagePage, string | undefined>>(
+          messageKeys.thread(issueId),
+          (data) => appendMessageToThread(data, message),
+        );
+      });
+
+      source.addEventListener("issue", (event: MessageEvent) => {
+        track(event);
+        replaceCachedIssue(queryClient, parseIssue(JSON.parse(event.data)));
+      });
+
+      source.addEventListener("activity", (event: MessageEvent) => {
+        track(event);
+        const entry = parseActivityEntry(JSON.parse(event.data));
+        queryClient.setQueryData<ActivityEntry[]>(
+          activityKeys.issue(issueId),
+          (entries) => appendActivityEntry(entries, entry),
+        );
+      });
+
+      source.addEventListener("issue-deleted", (event: MessageEvent) => {
+        track(event);
+        removeCachedIssue(queryClient, issueId);
+      });
+
+      // The server could not replay what we missed; reload from scratch
+      source.addEventListener("resync", () => {
+        queryClient.invalidateQueries({
+          queryKey: messageKeys.thread(issueId),
+        });
+        queryClient.invalidateQueries({ queryKey: issueKeys.all });
+        queryClient.invalidateQueries({
+          queryKey: activityKeys.issue(issueId),
+        });
+      });
+    };
+
+    setState("connecting");
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [issueId, queryClient]);
+
+  return state;
+}
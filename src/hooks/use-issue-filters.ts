@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  IssueFilters,
+  parseIssueFilters,
+  serializeIssueFilters,
+} from "@/lib/issueFilters";
+
+// Issue list filters kept in the URL query string, so a filtered view can
+// be shared as a link and survives a reload
+export function useIssueFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(
+    () => parseIssueFilters(searchParams),
+    [searchParams],
+  );
+
+  const updateFilters = useCallback(
+    (changes: Partial<IssueFilters>) =>
+      setSearchParams(
+        (current) =>
+          serializeIssueFilters({ ...parseIssueFilters(current), ...changes }),
+        // Typing in the search box should not add a history entry per key
+        { replace: true },
+      ),
+    [setSearchParams],
+  );
+
+  return [filters, updateFilters] as const;
+}
@@ -0,0 +1,376 @@
+import {
+  QueryClient,
+  keepPreviousData,
+  queryOptions,
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { Issue } from "@/lib/types";
+import {
+  fetchIssues,
+  fetchIssue,
+  fetchIssuePage,
+  createIssue,
+  updateIssue,
+  deleteIssue,
+  runIssueBatch,
+  importIssues,
+  ImportResult,
+  IssueInput,
+  IssueChanges,
+  IssuePage,
+  IssuePageParams,
+  ISSUE_PAGE_SIZE,
+} from "@/lib/issuesApi";
+import { ApiError, isOffline } from "@/lib/apiClient";
+import { BatchOperation } from "@/lib/bulkActions";
+import { IMPORT_BATCH_SIZE, IssueImport } from "@/lib/issueImport";
+import { buildIssuePage } from "@/lib/issuePagination";
+import { FilterContext } from "@/lib/issueFilters";
+import {
+  saveToLocalStorage,
+  loadFromLocalStorage,
+  STORAGE_KEYS,
+} from "@/lib/mockData";
+import { messageKeys } from "./use-messages";
+import { activityKeys } from "./use-activity";
+
+export const issueKeys = {
+  // The full issue list; also the prefix of every issue query
+  all: ["issues"] as const,
+  pages: ["issues", "page"] as const,
+  page: (params: IssuePageParams) => ["issues", "page", params] as const,
+  detail: (id: string) => ["issues", "detail", id] as const,
+};
+
+// What each of the queries under issueKeys.all holds
+type CachedIssueData = Issue[] | IssuePage | Issue;
+
+// localStorage mirrors every issue the server has sent so the list can
+// still render while the backend is unreachable
+const cacheIssues = (issues: Issue[]) =>
+  saveToLocalStorage(STORAGE_KEYS.ISSUES, issues);
+
+export const loadCachedIssues = () =>
+  loadFromLocalStorage<Issue[]>(STORAGE_KEYS.ISSUES, []);
+
+const mirrorIssues = (issues: Issue[]) => {
+  const updated = new Map(loadCachedIssues().map((issue) => [issue.id, issue]));
+  issues.forEach((issue) => updated.set(issue.id, issue));
+  cacheIssues([...updated.values()]);
+};
+
+const patchCachedIssue = (
+  queryClient: QueryClient,
+  id: string,
+  update: (issue: Issue) => Issue,
+) => {
+  const patch = (issues: Issue[]) =>
+    issues.map((issue) => (issue.id === id ? update(issue) : issue));
+
+  queryClient.setQueryData<Issue[]>(
+    issueKeys.all,
+    (current) => current && patch(current),
+  );
+  queryClient.setQueriesData<IssuePage>(
+    { queryKey: issueKeys.pages },
+    (page) => page && { ...page, issues: patch(page.issues) },
+  );
+  queryClient.setQueryData<Issue>(
+    issueKeys.detail(id),
+    (issue) => issue && update(issue),
+  );
+};
+
+// Put the server's copy of an issue into every cached list and page.
+// Pages are refetched too, since the change may move the issue to another
+// page or group.
+export const replaceCachedIssue = (queryClient: QueryClient, issue: Issue) => {
+  patchCachedIssue(queryClient, issue.id, () => issue);
+  queryClient.setQueryData(issueKeys.detail(issue.id), issue);
+  queryClient.invalidateQueries({ queryKey: issueKeys.pages });
+  mirrorIssues([issue]);
+};
+
+export const removeCachedIssue = (queryClient: QueryClient, id: string) => {
+  queryClient.setQueryData<Issue[]>(issueKeys.all, (current) =>
+    current?.filter((issue) => issue.id !== id),
+  );
+  queryClient.removeQueries({ queryKey: issueKeys.detail(id) });
+  queryClient.invalidateQueries({ queryKey: issueKeys.pages });
+  cacheIssues(loadCachedIssues().filter((issue) => issue.id !== id));
+};
+
+const findCachedIssue = (queryClient: QueryClient, id: string) =>
+  [
+    ...(queryClient.getQueryData<Issue[]>(issueKeys.all) ?? []),
+    ...queryClient
+      .getQueriesData<IssuePage>({ queryKey: issueKeys.pages })
+      .flatMap(([, page]) => page?.issues ?? []),
+  ].find((issue) => issue.id === id);
+
+// Every issue at once; for screens that aggregate over all of them.
+// The issue list uses useIssuePage instead.
+export function useIssues() {
+  return useQuery({
+    queryKey: issueKeys.all,
+    queryFn: async () => {
+      try {
+        const issues = await fetchIssues();
+        cacheIssues(issues);
+        return issues;
+      } catch (error) {
+        const cached = loadCachedIssues();
+        if (isOffline(error) && cached.length > 0) {
+          console.warn("Issues API unavailable, using offline cache:", error);
+          return cached;
+        }
+        throw error;
+      }
+    },
+    placeholderData: loadCachedIssues,
+  });
+}
+
+// `offlineContext` resolves `me` and user names when a page has to be
+// built from the offline cache
+const issuePageQuery = (
+  params: IssuePageParams,
+  offlineContext: FilterContext,
+) =>
+  queryOptions({
+    queryKey: issueKeys.page(params),
+    queryFn: async (): Promise<IssuePage> => {
+      try {
+        const page = await fetchIssuePage(params);
+        mirrorIssues(page.issues);
+        return page;
+      } catch (error) {
+        const cached = loadCachedIssues();
+        if (isOffline(error) && !params.cursor && cached.length > 0) {
+          console.warn("Issues API unavailable, using offline cache:", error);
+          const page = buildIssuePage(
+            cached,
+            {
+              filters: params.filters,
+              groupValue: params.groupValue,
+              limit: params.limit ?? ISSUE_PAGE_SIZE,
+            },
+            offlineContext,
+          );
+          return {
+            issues: page.issues,
+            nextCursor: null,
+            total: page.total,
+            groups: page.groups,
+          };
+        }
+        throw error;
+      }
+    },
+  });
+
+interface IssuePageOptions {
+  enabled?: boolean;
+  offlineContext?: FilterContext;
+}
+
+// One page of the filtered issue list. The previous page stays on screen
+// while the next one loads.
+export function useIssuePage(
+  params: IssuePageParams,
+  { enabled = true, offlineContext = {} }: IssuePageOptions = {},
+) {
+  return useQuery({
+    ...issuePageQuery(params, offlineContext),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Several pages at once, e.g. the first page of each board column
+export function useIssuePages(
+  paramsList: IssuePageParams[],
+  { enabled = true, offlineContext = {} }: IssuePageOptions = {},
+) {
+  return useQueries({
+    queries: paramsList.map((params) => ({
+      ...issuePageQuery(params, offlineContext),
+      enabled,
+      placeholderData: keepPreviousData,
+    })),
+  });
+}
+
+// A single issue, shown straight away if a list already has it
+export function useIssue(id: string | null) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: issueKeys.detail(id ?? ""),
+    queryFn: async () => {
+      try {
+        return await fetchIssue(id);
+      } catch (error) {
+        const cached = loadCachedIssues().find((issue) => issue.id === id);
+        if (isOffline(error) && cached) return cached;
+        throw error;
+      }
+    },
+    enabled: Boolean(id),
+    placeholderData: () => findCachedIssue(queryClient, id),
+    // A missing issue will not appear by asking again
+    retry: (failureCount, error) =>
+      !(error instanceof ApiError && error.status === 404) && failureCount < 3,
+  });
+}
+
+export function useCreateIssue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: IssueInput) => createIssue(input),
+    onSuccess: (issue) => {
+      queryClient.setQueryData<Issue[]>(
+        issueKeys.all,
+        (previous) => previous && [issue, ...previous],
+      );
+      queryClient.setQueryData(issueKeys.detail(issue.id), issue);
+      queryClient.invalidateQueries({ queryKey: issueKeys.pages });
+      mirrorIssues([issue]);
+    },
+  });
+}
+
+export function useUpdateIssue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      changes,
+      expectedUpdatedAt,
+    }: {
+      id: string;
+      changes: IssueChanges;
+      expectedUpdatedAt?: Date;
+    }) => updateIssue(id, changes, { expectedUpdatedAt }),
+    // Apply the change immediately and roll back if the server rejects it
+    onMutate: async ({ id, changes }) => {
+      await queryClient.cancelQueries({ queryKey: issueKeys.all });
+      const previous = queryClient.getQueriesData<CachedIssueData>({
+        queryKey: issueKeys.all,
+      });
+      patchCachedIssue(queryClient, id, (issue) => ({
+        ...issue,
+        ...changes,
+        updatedAt: new Date(),
+      }));
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      context?.previous.forEach(([queryKey, data]) =>
+        queryClient.setQueryData<CachedIssueData>(queryKey, data),
+      );
+      // Someone else saved first; fetch their version so the editor can
+      // compare against it
+      if (error instanceof ApiError && error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: issueKeys.all });
+      }
+    },
+    onSuccess: (issue) => {
+      replaceCachedIssue(queryClient, issue);
+      // The server posts a system message when the status changes and
+      // logs every changed field
+      queryClient.invalidateQueries({ queryKey: messageKeys.thread(issue.id) });
+      queryClient.invalidateQueries({ queryKey: activityKeys.issue(issue.id) });
+    },
+  });
+}
+
+export function useDeleteIssue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteIssue(id),
+    onSuccess: (_data, id) => removeCachedIssue(queryClient, id),
+  });
+}
+
+// Bulk changes from the issue list. Every issue the batch touched is
+// refreshed, including the thread and activity the server added to.
+export function useIssueBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (operations: BatchOperation[]) => runIssueBatch(operations),
+    onSuccess: (results) => {
+      results
+        .filter((result) => result.success)
+        .forEach(({ id, issue }) => {
+          if (issue) {
+            replaceCachedIssue(queryClient, issue);
+            queryClient.invalidateQueries({ queryKey: messageKeys.thread(id) });
+            queryClient.invalidateQueries({ queryKey: activityKeys.issue(id) });
+          } else {
+            removeCachedIssue(queryClient, id);
+          }
+        });
+      // A restored issue is missing from the full list
+      queryClient.invalidateQueries({ queryKey: issueKeys.all, exact: true });
+    },
+  });
+}
+
+// Creates the issues a few at a time so large files neither hit the
+// server's batch limit nor hide their progress. Results keep the order of
+// `issues`; a failed request fails the rest rather than stopping halfway
+// without a report.
+export function useImportIssues() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      issues,
+      onProgress,
+    }: {
+      issues: IssueImport[];
+      onProgress?: (done: number) => void;
+    }) => {
+      const results: ImportResult[] = [];
+      for (let start = 0; start < issues.length; start += IMPORT_BATCH_SIZE) {
+        const chunk = issues.slice(start, start + IMPORT_BATCH_SIZE);
+        try {
+          const chunkResults = await importIssues(chunk);
+          results.push(
+            ...chunkResults.map((result) => ({
+              ...result,
+              index: start + result.index,
+            })),
+          );
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : "Import failed";
+          results.push(
+            ...issues.slice(start).map((_, offset) => ({
+              index: start + offset,
+              success: false,
+              error: message,
+            })),
+          );
+          break;
+        }
+        onProgress?.(results.length);
+      }
+      return results;
+    },
+    onSuccess: (results) => {
+      mirrorIssues(results.flatMap(({ issue }) => (issue ? [issue] : [])));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: issueKeys.all });
+    },
+  });
+}
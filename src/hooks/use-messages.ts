@@ -0,0 +1,118 @@
+import { useMemo } from "react";
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { ChatMessage } from "@/lib/types";
+import { fetchMessages, postMessage, MessagePage } from "@/lib/messagesApi";
+import { isOffline } from "@/lib/apiClient";
+import {
+  saveToLocalStorage,
+  loadFromLocalStorage,
+  STORAGE_KEYS,
+} from "@/lib/mockData";
+
+export const messageKeys = {
+  thread: (issueId: string) => ["messages", issueId] as const,
+};
+
+type ThreadData = InfiniteData<MessagePage, string | undefined>;
+
+// The newest page of each thread is mirrored to localStorage as an
+// offline cache. Internal notes are left out, since the cache outlives the
+// session.
+const cacheLatestMessages = (issueId: string, messages: ChatMessage[]) => {
+  const cached = loadFromLocalStorage<Record<string, ChatMessage[]>>(
+    STORAGE_KEYS.CHAT_MESSAGES,
+    {},
+  );
+  saveToLocalStorage(STORAGE_KEYS.CHAT_MESSAGES, {
+    ...cached,
+    [issueId]: messages.filter((message) => !message.isInternal),
+  });
+};
+
+export const loadCachedMessages = (issueId: string): ChatMessage[] =>
+  loadFromLocalStorage<Record<string, ChatMessage[]>>(
+    STORAGE_KEYS.CHAT_MESSAGES,
+    {},
+  )[issueId] || [];
+
+export function useMessages(issueId: string) {
+  const query = useInfiniteQuery({
+    queryKey: messageKeys.thread(issueId),
+    queryFn: async ({ pageParam }) => {
+      if (pageParam) {
+        return fetchMessages(issueId, { before: pageParam });
+      }
+
+      try {
+        const page = await fetchMessages(issueId);
+        cacheLatestMessages(issueId, page.messages);
+        return page;
+      } catch (error) {
+        const cached = loadCachedMessages(issueId);
+        if (isOffline(error) && cached.length > 0) {
+          console.warn("Messages API unavailable, using offline cache:", error);
+          return { messages: cached, nextCursor: null };
+        }
+        throw error;
+      }
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: Boolean(issueId),
+  });
+
+  // Pages run newest to oldest; the thread reads oldest to newest
+  const messages = useMemo(
+    () =>
+      query.data
+        ? [...query.data.pages].reverse().flatMap((page) => page.messages)
+        : [],
+    [query.data],
+  );
+
+  return { ...query, messages };
+}
+
+// Add a message to the newest page of a loaded thread, ignoring duplicates
+export const appendMessageToThread = (
+  data: ThreadData | undefined,
+  message: ChatMessage,
+): ThreadData | undefined => {
+  if (!data || data.pages.length === 0) return data;
+
+  const [latest, ...older] = data.pages;
+  if (latest.messages.some((existing) => existing.id === message.id)) {
+    return data;
+  }
+
+  return {
+    ...data,
+    pages: [{ ...latest, messages: [...latest.messages, message] }, ...older],
+  };
+};
+
+export function useSendMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      issueId,
+      ...input
+    }: {
+      issueId: string;
+      message: string;
+      isInternal?: boolean;
+    }) => postMessage(issueId, input),
+    onSuccess: (message) => {
+      queryClient.setQueryData<ThreadData>(
+        messageKeys.thread(message.issueId),
+        (data) => appendMessageToThread(data, message),
+      );
+    },
+  });
+}
@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { NotificationPreferences } from "@/lib/notifications";
+import {
+  Inbox,
+  fetchFollowedIssueIds,
+  fetchInbox,
+  fetchNotificationSettings,
+  markAllNotificationsRead,
+  markNotificationRead,
+  setIssueFollowed,
+  updateNotificationPreferences,
+} from "@/lib/notificationsApi";
+
+// New entries have no live connection; the inbox is polled instead
+const INBOX_POLL_INTERVAL_MS = 30 * 1000;
+
+export const notificationKeys = {
+  all: ["notifications"] as const,
+  inbox: ["notifications", "inbox"] as const,
+  following: ["notifications", "following"] as const,
+  settings: ["notifications", "settings"] as const,
+};
+
+export function useInbox() {
+  return useQuery({
+    queryKey: notificationKeys.inbox,
+    queryFn: fetchInbox,
+    refetchInterval: INBOX_POLL_INTERVAL_MS,
+  });
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, read }: { id: string; read: boolean }) =>
+      markNotificationRead(id, read),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<Inbox>(notificationKeys.inbox, (inbox) => {
+        if (!inbox) return inbox;
+        const notifications = inbox.notifications.map((notification) =>
+          notification.id === updated.id ? updated : notification,
+        );
+        const wasUnread = inbox.notifications.some(
+          ({ id, readAt }) => id === updated.id && !readAt,
+        );
+        const isUnread = !updated.readAt;
+        return {
+          notifications,
+          unreadCount: inbox.unreadCount - Number(wasUnread) + Number(isUnread),
+        };
+      });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: () => {
+      const readAt = new Date();
+      queryClient.setQueryData<Inbox>(notificationKeys.inbox, (inbox) =>
+        inbox
+          ? {
+              notifications: inbox.notifications.map((notification) => ({
+                ...notification,
+                readAt: notification.readAt ?? readAt,
+              })),
+              unreadCount: 0,
+            }
+          : inbox,
+      );
+    },
+  });
+}
+
+export function useFollowedIssues() {
+  return useQuery({
+    queryKey: notificationKeys.following,
+    queryFn: fetchFollowedIssueIds,
+  });
+}
+
+export function useFollowIssue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      issueId,
+      following,
+    }: {
+      issueId: string;
+      following: boolean;
+    }) => setIssueFollowed(issueId, following),
+    onSuccess: (_data, { issueId, following }) => {
+      queryClient.setQueryData<string[]>(
+        notificationKeys.following,
+        (current = []) =>
+          following
+            ? [...new Set([...current, issueId])]
+            : current.filter((id) => id !== issueId),
+      );
+    },
+  });
+}
+
+export function useNotificationSettings() {
+  return useQuery({
+    queryKey: notificationKeys.settings,
+    queryFn: fetchNotificationSettings,
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preferences: NotificationPreferences) =>
+      updateNotificationPreferences(preferences),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(notificationKeys.settings, settings);
+    },
+  });
+}
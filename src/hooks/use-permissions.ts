@@ -0,0 +1,21 @@
+import { useCallback } from "react";
+import { Issue } from "@/lib/types";
+import { Permission, canEditIssue, hasPermission } from "@/lib/permissions";
+import { useCurrentUser } from "./use-current-user";
+
+// Permission checks for the signed-in user
+export function usePermissions() {
+  const { user } = useCurrentUser();
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(user, permission),
+    [user],
+  );
+
+  const canEdit = useCallback(
+    (issue: Pick<Issue, "submittedBy">) => canEditIssue(user, issue),
+    [user],
+  );
+
+  return { can, canEdit };
+}
@@ -0,0 +1,153 @@
+import { useEffect, useMemo } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { SavedView, TableColumnSetting, ViewPreferences } from "@/lib/types";
+import { normalizeTableColumns } from "@/lib/issueColumns";
+import {
+  SavedViewInput,
+  createSavedView,
+  deleteSavedView,
+  fetchSavedViews,
+  fetchViewPreferences,
+  updateSavedView,
+  updateViewPreferences,
+} from "@/lib/viewsApi";
+
+export const viewKeys = {
+  all: ["views"] as const,
+  preferences: ["views", "preferences"] as const,
+};
+
+export function useSavedViews() {
+  return useQuery({
+    queryKey: viewKeys.all,
+    queryFn: fetchSavedViews,
+  });
+}
+
+export function useViewPreferences() {
+  return useQuery({
+    queryKey: viewKeys.preferences,
+    queryFn: fetchViewPreferences,
+  });
+}
+
+export function useCreateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: SavedViewInput) => createSavedView(input),
+    onSuccess: (view) => {
+      queryClient.setQueryData<SavedView[]>(viewKeys.all, (current = []) =>
+        [...current, view].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+    },
+  });
+}
+
+export function useUpdateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      changes,
+    }: {
+      id: string;
+      changes: Partial<SavedViewInput>;
+    }) => updateSavedView(id, changes),
+    onSuccess: (view) => {
+      queryClient.setQueryData<SavedView[]>(viewKeys.all, (current = []) =>
+        current.map((existing) => (existing.id === view.id ? view : existing)),
+      );
+    },
+  });
+}
+
+export function useDeleteSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSavedView(id),
+    onSuccess: (_data, id) => {
+      queryClient.setQueryData<SavedView[]>(viewKeys.all, (current = []) =>
+        current.filter((view) => view.id !== id),
+      );
+      // The server leaves deleted views out of the returned preferences
+      queryClient.invalidateQueries({ queryKey: viewKeys.preferences });
+    },
+  });
+}
+
+export function useUpdateViewPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preferences: ViewPreferences) =>
+      updateViewPreferences(preferences),
+    // Pinning should feel instant; roll back if the server refuses
+    onMutate: async (preferences) => {
+      await queryClient.cancelQueries({ queryKey: viewKeys.preferences });
+      const previous = queryClient.getQueryData<ViewPreferences>(
+        viewKeys.preferences,
+      );
+      queryClient.setQueryData(viewKeys.preferences, preferences);
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(viewKeys.preferences, context.previous);
+      }
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(viewKeys.preferences, preferences);
+    },
+  });
+}
+
+// The default view is applied once per page load, so clearing the filters
+// afterwards shows all issues instead of bouncing back to the default
+let landingViewApplied = false;
+
+// Open the user's default view when they land on the unfiltered issue list
+export function useLandingView(enabled: boolean) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { data: views } = useSavedViews();
+  const { data: preferences } = useViewPreferences();
+
+  useEffect(() => {
+    if (!enabled || landingViewApplied || !views || !preferences) return;
+    landingViewApplied = true;
+
+    const view = views.find(({ id }) => id === preferences.defaultViewId);
+    if (view && !location.search && view.query) {
+      navigate(`${location.pathname}?${view.query}`, { replace: true });
+    }
+  }, [enabled, views, preferences, location, navigate]);
+}
+
+// The signed-in user's issue table columns, saved with their other view
+// preferences. Pass null to go back to the default columns.
+export function useTableColumns() {
+  const { data: preferences } = useViewPreferences();
+  const updatePreferences = useUpdateViewPreferences();
+
+  const columns = useMemo(
+    () => normalizeTableColumns(preferences?.tableColumns),
+    [preferences],
+  );
+
+  // Nothing is saved before the preferences have loaded, which would
+  // otherwise overwrite the user's pins and default view
+  const setColumns = (tableColumns: TableColumnSetting[] | null) =>
+    preferences
+      ? updatePreferences.mutateAsync({ ...preferences, tableColumns })
+      : Promise.resolve(undefined);
+
+  return {
+    columns,
+    setColumns,
+    isCustomized: Boolean(preferences?.tableColumns),
+  };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { User } from "@/lib/types";
+import { fetchUsers } from "@/lib/authApi";
+
+export const userKeys = {
+  all: ["users"] as const,
+};
+
+export function useUsers() {
+  return useQuery({
+    queryKey: userKeys.all,
+    queryFn: fetchUsers,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Resolve user ids (e.g. Issue.submittedBy) to User records
+export function useUserLookup() {
+  const { data: users = [] } = useUsers();
+
+  const usersById = useMemo(
+    () => new Map(users.map((user) => [user.id, user])),
+    [users],
+  );
+
+  return useCallback(
+    (userId: string): User | undefined => usersById.get(userId),
+    [usersById],
+  );
+}
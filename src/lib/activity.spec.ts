@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { diffIssue, getFieldLabel } from "./activity";
+
+describe("diffIssue", () => {
+  it("should report changed fields with their old and new values", () => {
+    const changes = diffIssue(
+      { status: "open", priority: "low", tags: ["bug"] },
+      { status: "in-progress", priority: "low", tags: ["bug", "ui"] },
+    );
+
+    expect(changes).toEqual([
+      { field: "status", oldValue: "open", newValue: "in-progress" },
+      { field: "tags", oldValue: ["bug"], newValue: ["bug", "ui"] },
+    ]);
+  });
+
+  it("should log type-specific details key by key", () => {
+    const changes = diffIssue(
+      { technicalDetails: { systemType: "web", browser: "Firefox" } },
+      { technicalDetails: { systemType: "web", browser: "Chrome" } },
+    );
+
+    expect(changes).toEqual([
+      {
+        field: "technicalDetails.browser",
+        oldValue: "Firefox",
+        newValue: "Chrome",
+      },
+    ]);
+  });
+
+  it("should not log clearing a field that was never set", () => {
+    expect(diffIssue({}, { assigneeId: null, resolutionNote: "" })).toEqual([]);
+  });
+
+  it("should ignore fields that are not tracked", () => {
+    expect(
+      diffIssue({ updatedAt: new Date(0) }, { updatedAt: new Date() }),
+    ).toEqual([]);
+  });
+});
+
+describe("getFieldLabel", () => {
+  it("should label detail fields by their key", () => {
+    expect(getFieldLabel("technicalDetails.stepsToReproduce")).toBe(
+      "Steps to reproduce",
+    );
+    expect(getFieldLabel("assigneeId")).toBe("Assignee");
+  });
+});
@@ -0,0 +1,99 @@
+import { Issue } from "./types";
+
+// Issue fields recorded in the activity log
+export const TRACKED_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "resolutionNote",
+  "priority",
+  "tags",
+  "assigneeId",
+  "team",
+  "contentDetails",
+  "technicalDetails",
+  "generalDetails",
+] as const;
+
+// Type-specific details are logged key by key
+const DETAIL_FIELDS: string[] = [
+  "contentDetails",
+  "technicalDetails",
+  "generalDetails",
+];
+
+export const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  resolutionNote: "Resolution note",
+  priority: "Priority",
+  tags: "Tags",
+  assigneeId: "Assignee",
+  team: "Team",
+  contentType: "Content type",
+  platform: "Platform",
+  audience: "Audience",
+  deadline: "Deadline",
+  systemType: "System",
+  browser: "Browser",
+  errorMessage: "Error message",
+  stepsToReproduce: "Steps to reproduce",
+  category: "Category",
+  department: "Department",
+  urgency: "Urgency",
+};
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Missing and empty values are treated alike so that clearing a field
+// that was never set is not logged as a change
+const normalize = (value: unknown) =>
+  value === undefined || value === null || value === "" ? null : value;
+
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Label for a field name as stored in ActivityEntry.field
+export const getFieldLabel = (field: string) => {
+  const key = field.includes(".") ? field.split(".").pop() : field;
+  return FIELD_LABELS[key] ?? key;
+};
+
+// Tracked fields that differ between two versions of an issue
+export const diffIssue = (
+  before: Partial<Issue>,
+  after: Partial<Issue>,
+): FieldChange[] =>
+  TRACKED_FIELDS.flatMap((field): FieldChange[] => {
+    if (!DETAIL_FIELDS.includes(field)) {
+      return isSame(before[field], after[field])
+        ? []
+        : [
+            {
+              field,
+              oldValue: normalize(before[field]),
+              newValue: normalize(after[field]),
+            },
+          ];
+    }
+
+    const oldDetails = (before[field] ?? {}) as Record<string, unknown>;
+    const newDetails = (after[field] ?? {}) as Record<string, unknown>;
+    const keys = new Set([
+      ...Object.keys(oldDetails),
+      ...Object.keys(newDetails),
+    ]);
+
+    return [...keys]
+      .filter((key) => !isSame(oldDetails[key], newDetails[key]))
+      .map((key) => ({
+        field: `${field}.${key}`,
+        oldValue: normalize(oldDetails[key]),
+        newValue: normalize(newDetails[key]),
+      }));
+  });
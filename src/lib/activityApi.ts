@@ -0,0 +1,22 @@
+import { ActivityEntry } from "./types";
+import { apiRequest } from "./apiClient";
+
+export const parseActivityEntry = (entry: any): ActivityEntry => ({
+  ...entry,
+  timestamp: new Date(entry.timestamp),
+});
+
+export const fetchIssueActivity = async (
+  issueId: string,
+  filters: { field?: string; actor?: string } = {},
+): Promise<ActivityEntry[]> => {
+  const params = new URLSearchParams();
+  if (filters.field) params.set("field", filters.field);
+  if (filters.actor) params.set("actor", filters.actor);
+  const query = params.toString();
+
+  const data = await apiRequest<{ activity: unknown[] }>(
+    `/issues/${issueId}/activity${query ? `?${query}` : ""}`,
+  );
+  return data.activity.map(parseActivityEntry);
+};
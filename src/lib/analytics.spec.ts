@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import {
+  AnalyticsFilters,
+  computeIssueAnalytics,
+  getAnalyticsInterval,
+  getMedian,
+  getPresetFilters,
+  parseAnalyticsFilters,
+} from "./analytics";
+import { makeIssue } from "./test/fixtures";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const statusChange = (
+  issueId: string,
+  oldValue: string,
+  newValue: string,
+  timestamp: string,
+) => ({
+  issueId,
+  field: "status",
+  oldValue,
+  newValue,
+  timestamp: new Date(timestamp),
+});
+
+const week: AnalyticsFilters = {
+  from: "2026-10-13",
+  to: "2026-10-19",
+  type: "all",
+};
+
+describe("parseAnalyticsFilters", () => {
+  it("should default to the last 30 days", () => {
+    expect(parseAnalyticsFilters(new URLSearchParams(), now)).toEqual({
+      filters: { from: "2026-09-20", to: "2026-10-19", type: "all" },
+    });
+  });
+
+  it("should reject invalid ranges", () => {
+    const parse = (query: string) =>
+      parseAnalyticsFilters(new URLSearchParams(query), now);
+
+    expect(parse("from=2026-02-30")).toEqual({
+      error: "from must be a date in YYYY-MM-DD format",
+    });
+    expect(parse("from=2026-10-20&to=2026-10-19")).toEqual({
+      error: "from must not be after to",
+    });
+    expect(parse("from=2020-01-01")).toMatchObject({
+      error: expect.stringContaining("at most"),
+    });
+    expect(parse("type=bug")).toEqual({ error: 'Unknown type "bug"' });
+  });
+});
+
+describe("getPresetFilters", () => {
+  it("should end on today", () => {
+    expect(getPresetFilters(7, "content", now)).toEqual({
+      from: "2026-10-13",
+      to: "2026-10-19",
+      type: "content",
+    });
+  });
+});
+
+describe("getAnalyticsInterval", () => {
+  it("should use longer buckets for longer ranges", () => {
+    expect(getAnalyticsInterval(30)).toBe("day");
+    expect(getAnalyticsInterval(90)).toBe("week");
+    expect(getAnalyticsInterval(730)).toBe("month");
+  });
+});
+
+describe("getMedian", () => {
+  it("should average the middle values of an even list", () => {
+    expect(getMedian([])).toBeNull();
+    expect(getMedian([5, 1, 3])).toBe(3);
+    expect(getMedian([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe("computeIssueAnalytics", () => {
+  const issues = [
+    makeIssue("1", {
+      type: "technical",
+      status: "resolved",
+      priority: "high",
+      tags: ["login", "web"],
+      submittedAt: new Date("2026-10-13T08:00:00Z"),
+    }),
+    makeIssue("2", {
+      type: "content",
+      status: "in-progress",
+      tags: ["web"],
+      submittedAt: new Date("2026-10-14T08:00:00Z"),
+    }),
+    // Created before the range, resolved by import without activity
+    makeIssue("3", {
+      type: "technical",
+      status: "closed",
+      submittedAt: new Date("2026-10-12T10:00:00Z"),
+      resolvedAt: new Date("2026-10-15T08:00:00Z"),
+    }),
+  ];
+  const activity = [
+    statusChange("1", "open", "in-progress", "2026-10-13T09:00:00Z"),
+    statusChange("1", "in-progress", "resolved", "2026-10-13T14:00:00Z"),
+    statusChange("2", "open", "in-progress", "2026-10-16T08:00:00Z"),
+  ];
+
+  it("should count created and resolved issues per day", () => {
+    const analytics = computeIssueAnalytics(issues, activity, week, now);
+
+    expect(analytics.interval).toBe("day");
+    expect(analytics.buckets).toHaveLength(7);
+    expect(analytics.buckets.slice(0, 3)).toMatchObject([
+      { start: "2026-10-13", created: 1, resolved: 1 },
+      { start: "2026-10-14", created: 1, resolved: 0 },
+      { start: "2026-10-15", created: 0, resolved: 1 },
+    ]);
+    expect(analytics.totals).toMatchObject({ created: 2, resolved: 2 });
+  });
+
+  it("should reconstruct the backlog from status changes", () => {
+    const { buckets, totals } = computeIssueAnalytics(
+      issues,
+      activity,
+      week,
+      now,
+    );
+
+    expect(buckets.map(({ open, inProgress }) => [open, inProgress])).toEqual([
+      [1, 0],
+      [2, 0],
+      [1, 0],
+      [0, 1],
+      [0, 1],
+      [0, 1],
+      [0, 1],
+    ]);
+    expect(totals.backlog).toBe(1);
+  });
+
+  it("should break down created issues and their resolution times", () => {
+    const analytics = computeIssueAnalytics(issues, activity, week, now);
+
+    expect(analytics.byType).toEqual([
+      { type: "content", count: 1 },
+      { type: "technical", count: 1 },
+      { type: "general", count: 0 },
+    ]);
+    expect(analytics.byPriority).toContainEqual({ priority: "high", count: 1 });
+    expect(analytics.topTags).toEqual([
+      { tag: "web", count: 2 },
+      { tag: "login", count: 1 },
+    ]);
+    // Issue 1 took 6 hours, issue 3 took 70
+    expect(analytics.totals.medianResolutionHours).toBe(38);
+    expect(analytics.resolutionTimes).toContainEqual({
+      priority: "high",
+      medianHours: 6,
+      resolved: 1,
+    });
+  });
+
+  it("should only count issues of the selected type", () => {
+    const analytics = computeIssueAnalytics(
+      issues,
+      activity,
+      { ...week, type: "content" },
+      now,
+    );
+
+    expect(analytics.totals).toMatchObject({
+      created: 1,
+      resolved: 0,
+      backlog: 1,
+    });
+  });
+
+  it("should group long ranges by week starting on Monday", () => {
+    const analytics = computeIssueAnalytics(
+      issues,
+      activity,
+      { from: "2026-07-22", to: "2026-10-19", type: "all" },
+      now,
+    );
+
+    expect(analytics.interval).toBe("week");
+    expect(analytics.buckets[0].start).toBe("2026-07-20");
+    expect(analytics.buckets.at(-1)).toMatchObject({
+      start: "2026-10-19",
+      created: 0,
+    });
+    expect(analytics.buckets.at(-2)).toMatchObject({
+      start: "2026-10-12",
+      created: 3,
+      resolved: 2,
+    });
+  });
+});
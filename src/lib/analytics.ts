@@ -0,0 +1,330 @@
+import { ActivityEntry, Issue, IssueType, Priority } from "./types";
+import { DONE_STATUSES } from "./workflow";
+
+// The dashboard's filters. Dates are whole UTC days, both inclusive.
+export interface AnalyticsFilters {
+  from: string;
+  to: string;
+  type: IssueType | "all";
+}
+
+export const ANALYTICS_RANGE_PRESETS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last 12 months" },
+];
+
+// Longer ranges make the reconstructed backlog too slow to compute
+export const MAX_ANALYTICS_DAYS = 3 * 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISSUE_TYPES: IssueType[] = ["content", "technical", "general"];
+const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"];
+const TOP_TAG_COUNT = 10;
+
+const formatDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Start of a "YYYY-MM-DD" day in UTC, or NaN for anything else
+const parseDay = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return NaN;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && formatDay(time) === value ? time : NaN;
+};
+
+// Dates may be Date objects (client) or ISO strings (server records)
+const toTime = (value: Date | string) => new Date(value).getTime();
+
+// The `days` days up to and including `today`
+export const getPresetFilters = (
+  days: number,
+  type: AnalyticsFilters["type"] = "all",
+  today = new Date(),
+): AnalyticsFilters => {
+  const end = parseDay(formatDay(today.getTime()));
+  return {
+    from: formatDay(end - (days - 1) * DAY_MS),
+    to: formatDay(end),
+    type,
+  };
+};
+
+// Reads `from`, `to` and `type` from query parameters. Missing values
+// default to the last 30 days and all types.
+export const parseAnalyticsFilters = (
+  params: URLSearchParams,
+  today = new Date(),
+): { filters: AnalyticsFilters } | { error: string } => {
+  const defaults = getPresetFilters(30, "all", today);
+  const filters: AnalyticsFilters = {
+    from: params.get("from") || defaults.from,
+    to: params.get("to") || defaults.to,
+    type: (params.get("type") || "all") as AnalyticsFilters["type"],
+  };
+
+  if (Number.isNaN(parseDay(filters.from))) {
+    return { error: "from must be a date in YYYY-MM-DD format" };
+  }
+  if (Number.isNaN(parseDay(filters.to))) {
+    return { error: "to must be a date in YYYY-MM-DD format" };
+  }
+  const days = (parseDay(filters.to) - parseDay(filters.from)) / DAY_MS + 1;
+  if (days < 1) return { error: "from must not be after to" };
+  if (days > MAX_ANALYTICS_DAYS) {
+    return { error: `The range may span at most ${MAX_ANALYTICS_DAYS} days` };
+  }
+  if (filters.type !== "all" && !ISSUE_TYPES.includes(filters.type)) {
+    return { error: `Unknown type "${filters.type}"` };
+  }
+  return { filters };
+};
+
+export const toAnalyticsParams = (filters: AnalyticsFilters) => {
+  const params = new URLSearchParams({ from: filters.from, to: filters.to });
+  if (filters.type !== "all") params.set("type", filters.type);
+  return params;
+};
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+// Daily points up to two months, then weekly up to a year, then monthly
+export const getAnalyticsInterval = (days: number): AnalyticsInterval =>
+  days <= 62 ? "day" : days <= 366 ? "week" : "month";
+
+// Weeks start on Monday; the first bucket may start before `from`
+const getBucketStarts = (
+  from: number,
+  to: number,
+  interval: AnalyticsInterval,
+) => {
+  let start = from;
+  if (interval === "week") {
+    start -= ((new Date(from).getUTCDay() + 6) % 7) * DAY_MS;
+  } else if (interval === "month") {
+    const date = new Date(from);
+    start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+
+  const starts: number[] = [];
+  while (start <= to) {
+    starts.push(start);
+    if (interval === "month") {
+      const date = new Date(start);
+      start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    } else {
+      start += (interval === "week" ? 7 : 1) * DAY_MS;
+    }
+  }
+  return starts;
+};
+
+export interface AnalyticsBucket {
+  // First day of the bucket, YYYY-MM-DD
+  start: string;
+  created: number;
+  resolved: number;
+  // Backlog at the end of the bucket (or now, for the current one)
+  open: number;
+  inProgress: number;
+}
+
+export interface ResolutionTime {
+  priority: Priority;
+  // Hours from submission to resolution; null without resolutions
+  medianHours: number | null;
+  resolved: number;
+}
+
+export interface IssueAnalytics {
+  filters: AnalyticsFilters;
+  interval: AnalyticsInterval;
+  buckets: AnalyticsBucket[];
+  totals: {
+    created: number;
+    resolved: number;
+    // Open and in-progress issues at the end of the range
+    backlog: number;
+    medianResolutionHours: number | null;
+  };
+  // Issues created in the range
+  byType: { type: IssueType; count: number }[];
+  byPriority: { priority: Priority; count: number }[];
+  topTags: { tag: string; count: number }[];
+  // Issues resolved in the range
+  resolutionTimes: ResolutionTime[];
+}
+
+export const getMedian = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+type StatusChange = Pick<ActivityEntry, "oldValue" | "newValue"> & {
+  time: number;
+};
+
+const isDone = (status: unknown) =>
+  DONE_STATUSES.includes(status as Issue["status"]);
+
+// An issue's status changes in order. Issues without logged changes that
+// are done, such as imported or seeded ones, count as resolved from open
+// at `resolvedAt`.
+const getStatusChanges = (
+  issue: Pick<Issue, "status" | "resolvedAt">,
+  logged: StatusChange[] = [],
+): StatusChange[] =>
+  logged.length === 0 && isDone(issue.status) && issue.resolvedAt
+    ? [
+        {
+          oldValue: "open",
+          newValue: issue.status,
+          time: toTime(issue.resolvedAt),
+        },
+      ]
+    : logged;
+
+// Times an issue moved into a done status
+const getResolutionTimes = (changes: StatusChange[]) =>
+  changes
+    .filter((change) => isDone(change.newValue) && !isDone(change.oldValue))
+    .map((change) => change.time);
+
+// An issue's status at `time`: the old value of the first change after
+// it, or the current status when nothing changed since
+const getStatusAt = (
+  issue: Pick<Issue, "status">,
+  changes: StatusChange[],
+  time: number,
+) => {
+  const next = changes.find((change) => change.time > time);
+  return next ? (next.oldValue as Issue["status"]) : issue.status;
+};
+
+// Dashboard figures for `filters`, computed from the issues and their
+// logged status changes. Without the activity log, as when offline, the
+// backlog over time is approximated from each issue's current status.
+export const computeIssueAnalytics = (
+  issues: Issue[],
+  activity: Pick<
+    ActivityEntry,
+    "issueId" | "field" | "oldValue" | "newValue" | "timestamp"
+  >[],
+  filters: AnalyticsFilters,
+  now = new Date(),
+): IssueAnalytics => {
+  const from = parseDay(filters.from);
+  const to = parseDay(filters.to);
+  const end = Math.min(to + DAY_MS, now.getTime());
+  const interval = getAnalyticsInterval((to - from) / DAY_MS + 1);
+  const starts = getBucketStarts(from, to, interval);
+  const bucketOf = (time: number) => {
+    let index = starts.length - 1;
+    while (index > 0 && starts[index] > time) index--;
+    return index;
+  };
+  const inRange = (time: number) => time >= from && time < end;
+
+  const changesByIssue = new Map<string, StatusChange[]>();
+  activity
+    .filter((entry) => entry.field === "status")
+    .forEach((entry) => {
+      const changes = changesByIssue.get(entry.issueId) ?? [];
+      changes.push({ ...entry, time: toTime(entry.timestamp) });
+      changesByIssue.set(entry.issueId, changes);
+    });
+  changesByIssue.forEach((changes) => changes.sort((a, b) => a.time - b.time));
+
+  const buckets: AnalyticsBucket[] = starts.map((start) => ({
+    start: formatDay(start),
+    created: 0,
+    resolved: 0,
+    open: 0,
+    inProgress: 0,
+  }));
+  // Backlog snapshots at the end of each bucket, never in the future
+  const snapshots = starts.map((start, index) =>
+    Math.min((starts[index + 1] ?? to + DAY_MS) - 1, now.getTime()),
+  );
+  const typeCounts = new Map<IssueType, number>();
+  const priorityCounts = new Map<Priority, number>();
+  const tagCounts = new Map<string, number>();
+  const hoursByPriority = new Map<Priority, number[]>();
+  let created = 0;
+  let resolved = 0;
+
+  issues
+    .filter((issue) => filters.type === "all" || issue.type === filters.type)
+    .forEach((issue) => {
+      const submittedAt = toTime(issue.submittedAt);
+      const changes = getStatusChanges(issue, changesByIssue.get(issue.id));
+
+      if (inRange(submittedAt)) {
+        created++;
+        buckets[bucketOf(submittedAt)].created++;
+        typeCounts.set(issue.type, (typeCounts.get(issue.type) ?? 0) + 1);
+        priorityCounts.set(
+          issue.priority,
+          (priorityCounts.get(issue.priority) ?? 0) + 1,
+        );
+        issue.tags.forEach((tag) =>
+          tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1),
+        );
+      }
+
+      getResolutionTimes(changes)
+        .filter(inRange)
+        .forEach((time) => {
+          resolved++;
+          buckets[bucketOf(time)].resolved++;
+          const hours = hoursByPriority.get(issue.priority) ?? [];
+          hours.push(Math.max(0, time - submittedAt) / HOUR_MS);
+          hoursByPriority.set(issue.priority, hours);
+        });
+
+      snapshots.forEach((time, index) => {
+        if (submittedAt > time) return;
+        const status = getStatusAt(issue, changes, time);
+        if (status === "open") buckets[index].open++;
+        if (status === "in-progress") buckets[index].inProgress++;
+      });
+    });
+
+  const last = buckets[buckets.length - 1];
+  return {
+    filters,
+    interval,
+    buckets,
+    totals: {
+      created,
+      resolved,
+      backlog: last ? last.open + last.inProgress : 0,
+      medianResolutionHours: getMedian([...hoursByPriority.values()].flat()),
+    },
+    byType: ISSUE_TYPES.map((type) => ({
+      type,
+      count: typeCounts.get(type) ?? 0,
+    })),
+    byPriority: PRIORITIES.map((priority) => ({
+      priority,
+      count: priorityCounts.get(priority) ?? 0,
+    })),
+    topTags: [...tagCounts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, TOP_TAG_COUNT),
+    resolutionTimes: PRIORITIES.map((priority) => {
+      const hours = hoursByPriority.get(priority) ?? [];
+      return {
+        priority,
+        medianHours: getMedian(hours),
+        resolved: hours.length,
+      };
+    }),
+  };
+};
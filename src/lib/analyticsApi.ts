@@ -0,0 +1,15 @@
+import { apiRequest } from "./apiClient";
+import {
+  AnalyticsFilters,
+  IssueAnalytics,
+  toAnalyticsParams,
+} from "./analytics";
+
+export const fetchIssueAnalytics = async (
+  filters: AnalyticsFilters,
+): Promise<IssueAnalytics> => {
+  const data = await apiRequest<{ analytics: IssueAnalytics }>(
+    `/analytics?${toAnalyticsParams(filters)}`,
+  );
+  return data.analytics;
+};
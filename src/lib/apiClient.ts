@@ -0,0 +1,46 @@
+// Get API base URL from environment or default to localhost
+export const API_BASE_URL =
+  import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+// Whether a request failed without reaching the server, as opposed to the
+// server answering with an error such as 401 or 403
+export const isOffline = (error: unknown) => !(error instanceof ApiError);
+
+// JSON request against the backend. Rejects with ApiError when the server
+// answers with a non-2xx status or `success: false`.
+export const apiRequest = async <T>(
+  path: string,
+  options: { method?: string; body?: unknown } = {},
+): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: options.method || "GET",
+    // Send the session cookie to the API origin
+    credentials: "include",
+    headers:
+      options.body !== undefined
+        ? { "Content-Type": "application/json" }
+        : undefined,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.success === false) {
+    throw new ApiError(
+      data.error || `Request failed with status ${response.status}`,
+      response.status,
+    );
+  }
+
+  return data as T;
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { computeWorkload, countUnassigned } from "./assignment";
+import { User } from "./types";
+import { makeIssue } from "./test/fixtures";
+
+const makeUser = (id: string, name: string, role: User["role"]): User => ({
+  id,
+  name,
+  email: `${id}@company.com`,
+  avatar: name.slice(0, 2).toUpperCase(),
+  role,
+});
+
+const users = [
+  makeUser("user-1", "Alex", "user"),
+  makeUser("user-2", "Sarah", "admin"),
+  makeUser("user-3", "Mike", "support"),
+];
+
+describe("computeWorkload", () => {
+  it("should count active issues per staff member, busiest first", () => {
+    const issues = [
+      makeIssue("a", { assigneeId: "user-3", status: "open" }),
+      makeIssue("b", { assigneeId: "user-3", status: "in-progress" }),
+      makeIssue("c", { assigneeId: "user-3", status: "resolved" }),
+      makeIssue("d", { assigneeId: "user-2", status: "open" }),
+    ];
+
+    const workload = computeWorkload(issues, users);
+
+    expect(workload.map((entry) => entry.user.id)).toEqual([
+      "user-3",
+      "user-2",
+    ]);
+    expect(workload[0]).toMatchObject({ open: 1, inProgress: 1, active: 2 });
+    expect(workload[1]).toMatchObject({ open: 1, inProgress: 0, active: 1 });
+  });
+});
+
+describe("countUnassigned", () => {
+  it("should ignore unassigned issues that are already resolved", () => {
+    const issues = [
+      makeIssue("a", { assigneeId: null }),
+      makeIssue("b"),
+      makeIssue("c", { status: "closed" }),
+      makeIssue("d", { assigneeId: "user-3" }),
+    ];
+
+    expect(countUnassigned(issues)).toBe(2);
+  });
+});
@@ -0,0 +1,56 @@
+import { Issue, User } from "./types";
+
+export interface Team {
+  id: string;
+  name: string;
+}
+
+export const TEAMS: Team[] = [
+  { id: "technical", name: "Technical" },
+  { id: "content", name: "Content" },
+  { id: "operations", name: "Operations" },
+];
+
+export const getTeamName = (teamId: string | null | undefined) =>
+  TEAMS.find((team) => team.id === teamId)?.name;
+
+// Only staff can be assigned issues
+export const isAssignable = (user: Pick<User, "role">) =>
+  user.role === "support" || user.role === "admin";
+
+export interface AssigneeWorkload {
+  user: User;
+  open: number;
+  inProgress: number;
+  // Open and in-progress issues together
+  active: number;
+}
+
+const isActive = (issue: Pick<Issue, "status">) =>
+  issue.status === "open" || issue.status === "in-progress";
+
+// Active issue counts per assignable user, busiest first
+export const computeWorkload = (
+  issues: Issue[],
+  users: User[],
+): AssigneeWorkload[] =>
+  users
+    .filter(isAssignable)
+    .map((user) => {
+      const assigned = issues.filter(
+        (issue) => issue.assigneeId === user.id && isActive(issue),
+      );
+      const open = assigned.filter((issue) => issue.status === "open").length;
+      return {
+        user,
+        open,
+        inProgress: assigned.length - open,
+        active: assigned.length,
+      };
+    })
+    .sort(
+      (a, b) => b.active - a.active || a.user.name.localeCompare(b.user.name),
+    );
+
+export const countUnassigned = (issues: Issue[]) =>
+  issues.filter((issue) => !issue.assigneeId && isActive(issue)).length;
@@ -0,0 +1,32 @@
+import { User } from "./types";
+import { apiRequest, ApiError } from "./apiClient";
+
+export const login = async (email: string, password: string): Promise<User> => {
+  const data = await apiRequest<{ user: User }>("/auth/login", {
+    method: "POST",
+    body: { email, password },
+  });
+  return data.user;
+};
+
+export const logout = async (): Promise<void> => {
+  await apiRequest("/auth/logout", { method: "POST" });
+};
+
+// The signed-in user, or null when there is no valid session
+export const fetchCurrentUser = async (): Promise<User | null> => {
+  try {
+    const data = await apiRequest<{ user: User }>("/auth/me");
+    return data.user;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const fetchUsers = async (): Promise<User[]> => {
+  const data = await apiRequest<{ users: User[] }>("/users");
+  return data.users;
+};
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  createAutomationEngine,
+  AutomationMessage,
+  AutomationRule,
+  ScheduledAutomation,
+} from "./automation";
+import { makeIssue } from "./test/fixtures";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const loginIssue = makeIssue("issue-1", {
+  title: "Login fails",
+  type: "technical",
+  technicalDetails: { systemType: "web" },
+});
+
+const askForSteps: AutomationRule = {
+  id: "ask-steps",
+  name: "Ask for steps",
+  trigger: "issue.created",
+  conditions: [
+    { field: "issue.type", operator: "equals", value: "technical" },
+    { field: "issue.technicalDetails.stepsToReproduce", operator: "empty" },
+  ],
+  action: {
+    type: "post-message",
+    sender: "Support Bot",
+    message: 'Please add steps to reproduce "{{issue.title}}".',
+  },
+};
+
+const setup = (rules: AutomationRule[]) => {
+  const posted: AutomationMessage[] = [];
+  const scheduled: ScheduledAutomation[] = [];
+  const engine = createAutomationEngine({
+    rules,
+    postMessage: (message) => posted.push(message),
+    schedule: (_issueId, item) => scheduled.push(item),
+    now: () => now,
+  });
+  return { engine, posted, scheduled };
+};
+
+describe("automation engine", () => {
+  it("should post a bot message when all conditions match", () => {
+    const { engine, posted } = setup([askForSteps]);
+
+    engine.handle({ type: "issue.created", issue: loginIssue });
+
+    expect(posted).toEqual([
+      {
+        issueId: "issue-1",
+        sender: "Support Bot",
+        message: 'Please add steps to reproduce "Login fails".',
+        isSystem: false,
+        isBot: true,
+        ruleId: "ask-steps",
+      },
+    ]);
+  });
+
+  it("should skip rules whose conditions do not match", () => {
+    const { engine, posted } = setup([askForSteps]);
+
+    engine.handle({
+      type: "issue.created",
+      issue: {
+        ...loginIssue,
+        technicalDetails: { systemType: "web", stepsToReproduce: "1. Log in" },
+      },
+    });
+    engine.handle({
+      type: "issue.created",
+      issue: { ...loginIssue, type: "general", technicalDetails: undefined },
+    });
+
+    expect(posted).toHaveLength(0);
+  });
+
+  it("should ignore disabled rules and other triggers", () => {
+    const { engine, posted } = setup([{ ...askForSteps, enabled: false }]);
+
+    engine.handle({ type: "issue.created", issue: loginIssue });
+    engine.handle({ type: "issue.status-changed", issue: loginIssue });
+
+    expect(posted).toHaveLength(0);
+  });
+
+  it("should not react to bot or system messages", () => {
+    const reply: AutomationRule = {
+      id: "reply",
+      name: "Reply",
+      trigger: "message.created",
+      action: { type: "post-message", sender: "Bot", message: "Noted" },
+    };
+    const { engine, posted } = setup([reply]);
+    const message = {
+      id: "m1",
+      issueId: "issue-1",
+      sender: "Bot",
+      message: "Hi",
+      timestamp: new Date(0),
+      isSystem: false,
+    };
+
+    engine.handle({
+      type: "message.created",
+      issue: loginIssue,
+      message: { ...message, isBot: true },
+    });
+    engine.handle({
+      type: "message.created",
+      issue: loginIssue,
+      message: { ...message, isSystem: true },
+    });
+    engine.handle({ type: "message.created", issue: loginIssue, message });
+
+    expect(posted.map((m) => m.message)).toEqual(["Noted"]);
+  });
+
+  describe("delayed rules", () => {
+    const escalate: AutomationRule = {
+      id: "escalate",
+      name: "Escalate",
+      trigger: "issue.created",
+      conditions: [
+        { field: "issue.status", operator: "equals", value: "open" },
+      ],
+      action: {
+        type: "post-message",
+        sender: "System",
+        message: "Escalated",
+        isSystem: true,
+        delayMs: 60 * 60 * 1000,
+      },
+    };
+
+    it("should schedule the action for when the delay ends", () => {
+      const { engine, posted, scheduled } = setup([escalate]);
+
+      engine.handle({ type: "issue.created", issue: loginIssue });
+
+      expect(posted).toHaveLength(0);
+      expect(scheduled).toEqual([
+        {
+          ruleId: "escalate",
+          trigger: "issue.created",
+          dueAt: new Date("2026-10-19T13:00:00Z"),
+        },
+      ]);
+    });
+
+    it("should post a scheduled action that still matches", () => {
+      const { engine, posted, scheduled } = setup([escalate]);
+
+      engine.handle({ type: "issue.created", issue: loginIssue });
+      engine.runScheduled(scheduled[0], loginIssue);
+
+      expect(posted).toHaveLength(1);
+      expect(posted[0]).toMatchObject({ isSystem: true, isBot: false });
+    });
+
+    it("should re-check conditions against the latest issue", () => {
+      const { engine, posted, scheduled } = setup([escalate]);
+
+      engine.handle({ type: "issue.created", issue: loginIssue });
+      engine.runScheduled(scheduled[0], {
+        ...loginIssue,
+        status: "in-progress",
+      });
+
+      expect(posted).toHaveLength(0);
+    });
+
+    it("should drop actions of rules that no longer exist", () => {
+      const { engine, posted } = setup([escalate]);
+
+      engine.runScheduled(
+        { ruleId: "removed", trigger: "issue.created", dueAt: now },
+        loginIssue,
+      );
+
+      expect(posted).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { Issue, ChatMessage } from "./types";
+
+// Automation rules react to issue events by posting messages into the
+// issue thread. Rules are plain data so they can be loaded from config.
+
+export type AutomationTrigger =
+  | "issue.created"
+  | "issue.status-changed"
+  | "message.created";
+
+export type ConditionOperator =
+  | "equals"
+  | "not-equals"
+  | "in"
+  | "contains"
+  | "empty"
+  | "not-empty";
+
+export interface AutomationCondition {
+  // Dotted path into the event context, e.g. "issue.type" or
+  // "issue.technicalDetails.stepsToReproduce"
+  field: string;
+  operator: ConditionOperator;
+  value?: string | number | boolean | Array<string | number | boolean>;
+}
+
+export interface PostMessageAction {
+  type: "post-message";
+  sender: string;
+  // Supports {{path}} placeholders resolved against the event context
+  message: string;
+  isSystem?: boolean;
+  // Wait before posting; conditions are checked again when the delay ends
+  delayMs?: number;
+}
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled?: boolean;
+  trigger: AutomationTrigger;
+  conditions?: AutomationCondition[];
+  action: PostMessageAction;
+}
+
+export interface AutomationEvent {
+  type: AutomationTrigger;
+  issue: Issue;
+  message?: ChatMessage;
+  previousStatus?: Issue["status"];
+}
+
+// A delayed action waiting for `dueAt`. The engine hands these to its
+// owner to store, and runs them when given them back, so they outlive
+// the process that scheduled them.
+export interface ScheduledAutomation {
+  ruleId: string;
+  trigger: AutomationTrigger;
+  dueAt: Date | string;
+  previousStatus?: Issue["status"];
+  messageId?: string;
+}
+
+export interface AutomationMessage {
+  issueId: string;
+  sender: string;
+  message: string;
+  isSystem: boolean;
+  isBot: boolean;
+  ruleId: string;
+}
+
+export interface AutomationEngineOptions {
+  rules: AutomationRule[];
+  postMessage: (message: AutomationMessage) => void;
+  // Keep a delayed action until it is due; see runScheduled
+  schedule: (issueId: string, scheduled: ScheduledAutomation) => void;
+  now?: () => Date;
+}
+
+const resolvePath = (context: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value != null && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      context,
+    );
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+export const matchesCondition = (
+  condition: AutomationCondition,
+  context: AutomationEvent,
+): boolean => {
+  const actual = resolvePath(context, condition.field);
+
+  switch (condition.operator) {
+    case "equals":
+      return actual === condition.value;
+    case "not-equals":
+      return actual !== condition.value;
+    case "in":
+      return (
+        Array.isArray(condition.value) &&
+        condition.value.includes(actual as string | number | boolean)
+      );
+    case "contains":
+      if (Array.isArray(actual)) {
+        return actual.includes(condition.value);
+      }
+      return (
+        typeof actual === "string" &&
+        actual.toLowerCase().includes(String(condition.value).toLowerCase())
+      );
+    case "empty":
+      return isEmpty(actual);
+    case "not-empty":
+      return !isEmpty(actual);
+  }
+};
+
+export const matchesRule = (rule: AutomationRule, event: AutomationEvent) =>
+  rule.enabled !== false &&
+  rule.trigger === event.type &&
+  (rule.conditions || []).every((condition) =>
+    matchesCondition(condition, event),
+  );
+
+export const renderTemplate = (template: string, context: AutomationEvent) =>
+  template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+    const value = resolvePath(context, path);
+    return value == null ? "" : String(value);
+  });
+
+export const createAutomationEngine = ({
+  rules,
+  postMessage,
+  schedule,
+  now = () => new Date(),
+}: AutomationEngineOptions) => {
+  const runAction = (rule: AutomationRule, event: AutomationEvent) => {
+    postMessage({
+      issueId: event.issue.id,
+      sender: rule.action.sender,
+      message: renderTemplate(rule.action.message, event),
+      isSystem: rule.action.isSystem === true,
+      isBot: rule.action.isSystem !== true,
+      ruleId: rule.id,
+    });
+  };
+
+  const handle = (event: AutomationEvent) => {
+    // Automated and system messages never trigger rules, so bots cannot
+    // answer each other
+    if (
+      event.type === "message.created" &&
+      (event.message?.isSystem || event.message?.isBot)
+    ) {
+      return;
+    }
+
+    rules
+      .filter((rule) => matchesRule(rule, event))
+      .forEach((rule) => {
+        if (!rule.action.delayMs) {
+          runAction(rule, event);
+          return;
+        }
+
+        schedule(event.issue.id, {
+          ruleId: rule.id,
+          trigger: event.type,
+          dueAt: new Date(now().getTime() + rule.action.delayMs),
+          ...(event.previousStatus && { previousStatus: event.previousStatus }),
+          ...(event.message && { messageId: event.message.id }),
+        });
+      });
+  };
+
+  // Run a stored action once it is due, against the latest copy of its
+  // issue (and message). It is dropped if the rule is gone or no longer
+  // matches, e.g. because the issue was picked up in the meantime.
+  const runScheduled = (
+    scheduled: ScheduledAutomation,
+    issue: Issue,
+    message?: ChatMessage,
+  ) => {
+    const rule = rules.find(({ id }) => id === scheduled.ruleId);
+    if (!rule) return;
+
+    const event: AutomationEvent = {
+      type: scheduled.trigger,
+      issue,
+      message,
+      previousStatus: scheduled.previousStatus,
+    };
+    if (matchesRule(rule, event)) {
+      runAction(rule, event);
+    }
+  };
+
+  return { handle, runScheduled };
+};
+
+export type AutomationEngine = ReturnType<typeof createAutomationEngine>;
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { resolveBulkChanges } from "./bulkActions";
+import { Issue } from "./types";
+
+const issue: Pick<
+  Issue,
+  "status" | "priority" | "assigneeId" | "tags" | "resolutionNote"
+> = {
+  status: "open",
+  priority: "medium",
+  assigneeId: null,
+  tags: ["login", "mobile"],
+  resolutionNote: null,
+};
+
+describe("resolveBulkChanges", () => {
+  it("should merge tags into the issue's own tags", () => {
+    expect(
+      resolveBulkChanges(issue, {
+        addTags: ["urgent", "login"],
+        removeTags: ["mobile"],
+      }),
+    ).toEqual({ tags: ["login", "urgent"] });
+  });
+
+  it("should leave out fields the issue already has", () => {
+    expect(
+      resolveBulkChanges(issue, {
+        status: "open",
+        resolutionNote: "Done",
+        priority: "medium",
+        assigneeId: null,
+        removeTags: ["unused"],
+      }),
+    ).toEqual({});
+  });
+
+  it("should only pass the resolution note with a status change", () => {
+    expect(
+      resolveBulkChanges(issue, { status: "closed", resolutionNote: "Dupe" }),
+    ).toEqual({ status: "closed", resolutionNote: "Dupe" });
+  });
+});
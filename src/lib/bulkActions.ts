@@ -0,0 +1,89 @@
+import { Issue, Priority, ResolutionStatus } from "./types";
+
+// Largest number of operations accepted in one batch request
+export const MAX_BATCH_SIZE = 200;
+
+// One change applied to every selected issue. Tags are added to or removed
+// from each issue's own tags rather than replacing them.
+export interface BulkChanges {
+  status?: ResolutionStatus;
+  resolutionNote?: string | null;
+  priority?: Priority;
+  assigneeId?: string | null;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+// What a batch request does to one issue. `restore` brings back an issue
+// deleted shortly before, which is how a bulk delete is undone. A bulk
+// change is undone with the `undoToken` of its result, which puts back what
+// the server recorded before the change while nobody has changed the issue
+// since.
+export type BatchOperation =
+  | { id: string; changes: BulkChanges }
+  | { id: string; undoToken: string }
+  | { id: string; delete: true }
+  | { id: string; restore: true };
+
+export interface BatchResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  // The issue after the operation; missing for deletes
+  issue?: Issue;
+  // Set when the operation changed the issue and can be undone
+  undoToken?: string;
+}
+
+const normalizeTags = (tags: string[] = []) =>
+  tags.map((tag) => tag.trim()).filter(Boolean);
+
+// The issue fields `changes` sets on one issue. Fields the issue already
+// has are left out, so an issue that is already in the target status does
+// not get a resolution note without a status change.
+export const resolveBulkChanges = (
+  issue: Pick<
+    Issue,
+    "status" | "priority" | "assigneeId" | "tags" | "resolutionNote"
+  >,
+  changes: BulkChanges,
+) => {
+  const resolved: Partial<
+    Pick<
+      Issue,
+      "status" | "resolutionNote" | "priority" | "assigneeId" | "tags"
+    >
+  > = {};
+
+  if (changes.status !== undefined && changes.status !== issue.status) {
+    resolved.status = changes.status;
+    if (changes.resolutionNote !== undefined) {
+      resolved.resolutionNote = changes.resolutionNote;
+    }
+  }
+  if (changes.priority !== undefined && changes.priority !== issue.priority) {
+    resolved.priority = changes.priority;
+  }
+  if (
+    changes.assigneeId !== undefined &&
+    changes.assigneeId !== (issue.assigneeId ?? null)
+  ) {
+    resolved.assigneeId = changes.assigneeId;
+  }
+
+  const removed = new Set(normalizeTags(changes.removeTags));
+  const tags = [
+    ...new Set([
+      ...issue.tags.filter((tag) => !removed.has(tag)),
+      ...normalizeTags(changes.addTags),
+    ]),
+  ];
+  if (
+    tags.length !== issue.tags.length ||
+    tags.some((tag, index) => tag !== issue.tags[index])
+  ) {
+    resolved.tags = tags;
+  }
+
+  return resolved;
+};
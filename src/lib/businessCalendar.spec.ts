@@ -0,0 +1,288 @@
+import { describe, it, expect } from "vitest";
+import {
+  BusinessCalendar,
+  DEFAULT_CALENDAR,
+  addBusinessHours,
+  createWeeklyHours,
+  getBusinessHoursBetween,
+  isBusinessTime,
+  mergeHolidays,
+  parseICalHolidays,
+  validateCalendar,
+} from "./businessCalendar";
+
+// Friday 2026-10-16, 15:00 UTC
+const friday = new Date("2026-10-16T15:00:00Z");
+
+const berlin: BusinessCalendar = {
+  timeZone: "Europe/Berlin",
+  weeklyHours: createWeeklyHours([1, 2, 3, 4, 5], "09:00", "17:00"),
+  holidays: [],
+};
+
+describe("addBusinessHours", () => {
+  it("should skip nights and weekends", () => {
+    expect(addBusinessHours(DEFAULT_CALENDAR, friday, 1)).toEqual(
+      new Date("2026-10-16T16:00:00Z"),
+    );
+    expect(addBusinessHours(DEFAULT_CALENDAR, friday, 3)).toEqual(
+      new Date("2026-10-19T10:00:00Z"),
+    );
+  });
+
+  it("should start counting at the next opening time", () => {
+    expect(
+      addBusinessHours(DEFAULT_CALENDAR, "2026-10-17T12:00:00Z", 2),
+    ).toEqual(new Date("2026-10-19T11:00:00Z"));
+  });
+
+  it("should skip holidays", () => {
+    const calendar = {
+      ...DEFAULT_CALENDAR,
+      holidays: [{ date: "2026-10-19", name: "Company day" }],
+    };
+
+    expect(addBusinessHours(calendar, friday, 3)).toEqual(
+      new Date("2026-10-20T10:00:00Z"),
+    );
+  });
+
+  it("should skip breaks between working periods", () => {
+    const calendar = {
+      ...DEFAULT_CALENDAR,
+      weeklyHours: DEFAULT_CALENDAR.weeklyHours.map((periods) =>
+        periods.length > 0
+          ? [
+              { start: "13:00", end: "17:00" },
+              { start: "09:00", end: "12:00" },
+            ]
+          : [],
+      ),
+    };
+
+    expect(addBusinessHours(calendar, "2026-10-19T11:00:00Z", 2)).toEqual(
+      new Date("2026-10-19T14:00:00Z"),
+    );
+  });
+
+  it("should use working hours in the calendar's time zone", () => {
+    // 17:00 in Berlin is 15:00 UTC in October (CEST)
+    expect(addBusinessHours(berlin, "2026-10-16T14:00:00Z", 2)).toEqual(
+      new Date("2026-10-19T08:00:00Z"),
+    );
+  });
+
+  it("should follow daylight saving changes", () => {
+    // Clocks go forward on Sunday 2026-03-29: Friday closes at 16:00 UTC,
+    // Monday opens at 07:00 UTC
+    expect(addBusinessHours(berlin, "2026-03-27T14:00:00Z", 3)).toEqual(
+      new Date("2026-03-30T08:00:00Z"),
+    );
+  });
+
+  it("should give up on a calendar without working time", () => {
+    const closed = {
+      ...DEFAULT_CALENDAR,
+      weeklyHours: createWeeklyHours([], "09:00", "17:00"),
+    };
+
+    expect(() => addBusinessHours(closed, friday, 1)).toThrow(
+      "no working time",
+    );
+  });
+});
+
+describe("getBusinessHoursBetween", () => {
+  it("should only count working time", () => {
+    expect(
+      getBusinessHoursBetween(DEFAULT_CALENDAR, friday, "2026-10-19T10:30:00Z"),
+    ).toBe(3.5);
+    expect(
+      getBusinessHoursBetween(DEFAULT_CALENDAR, "2026-10-19T10:30:00Z", friday),
+    ).toBe(-3.5);
+  });
+
+  it("should count nothing outside working hours", () => {
+    expect(
+      getBusinessHoursBetween(
+        DEFAULT_CALENDAR,
+        "2026-10-17T09:00:00Z",
+        "2026-10-18T17:00:00Z",
+      ),
+    ).toBe(0);
+  });
+
+  it("should measure a day with a daylight saving change by the clock", () => {
+    const allDay: BusinessCalendar = {
+      timeZone: "America/New_York",
+      weeklyHours: createWeeklyHours([0, 1, 2, 3, 4, 5, 6], "00:00", "24:00"),
+      holidays: [],
+    };
+
+    // Sunday 2026-03-08 has 23 hours in New York
+    expect(
+      getBusinessHoursBetween(
+        allDay,
+        "2026-03-08T05:00:00Z",
+        "2026-03-09T04:00:00Z",
+      ),
+    ).toBe(23);
+  });
+
+  it("should keep counting correctly over more days than it caches", () => {
+    // Monday 2006-10-16 to Monday 2026-10-19 is exactly 1044 weeks
+    const monday = "2026-10-19T17:00:00Z";
+
+    expect(
+      getBusinessHoursBetween(DEFAULT_CALENDAR, "2006-10-16T09:00:00Z", monday),
+    ).toBe(1044 * 5 * 8 + 8);
+    expect(
+      getBusinessHoursBetween(DEFAULT_CALENDAR, "2026-10-16T09:00:00Z", monday),
+    ).toBe(16);
+  });
+});
+
+describe("isBusinessTime", () => {
+  it("should check the local time in the calendar's time zone", () => {
+    // 09:30 in Berlin, in summer and in winter
+    expect(isBusinessTime(berlin, "2026-07-06T07:30:00Z")).toBe(true);
+    expect(isBusinessTime(berlin, "2026-01-05T08:30:00Z")).toBe(true);
+    // 17:30 in Berlin
+    expect(isBusinessTime(berlin, "2026-07-06T15:30:00Z")).toBe(false);
+  });
+});
+
+describe("validateCalendar", () => {
+  it("should accept the default calendar", () => {
+    expect(validateCalendar(DEFAULT_CALENDAR)).toBeNull();
+  });
+
+  it("should name the first invalid setting", () => {
+    const withHours = (start: string, end: string) => ({
+      ...DEFAULT_CALENDAR,
+      weeklyHours: createWeeklyHours([1], start, end),
+    });
+
+    expect(
+      validateCalendar({ ...DEFAULT_CALENDAR, timeZone: "Mars/Olympus" }),
+    ).toBe('Unknown time zone "Mars/Olympus"');
+    expect(validateCalendar(withHours("9:00", "17:00"))).toMatch("HH:mm");
+    expect(validateCalendar(withHours("17:00", "09:00"))).toMatch(
+      "ends before it starts",
+    );
+    expect(
+      validateCalendar({
+        ...DEFAULT_CALENDAR,
+        weeklyHours: DEFAULT_CALENDAR.weeklyHours.map(() => [
+          { start: "09:00", end: "13:00" },
+          { start: "12:00", end: "17:00" },
+        ]),
+      }),
+    ).toBe("Sunday has overlapping periods");
+    expect(
+      validateCalendar({
+        ...DEFAULT_CALENDAR,
+        weeklyHours: createWeeklyHours([], "09:00", "17:00"),
+      }),
+    ).toBe("The calendar has no working hours");
+    expect(
+      validateCalendar({
+        ...DEFAULT_CALENDAR,
+        holidays: [{ date: "2026-02-30", name: "Nope" }],
+      }),
+    ).toMatch("YYYY-MM-DD");
+  });
+});
+
+const ical = (...events: string[]) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...events.flatMap((event) => ["BEGIN:VEVENT", event, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+describe("parseICalHolidays", () => {
+  it("should read all-day and multi-day events", () => {
+    expect(
+      parseICalHolidays(
+        ical(
+          "DTSTART;VALUE=DATE:20261224\r\nDTEND;VALUE=DATE:20261227\r\nSUMMARY:Christmas",
+          "DTSTART;VALUE=DATE:20261003\r\nSUMMARY:Unity Day",
+        ),
+      ),
+    ).toEqual([
+      { date: "2026-10-03", name: "Unity Day" },
+      { date: "2026-12-24", name: "Christmas" },
+      { date: "2026-12-25", name: "Christmas" },
+      { date: "2026-12-26", name: "Christmas" },
+    ]);
+  });
+
+  it("should unfold long lines and unescape text", () => {
+    expect(
+      parseICalHolidays(
+        ical(
+          "DTSTART;VALUE=DATE:20260501\r\nSUMMARY:Labour Day\\, also\r\n  May Day",
+        ),
+      ),
+    ).toEqual([{ date: "2026-05-01", name: "Labour Day, also May Day" }]);
+  });
+
+  it("should use the date of timed events", () => {
+    expect(
+      parseICalHolidays(
+        ical(
+          "DTSTART;TZID=Europe/Berlin:20261231T120000\r\nDTEND;TZID=Europe/Berlin:20261231T170000\r\nSUMMARY:New Year's Eve",
+        ),
+      ),
+    ).toEqual([{ date: "2026-12-31", name: "New Year's Eve" }]);
+  });
+
+  it("should repeat yearly events until the given date", () => {
+    const holidays = parseICalHolidays(
+      ical(
+        "DTSTART;VALUE=DATE:20250101\r\nRRULE:FREQ=YEARLY\r\nEXDATE;VALUE=DATE:20260101\r\nSUMMARY:New Year",
+        "DTSTART;VALUE=DATE:20240229\r\nRRULE:FREQ=YEARLY;COUNT=2\r\nSUMMARY:Leap Day",
+      ),
+      { until: "2028-12-31" },
+    );
+
+    expect(holidays.map(({ date }) => date)).toEqual([
+      "2024-02-29",
+      "2025-01-01",
+      "2027-01-01",
+      "2028-01-01",
+      "2028-02-29",
+    ]);
+  });
+
+  it("should leave out cancelled events", () => {
+    expect(
+      parseICalHolidays(
+        ical("DTSTART;VALUE=DATE:20260601\r\nSTATUS:CANCELLED\r\nSUMMARY:Off"),
+      ),
+    ).toEqual([]);
+  });
+
+  it("should reject files that are not calendars", () => {
+    expect(() => parseICalHolidays("date,name")).toThrow("not an iCalendar");
+  });
+});
+
+describe("mergeHolidays", () => {
+  it("should keep one holiday per date, sorted", () => {
+    expect(
+      mergeHolidays(
+        [{ date: "2026-12-25", name: "Christmas" }],
+        [
+          { date: "2026-12-25", name: "Christmas Day" },
+          { date: "2026-01-01", name: "New Year" },
+        ],
+      ),
+    ).toEqual([
+      { date: "2026-01-01", name: "New Year" },
+      { date: "2026-12-25", name: "Christmas" },
+    ]);
+  });
+});
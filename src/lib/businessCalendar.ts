@@ -0,0 +1,503 @@
+// Working hours and holidays for measuring business time, e.g. how long an
+// issue waited for a reply. Shared by the server, which loads the calendar
+// from its configuration, and the client, which fetches it from GET /calendar.
+
+export interface WorkingPeriod {
+  // Local times in the calendar's time zone, "HH:mm"; "24:00" ends at midnight
+  start: string;
+  end: string;
+}
+
+export interface Holiday {
+  // Local date in the calendar's time zone, "YYYY-MM-DD"
+  date: string;
+  name: string;
+}
+
+export interface BusinessCalendar {
+  // IANA time zone name, e.g. "Europe/Berlin"
+  timeZone: string;
+  // Working periods for each weekday, Sunday first. A day without periods
+  // is a day off; several periods leave room for breaks.
+  weeklyHours: WorkingPeriod[][];
+  holidays: Holiday[];
+}
+
+// Weekdays as in Date.getDay: 0 is Sunday
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// The same hours on each of `workDays`, nothing on the other days
+export const createWeeklyHours = (
+  workDays: number[],
+  start: string,
+  end: string,
+): WorkingPeriod[][] =>
+  WEEKDAY_NAMES.map((_, day) =>
+    workDays.includes(day) ? [{ start, end }] : [],
+  );
+
+// Weekdays from 9:00 to 17:00 UTC without holidays
+export const DEFAULT_CALENDAR: BusinessCalendar = {
+  timeZone: "UTC",
+  weeklyHours: createWeeklyHours([1, 2, 3, 4, 5], "09:00", "17:00"),
+  holidays: [],
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// How far addBusinessTime looks ahead before giving up, in days
+const MAX_SEARCH_DAYS = 5 * 366;
+
+// How many days of working intervals each calendar keeps, least recently used first
+const MAX_CACHED_DAYS = 10 * 366;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Minutes since local midnight
+const parseTime = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const isTimeZone = (timeZone: unknown) => {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Returns an error message for the first invalid setting, if any
+export const validateCalendar = (calendar: BusinessCalendar) => {
+  if (!isTimeZone(calendar?.timeZone)) {
+    return `Unknown time zone "${calendar?.timeZone}"`;
+  }
+  if (
+    !Array.isArray(calendar.weeklyHours) ||
+    calendar.weeklyHours.length !== 7 ||
+    calendar.weeklyHours.some((periods) => !Array.isArray(periods))
+  ) {
+    return "Weekly hours must list the working periods of all 7 weekdays";
+  }
+  for (const [day, periods] of calendar.weeklyHours.entries()) {
+    const sorted = [...periods].sort((a, b) =>
+      String(a?.start).localeCompare(String(b?.start)),
+    );
+    for (const [index, period] of sorted.entries()) {
+      if (
+        !TIME_PATTERN.test(period?.start) ||
+        !TIME_PATTERN.test(period?.end)
+      ) {
+        return `${WEEKDAY_NAMES[day]} has a period that is not in HH:mm form`;
+      }
+      if (parseTime(period.start) >= parseTime(period.end)) {
+        return `${WEEKDAY_NAMES[day]} has a period that ends before it starts`;
+      }
+      const next = sorted[index + 1];
+      if (next && parseTime(next.start) < parseTime(period.end)) {
+        return `${WEEKDAY_NAMES[day]} has overlapping periods`;
+      }
+    }
+  }
+  if (calendar.weeklyHours.every((periods) => periods.length === 0)) {
+    return "The calendar has no working hours";
+  }
+  if (
+    !Array.isArray(calendar.holidays) ||
+    calendar.holidays.some(
+      (holiday) => !DATE_PATTERN.test(holiday?.date) || !isValidDate(holiday),
+    )
+  ) {
+    return "Holidays need a date in YYYY-MM-DD form";
+  }
+  return null;
+};
+
+const isValidDate = ({ date }: Pick<Holiday, "date">) =>
+  toDateString(toDayNumber(date)) === date;
+
+// Days are numbered from 1970-01-01 so they can be counted and compared
+// without any time zone getting in the way
+const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const toDateString = (dayNumber: number) =>
+  new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+// 1970-01-01 was a Thursday
+const getWeekday = (dayNumber: number) => (((dayNumber + 4) % 7) + 7) % 7;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock time in `timeZone` at `time`, as if that wall clock were UTC
+const getWallClockTime = (time: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(new Date(time))
+      .map(({ type, value }) => [type, Number(value)]),
+  );
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+};
+
+// Milliseconds `timeZone` is ahead of UTC at `time`
+const getOffset = (time: number, timeZone: string) =>
+  getWallClockTime(time, timeZone) - Math.floor(time / 1000) * 1000;
+
+// The moment a local day and time happen in `timeZone`. Times skipped by
+// a daylight saving change move forward by the length of the gap, as they
+// do with Date; repeated times resolve to their second occurrence.
+const toUtcTime = (dayNumber: number, minutes: number, timeZone: string) => {
+  const wallClock = dayNumber * DAY_MS + minutes * MINUTE_MS;
+  const guess = wallClock - getOffset(wallClock, timeZone);
+  const offset = getOffset(guess, timeZone);
+  return offset === getOffset(wallClock, timeZone)
+    ? guess
+    : Math.max(guess, wallClock - offset);
+};
+
+const getLocalDayNumber = (time: number, timeZone: string) =>
+  Math.floor(getWallClockTime(time, timeZone) / DAY_MS);
+
+interface CompiledCalendar {
+  timeZone: string;
+  // [start, end] minutes per weekday, in order
+  weeklyMinutes: [number, number][][];
+  holidayDates: Set<string>;
+  // Working intervals by day number; time zone lookups are slow
+  intervalsByDay: Map<number, [number, number][]>;
+}
+
+const compiled = new WeakMap<BusinessCalendar, CompiledCalendar>();
+
+const compile = (calendar: BusinessCalendar) => {
+  let result = compiled.get(calendar);
+  if (!result) {
+    result = {
+      timeZone: calendar.timeZone,
+      weeklyMinutes: calendar.weeklyHours.map((periods) =>
+        periods
+          .map(({ start, end }): [number, number] => [
+            parseTime(start),
+            parseTime(end),
+          ])
+          .sort(([a], [b]) => a - b),
+      ),
+      holidayDates: new Set(calendar.holidays.map(({ date }) => date)),
+      intervalsByDay: new Map(),
+    };
+    compiled.set(calendar, result);
+  }
+  return result;
+};
+
+// Working intervals of one local day as [start, end] timestamps
+const getDayIntervals = (calendar: CompiledCalendar, dayNumber: number) => {
+  let intervals = calendar.intervalsByDay.get(dayNumber);
+  if (intervals) {
+    calendar.intervalsByDay.delete(dayNumber);
+  } else {
+    intervals = calendar.holidayDates.has(toDateString(dayNumber))
+      ? []
+      : calendar.weeklyMinutes[getWeekday(dayNumber)].map(
+          ([start, end]): [number, number] => [
+            toUtcTime(dayNumber, start, calendar.timeZone),
+            toUtcTime(dayNumber, end, calendar.timeZone),
+          ],
+        );
+    if (calendar.intervalsByDay.size >= MAX_CACHED_DAYS) {
+      calendar.intervalsByDay.delete(
+        calendar.intervalsByDay.keys().next().value,
+      );
+    }
+  }
+  calendar.intervalsByDay.set(dayNumber, intervals);
+  return intervals;
+};
+
+// Dates may be Date objects (client) or ISO strings (server records)
+const toTime = (value: Date | string | number) => new Date(value).getTime();
+
+export const isBusinessTime = (
+  calendar: BusinessCalendar,
+  moment: Date | string,
+) => {
+  const time = toTime(moment);
+  const compiledCalendar = compile(calendar);
+  return getDayIntervals(
+    compiledCalendar,
+    getLocalDayNumber(time, calendar.timeZone),
+  ).some(([start, end]) => start <= time && time < end);
+};
+
+export const isHoliday = (calendar: BusinessCalendar, date: string) =>
+  compile(calendar).holidayDates.has(date);
+
+// The moment `durationMs` of working time have passed since `start`. Time
+// outside working hours does not count, so a start at night begins at the
+// next opening time.
+export const addBusinessTime = (
+  calendar: BusinessCalendar,
+  start: Date | string,
+  durationMs: number,
+) => {
+  const compiledCalendar = compile(calendar);
+  const from = toTime(start);
+  let remaining = Math.max(0, durationMs);
+  const firstDay = getLocalDayNumber(from, calendar.timeZone);
+
+  for (let day = firstDay; day < firstDay + MAX_SEARCH_DAYS; day++) {
+    for (const [intervalStart, intervalEnd] of getDayIntervals(
+      compiledCalendar,
+      day,
+    )) {
+      const begin = Math.max(from, intervalStart);
+      if (begin >= intervalEnd) continue;
+      if (remaining <= intervalEnd - begin) return new Date(begin + remaining);
+      remaining -= intervalEnd - begin;
+    }
+  }
+  throw new Error("The calendar has no working time in the next five years");
+};
+
+// Working time between two moments in milliseconds, negative when `end`
+// comes first
+export const getBusinessTimeBetween = (
+  calendar: BusinessCalendar,
+  start: Date | string,
+  end: Date | string,
+): number => {
+  const from = toTime(start);
+  const to = toTime(end);
+  if (to < from) return -getBusinessTimeBetween(calendar, end, start);
+
+  const compiledCalendar = compile(calendar);
+  const lastDay = getLocalDayNumber(to, calendar.timeZone);
+  let total = 0;
+  for (
+    let day = getLocalDayNumber(from, calendar.timeZone);
+    day <= lastDay;
+    day++
+  ) {
+    getDayIntervals(compiledCalendar, day).forEach(
+      ([intervalStart, intervalEnd]) => {
+        total += Math.max(
+          0,
+          Math.min(to, intervalEnd) - Math.max(from, intervalStart),
+        );
+      },
+    );
+  }
+  return total;
+};
+
+export const addBusinessHours = (
+  calendar: BusinessCalendar,
+  start: Date | string,
+  hours: number,
+) => addBusinessTime(calendar, start, hours * HOUR_MS);
+
+export const getBusinessHoursBetween = (
+  calendar: BusinessCalendar,
+  start: Date | string,
+  end: Date | string,
+) => getBusinessTimeBetween(calendar, start, end) / HOUR_MS;
+
+// iCalendar (RFC 5545) import
+
+const unescapeICalText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char,
+  );
+
+// "20261225" or "20261225T000000Z" to the day number of its date
+const parseICalDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{6}))?/.exec(value.trim());
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return DATE_PATTERN.test(date) && isValidDate({ date })
+    ? {
+        day: toDayNumber(date),
+        hasTime: match[4] !== undefined,
+        time: match[4],
+      }
+    : null;
+};
+
+interface ICalEvent {
+  summary?: string;
+  start?: string;
+  end?: string;
+  rrule?: string;
+  exdates: string[];
+  cancelled: boolean;
+}
+
+// Unfold continuation lines and split each event into its properties.
+// Parameters such as VALUE=DATE or TZID are not needed: holidays are whole
+// local days, so only the date part of a start or end counts.
+const readICalEvents = (text: string) => {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n");
+  const events: ICalEvent[] = [];
+  let event: ICalEvent | null = null;
+
+  lines.forEach((line) => {
+    const separator = line.indexOf(":");
+    if (separator < 0) return;
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      event = { exdates: [], cancelled: false };
+    } else if (name === "END" && value.toUpperCase() === "VEVENT") {
+      if (event) events.push(event);
+      event = null;
+    } else if (event) {
+      if (name === "SUMMARY") event.summary = unescapeICalText(value);
+      if (name === "DTSTART") event.start = value;
+      if (name === "DTEND") event.end = value;
+      if (name === "RRULE") event.rrule = value;
+      if (name === "EXDATE") event.exdates.push(...value.split(","));
+      if (name === "STATUS") {
+        event.cancelled = value.toUpperCase() === "CANCELLED";
+      }
+    }
+  });
+  return events;
+};
+
+// Years in which a yearly rule repeats, from its COUNT, UNTIL and INTERVAL
+const getYearlyOccurrences = (
+  rrule: string,
+  firstDay: number,
+  lastDay: number,
+) => {
+  const rule = Object.fromEntries(
+    rrule.split(";").map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value];
+    }),
+  );
+  if (rule.FREQ?.toUpperCase() !== "YEARLY") return [firstDay];
+
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const until = rule.UNTIL
+    ? (parseICalDate(rule.UNTIL)?.day ?? lastDay)
+    : lastDay;
+  const [year, month, date] = toDateString(firstDay).split("-").map(Number);
+
+  const days: number[] = [];
+  for (let index = 0; days.length < count; index++) {
+    const occurrence = Date.UTC(year + index * interval, month - 1, date);
+    const day = occurrence / DAY_MS;
+    if (day > Math.min(until, lastDay)) break;
+    // Skip dates that do not exist that year, such as February 29
+    if (new Date(occurrence).getUTCDate() === date) days.push(day);
+  }
+  return days;
+};
+
+// Holidays from an iCalendar file, such as a public holiday feed. Each
+// event covers the days from its start up to its end; yearly recurring
+// events are repeated until `until` ("YYYY-MM-DD", default: end of the
+// year five years from now). Other recurrence rules keep only the first
+// occurrence. Cancelled events and EXDATE exceptions are left out.
+export const parseICalHolidays = (
+  text: string,
+  {
+    until = `${new Date().getUTCFullYear() + 5}-12-31`,
+  }: { until?: string } = {},
+): Holiday[] => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error("The file is not an iCalendar file");
+  }
+  const lastDay = toDayNumber(until);
+  const holidays = new Map<string, string>();
+
+  readICalEvents(text).forEach((event) => {
+    const start = event.start && parseICalDate(event.start);
+    if (!start || event.cancelled) return;
+
+    // All-day events end on the day after their last day; a timed event
+    // ending at midnight does too
+    const end = event.end && parseICalDate(event.end);
+    const length = end
+      ? Math.max(
+          1,
+          end.day - start.day + (end.hasTime && end.time !== "000000" ? 1 : 0),
+        )
+      : 1;
+    const excluded = new Set(
+      event.exdates.map((value) => parseICalDate(value)?.day),
+    );
+    const name = event.summary?.trim() || "Holiday";
+
+    const firstDays = event.rrule
+      ? getYearlyOccurrences(event.rrule, start.day, lastDay)
+      : [start.day];
+    firstDays
+      .filter((day) => !excluded.has(day))
+      .forEach((firstDay) => {
+        for (let offset = 0; offset < length; offset++) {
+          const date = toDateString(firstDay + offset);
+          if (!holidays.has(date)) holidays.set(date, name);
+        }
+      });
+  });
+
+  return [...holidays.entries()]
+    .map(([date, name]) => ({ date, name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Combine holiday lists, keeping the first name given for each date
+export const mergeHolidays = (...lists: Holiday[][]): Holiday[] => {
+  const merged = new Map<string, Holiday>();
+  lists.flat().forEach((holiday) => {
+    if (!merged.has(holiday.date)) merged.set(holiday.date, holiday);
+  });
+  return [...merged.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,7 @@
+import { apiRequest } from "./apiClient";
+import { BusinessCalendar } from "./businessCalendar";
+
+export const fetchBusinessCalendar = async (): Promise<BusinessCalendar> => {
+  const data = await apiRequest<{ calendar: BusinessCalendar }>("/calendar");
+  return data.calendar;
+};
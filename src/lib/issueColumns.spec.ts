@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TABLE_COLUMNS,
+  MAX_COLUMN_WIDTH,
+  MIN_COLUMN_WIDTH,
+  getColumnText,
+  moveColumn,
+  normalizeTableColumns,
+  toggleColumn,
+} from "./issueColumns";
+import { makeIssue } from "./test/fixtures";
+
+const issue = makeIssue("issue-1", {
+  type: "technical",
+  title: "Login fails",
+  priority: "high",
+  status: "in-progress",
+  submittedAt: new Date(2026, 8, 1),
+  updatedAt: new Date(2026, 8, 2),
+  tags: ["login", "auth"],
+  technicalDetails: { systemType: "Web app", browser: "Firefox" },
+});
+
+describe("normalizeTableColumns", () => {
+  it("should use the default columns when nothing is saved", () => {
+    expect(normalizeTableColumns(null)).toEqual(DEFAULT_TABLE_COLUMNS);
+    expect(normalizeTableColumns([{ id: "gone", width: 100 }])).toEqual(
+      DEFAULT_TABLE_COLUMNS,
+    );
+  });
+
+  it("should drop unknown and repeated columns and clamp widths", () => {
+    expect(
+      normalizeTableColumns([
+        { id: "platform", width: 5 },
+        { id: "unknown", width: 100 },
+        { id: "platform", width: 200 },
+        { id: "title", width: 5000 },
+      ]),
+    ).toEqual([
+      { id: "platform", width: MIN_COLUMN_WIDTH },
+      { id: "title", width: MAX_COLUMN_WIDTH },
+    ]);
+  });
+});
+
+describe("moveColumn", () => {
+  const columns = [
+    { id: "title", width: 100 },
+    { id: "status", width: 100 },
+    { id: "type", width: 100 },
+  ];
+
+  it("should move a column to the given position", () => {
+    expect(moveColumn(columns, 2, 0).map(({ id }) => id)).toEqual([
+      "type",
+      "title",
+      "status",
+    ]);
+  });
+
+  it("should ignore moves past either end", () => {
+    expect(moveColumn(columns, 0, -1)).toBe(columns);
+    expect(moveColumn(columns, 2, 3)).toBe(columns);
+  });
+});
+
+describe("toggleColumn", () => {
+  it("should append a hidden column and remove a shown one", () => {
+    const shown = toggleColumn([{ id: "title", width: 100 }], "department");
+
+    expect(shown.map(({ id }) => id)).toEqual(["title", "department"]);
+    expect(toggleColumn(shown, "title").map(({ id }) => id)).toEqual([
+      "department",
+    ]);
+  });
+});
+
+describe("getColumnText", () => {
+  it("should read type-specific fields", () => {
+    expect(getColumnText(issue, "systemType")).toBe("Web app");
+    expect(getColumnText(issue, "platform")).toBe("");
+  });
+
+  it("should resolve user names and format lists", () => {
+    const getUserName = (userId: string) =>
+      userId === "user-1" ? "Alex" : undefined;
+
+    expect(getColumnText(issue, "submitter", { getUserName })).toBe("Alex");
+    expect(getColumnText(issue, "assignee", { getUserName })).toBe("");
+    expect(getColumnText(issue, "tags")).toBe("login, auth");
+    expect(getColumnText(issue, "status")).toBe("In Progress");
+  });
+});
@@ -0,0 +1,209 @@
+import { format } from "date-fns";
+import { Issue, IssueType, TableColumnSetting } from "./types";
+import { IssueSortKey } from "./issueGrouping";
+import { getStatusLabel } from "./workflow";
+import { getTeamName } from "./assignment";
+
+export type IssueColumnId =
+  | "title"
+  | "status"
+  | "type"
+  | "priority"
+  | "assignee"
+  | "submitter"
+  | "team"
+  | "tags"
+  | "submittedAt"
+  | "updatedAt"
+  | "contentType"
+  | "platform"
+  | "audience"
+  | "deadline"
+  | "systemType"
+  | "browser"
+  | "category"
+  | "department"
+  | "urgency";
+
+export interface IssueColumn {
+  label: string;
+  defaultWidth: number;
+  // Server-side sort key behind the column header, if it can be sorted
+  sortKey?: IssueSortKey;
+  // Set for columns that only have values for one issue type
+  issueType?: IssueType;
+}
+
+export const ISSUE_COLUMNS: Record<IssueColumnId, IssueColumn> = {
+  title: { label: "Title", defaultWidth: 320, sortKey: "title" },
+  status: { label: "Status", defaultWidth: 150, sortKey: "status" },
+  type: { label: "Type", defaultWidth: 110, sortKey: "type" },
+  priority: { label: "Priority", defaultWidth: 120, sortKey: "priority" },
+  assignee: { label: "Assignee", defaultWidth: 150 },
+  submitter: { label: "Submitted by", defaultWidth: 150 },
+  team: { label: "Team", defaultWidth: 130 },
+  tags: { label: "Tags", defaultWidth: 180 },
+  submittedAt: {
+    label: "Submitted",
+    defaultWidth: 130,
+    sortKey: "submittedAt",
+  },
+  updatedAt: { label: "Updated", defaultWidth: 140, sortKey: "updatedAt" },
+  contentType: {
+    label: "Content type",
+    defaultWidth: 130,
+    issueType: "content",
+  },
+  platform: { label: "Platform", defaultWidth: 130, issueType: "content" },
+  audience: { label: "Audience", defaultWidth: 130, issueType: "content" },
+  deadline: {
+    label: "Deadline",
+    defaultWidth: 130,
+    sortKey: "deadline",
+    issueType: "content",
+  },
+  systemType: {
+    label: "System",
+    defaultWidth: 130,
+    issueType: "technical",
+  },
+  browser: { label: "Browser", defaultWidth: 130, issueType: "technical" },
+  category: { label: "Category", defaultWidth: 130, issueType: "general" },
+  department: {
+    label: "Department",
+    defaultWidth: 130,
+    issueType: "general",
+  },
+  urgency: { label: "Urgency", defaultWidth: 110, issueType: "general" },
+};
+
+export const COLUMN_IDS = Object.keys(ISSUE_COLUMNS) as IssueColumnId[];
+
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 800;
+
+const DEFAULT_COLUMN_IDS: IssueColumnId[] = [
+  "title",
+  "status",
+  "priority",
+  "type",
+  "assignee",
+  "updatedAt",
+];
+
+export const DEFAULT_TABLE_COLUMNS: TableColumnSetting[] =
+  DEFAULT_COLUMN_IDS.map((id) => ({
+    id,
+    width: ISSUE_COLUMNS[id].defaultWidth,
+  }));
+
+export const isColumnId = (id: unknown): id is IssueColumnId =>
+  typeof id === "string" && COLUMN_IDS.includes(id as IssueColumnId);
+
+export const clampColumnWidth = (width: number) =>
+  Math.round(Math.min(Math.max(width, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH));
+
+// Drop unknown and repeated columns and keep widths in range, so settings
+// saved by an older version still work. Falls back to the default columns
+// when nothing usable is left.
+export const normalizeTableColumns = (
+  settings: TableColumnSetting[] | null | undefined,
+): TableColumnSetting[] => {
+  const seen = new Set<string>();
+  const columns = (settings ?? []).flatMap((setting) => {
+    if (!isColumnId(setting?.id) || seen.has(setting.id)) return [];
+    seen.add(setting.id);
+    return [
+      {
+        id: setting.id,
+        width: clampColumnWidth(
+          Number.isFinite(setting.width)
+            ? setting.width
+            : ISSUE_COLUMNS[setting.id].defaultWidth,
+        ),
+      },
+    ];
+  });
+
+  return columns.length > 0 ? columns : DEFAULT_TABLE_COLUMNS;
+};
+
+// Returns a copy with the column at `from` moved to index `to`
+export const moveColumn = (
+  columns: TableColumnSetting[],
+  from: number,
+  to: number,
+) => {
+  if (from === to || to < 0 || to >= columns.length) return columns;
+  const moved = [...columns];
+  const [column] = moved.splice(from, 1);
+  moved.splice(to, 0, column);
+  return moved;
+};
+
+// Shows or hides a column; a shown column is added at the end
+export const toggleColumn = (
+  columns: TableColumnSetting[],
+  id: IssueColumnId,
+) =>
+  columns.some((column) => column.id === id)
+    ? columns.filter((column) => column.id !== id)
+    : [...columns, { id, width: ISSUE_COLUMNS[id].defaultWidth }];
+
+export interface ColumnContext {
+  getUserName?: (userId: string) => string | undefined;
+}
+
+const formatDate = (value: Date | string | undefined, pattern: string) =>
+  value ? format(new Date(value), pattern) : "";
+
+// Plain text of one cell; empty when the issue has no value, e.g. a
+// type-specific field of another issue type
+export const getColumnText = (
+  issue: Issue,
+  id: IssueColumnId,
+  { getUserName }: ColumnContext = {},
+): string => {
+  switch (id) {
+    case "title":
+      return issue.title;
+    case "status":
+      return getStatusLabel(issue.status);
+    case "type":
+      return issue.type.charAt(0).toUpperCase() + issue.type.slice(1);
+    case "priority":
+      return issue.priority.charAt(0).toUpperCase() + issue.priority.slice(1);
+    case "assignee":
+      return issue.assigneeId
+        ? (getUserName?.(issue.assigneeId) ?? "Unknown user")
+        : "";
+    case "submitter":
+      return getUserName?.(issue.submittedBy) ?? "Unknown user";
+    case "team":
+      return issue.team ? (getTeamName(issue.team) ?? issue.team) : "";
+    case "tags":
+      return issue.tags.join(", ");
+    case "submittedAt":
+      return formatDate(issue.submittedAt, "MMM d, yyyy");
+    case "updatedAt":
+      return formatDate(issue.updatedAt, "MMM d, HH:mm");
+    case "contentType":
+      return issue.contentDetails?.contentType ?? "";
+    case "platform":
+      return issue.contentDetails?.platform ?? "";
+    case "audience":
+      return issue.contentDetails?.audience ?? "";
+    case "deadline":
+      return formatDate(issue.contentDetails?.deadline, "MMM d, yyyy");
+    case "systemType":
+      return issue.technicalDetails?.systemType ?? "";
+    case "browser":
+      return issue.technicalDetails?.browser ?? "";
+    case "category":
+      return issue.generalDetails?.category ?? "";
+    case "department":
+      return issue.generalDetails?.department ?? "";
+    case "urgency":
+      return issue.generalDetails?.urgency ?? "";
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildIssueExport,
+  escapeCsvValue,
+  formatTranscript,
+  getCsvHeaders,
+} from "./issueExport";
+import { ChatMessage } from "./types";
+import { makeIssue } from "./test/fixtures";
+
+const issue = makeIssue("issue-1", {
+  type: "content",
+  title: 'Banner says "Sale", not "Sold"',
+  description: "First line\nsecond line",
+  priority: "high",
+  submittedAt: new Date("2026-09-01T10:00:00Z"),
+  updatedAt: new Date("2026-09-02T10:00:00Z"),
+  tags: ["banner", "copy"],
+  contentDetails: {
+    contentType: "Image",
+    platform: "Website",
+    audience: "Customers",
+    deadline: new Date("2026-09-30T00:00:00Z"),
+  },
+});
+
+const messages: ChatMessage[] = [
+  {
+    id: "m1",
+    issueId: "issue-1",
+    sender: "Alex",
+    message: "Any update?",
+    timestamp: new Date("2026-09-01T11:00:00Z"),
+    isSystem: false,
+  },
+  {
+    id: "m2",
+    issueId: "issue-1",
+    sender: "Mike",
+    message: "Checking with design",
+    timestamp: new Date("2026-09-01T12:00:00Z"),
+    isSystem: false,
+    isInternal: true,
+  },
+];
+
+describe("escapeCsvValue", () => {
+  it("should quote values with commas, quotes or line breaks", () => {
+    expect(escapeCsvValue("plain")).toBe("plain");
+    expect(escapeCsvValue("a,b")).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue("two\nlines")).toBe('"two\nlines"');
+    expect(escapeCsvValue(null)).toBe("");
+  });
+
+  it("should stop spreadsheets from running values as formulas", () => {
+    expect(escapeCsvValue("=SUM(A1:A3)")).toBe("'=SUM(A1:A3)");
+    expect(escapeCsvValue("@cmd")).toBe("'@cmd");
+  });
+});
+
+describe("buildIssueExport", () => {
+  it("should flatten type-specific details into their own columns", () => {
+    const [header, row] = buildIssueExport([issue], "csv").split("\r\n");
+    const headers = header.split(",");
+
+    expect(headers).toEqual(getCsvHeaders(false));
+    expect(headers).toContain("contentDetails.platform");
+    expect(row).toContain(",Website,Customers,2026-09-30T00:00:00.000Z,");
+    expect(row).toContain('"Banner says ""Sale"", not ""Sold"""');
+    expect(row).toContain("banner; copy");
+  });
+
+  it("should add the conversation when messages are given", () => {
+    const csv = buildIssueExport([issue], "csv", {
+      getMessages: () => messages,
+    });
+
+    expect(csv.split("\r\n")[0].endsWith(",conversation")).toBe(true);
+    expect(csv).toContain(formatTranscript(messages));
+  });
+
+  it("should keep the issue shape in JSON", () => {
+    const [exported] = JSON.parse(
+      buildIssueExport([issue], "json", { getMessages: () => messages }),
+    );
+
+    expect(exported.contentDetails.platform).toBe("Website");
+    expect(exported.messages).toHaveLength(2);
+  });
+});
+
+describe("formatTranscript", () => {
+  it("should write one line per message and mark internal notes", () => {
+    expect(formatTranscript(messages)).toBe(
+      "[2026-09-01T11:00:00.000Z] Alex: Any update?\n" +
+        "[2026-09-01T12:00:00.000Z] Mike (internal): Checking with design",
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import { ChatMessage, Issue } from "./types";
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json"];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+export interface ExportContext {
+  getUserName?: (userId: string) => string | undefined;
+}
+
+interface ExportColumn {
+  header: string;
+  value: (issue: Issue, context: ExportContext) => unknown;
+}
+
+// Dates may be Date objects (client) or ISO strings (server records)
+const toIsoString = (value: Date | string | undefined) =>
+  value ? new Date(value).toISOString() : "";
+
+// CSV columns in order. Type-specific details are flattened into
+// `<details>.<field>` columns, which stay empty for other issue types.
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: "id", value: (issue) => issue.id },
+  { header: "type", value: (issue) => issue.type },
+  { header: "title", value: (issue) => issue.title },
+  { header: "description", value: (issue) => issue.description },
+  { header: "status", value: (issue) => issue.status },
+  { header: "priority", value: (issue) => issue.priority },
+  { header: "submittedBy", value: (issue) => issue.submittedBy },
+  {
+    header: "submittedByName",
+    value: (issue, { getUserName }) => getUserName?.(issue.submittedBy),
+  },
+  { header: "submittedAt", value: (issue) => toIsoString(issue.submittedAt) },
+  { header: "updatedAt", value: (issue) => toIsoString(issue.updatedAt) },
+  { header: "assigneeId", value: (issue) => issue.assigneeId },
+  {
+    header: "assigneeName",
+    value: (issue, { getUserName }) =>
+      issue.assigneeId ? getUserName?.(issue.assigneeId) : "",
+  },
+  { header: "team", value: (issue) => issue.team },
+  { header: "resolutionNote", value: (issue) => issue.resolutionNote },
+  { header: "tags", value: (issue) => issue.tags.join("; ") },
+  {
+    header: "attachments",
+    value: (issue) => issue.mediaFiles.map((file) => file.url).join(" "),
+  },
+  {
+    header: "contentDetails.contentType",
+    value: (issue) => issue.contentDetails?.contentType,
+  },
+  {
+    header: "contentDetails.platform",
+    value: (issue) => issue.contentDetails?.platform,
+  },
+  {
+    header: "contentDetails.audience",
+    value: (issue) => issue.contentDetails?.audience,
+  },
+  {
+    header: "contentDetails.deadline",
+    value: (issue) => toIsoString(issue.contentDetails?.deadline),
+  },
+  {
+    header: "technicalDetails.systemType",
+    value: (issue) => issue.technicalDetails?.systemType,
+  },
+  {
+    header: "technicalDetails.browser",
+    value: (issue) => issue.technicalDetails?.browser,
+  },
+  {
+    header: "technicalDetails.errorMessage",
+    value: (issue) => issue.technicalDetails?.errorMessage,
+  },
+  {
+    header: "technicalDetails.stepsToReproduce",
+    value: (issue) => issue.technicalDetails?.stepsToReproduce,
+  },
+  {
+    header: "generalDetails.category",
+    value: (issue) => issue.generalDetails?.category,
+  },
+  {
+    header: "generalDetails.department",
+    value: (issue) => issue.generalDetails?.department,
+  },
+  {
+    header: "generalDetails.urgency",
+    value: (issue) => issue.generalDetails?.urgency,
+  },
+];
+
+// Column holding the chat transcript when conversations are included
+export const CONVERSATION_HEADER = "conversation";
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote values that need it and defuse formulas with a leading apostrophe
+export const escapeCsvValue = (value: unknown) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (values: unknown[]) =>
+  `${values.map(escapeCsvValue).join(",")}\r\n`;
+
+export const getCsvHeaders = (includeMessages: boolean) => [
+  ...EXPORT_COLUMNS.map((column) => column.header),
+  ...(includeMessages ? [CONVERSATION_HEADER] : []),
+];
+
+// One line per message, oldest first
+export const formatTranscript = (messages: ChatMessage[]) =>
+  messages
+    .map(
+      (message) =>
+        `[${toIsoString(message.timestamp)}] ${message.sender}${
+          message.isInternal ? " (internal)" : ""
+        }: ${message.message}`,
+    )
+    .join("\n");
+
+// Pass `messages` to add the transcript column
+export const issueToCsvLine = (
+  issue: Issue,
+  context: ExportContext,
+  messages?: ChatMessage[],
+) =>
+  toCsvLine([
+    ...EXPORT_COLUMNS.map((column) => column.value(issue, context)),
+    ...(messages ? [formatTranscript(messages)] : []),
+  ]);
+
+// JSON keeps the issue's own shape, with its thread under `messages`
+export const issueToJson = (issue: Issue, messages?: ChatMessage[]) =>
+  JSON.stringify(messages ? { ...issue, messages } : issue);
+
+// The whole export as one string, for building the file in the browser.
+// The server writes the same lines one issue at a time.
+export const buildIssueExport = (
+  issues: Issue[],
+  format: ExportFormat,
+  {
+    context = {},
+    getMessages,
+  }: {
+    context?: ExportContext;
+    // Include conversations by passing a lookup of each issue's thread
+    getMessages?: (issueId: string) => ChatMessage[];
+  } = {},
+) => {
+  if (format === "json") {
+    return `[${issues
+      .map((issue) => issueToJson(issue, getMessages?.(issue.id)))
+      .join(",\n")}]\n`;
+  }
+  return [
+    toCsvLine(getCsvHeaders(Boolean(getMessages))),
+    ...issues.map((issue) =>
+      issueToCsvLine(issue, context, getMessages?.(issue.id)),
+    ),
+  ].join("");
+};
+
+export const getExportFileName = (format: ExportFormat, date = new Date()) =>
+  `issues-${date.toISOString().slice(0, 10)}.${format}`;
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ISSUE_FILTERS,
+  isSameListQuery,
+  parseIssueFilters,
+  serializeIssueFilters,
+} from "./issueFilters";
+
+describe("parseIssueFilters", () => {
+  it("should read every filter from the query string", () => {
+    const filters = parseIssueFilters(
+      new URLSearchParams(
+        "q=login%20page&status=in-progress&type=technical&priority=urgent&sla=at-risk&assigned=me&sort=priority&dir=asc&group=assignee&layout=board",
+      ),
+    );
+
+    expect(filters).toEqual({
+      search: "login page",
+      status: "in-progress",
+      type: "technical",
+      priority: "urgent",
+      sla: "at-risk",
+      assignedToMe: true,
+      sort: "priority",
+      sortDirection: "asc",
+      groupBy: "assignee",
+      layout: "board",
+    });
+  });
+
+  it("should fall back to defaults for missing or unknown values", () => {
+    expect(
+      parseIssueFilters(
+        new URLSearchParams("status=archived&type=&sort=size&group=colour"),
+      ),
+    ).toEqual(DEFAULT_ISSUE_FILTERS);
+  });
+});
+
+describe("serializeIssueFilters", () => {
+  it("should leave default filters out of the query string", () => {
+    expect(serializeIssueFilters(DEFAULT_ISSUE_FILTERS).toString()).toBe("");
+  });
+
+  it("should round-trip through parseIssueFilters", () => {
+    const filters = {
+      ...DEFAULT_ISSUE_FILTERS,
+      search: "a&b",
+      priority: "high" as const,
+    };
+
+    expect(parseIssueFilters(serializeIssueFilters(filters))).toEqual(filters);
+  });
+});
+
+describe("sort and grouping parameters", () => {
+  it("should default the direction to the sort key's natural one", () => {
+    expect(
+      parseIssueFilters(new URLSearchParams("sort=deadline&group=tag")),
+    ).toMatchObject({ sort: "deadline", sortDirection: "asc", groupBy: "tag" });
+  });
+
+  it("should only keep a direction that differs from the default", () => {
+    const params = (sortDirection: "asc" | "desc") =>
+      serializeIssueFilters({
+        ...DEFAULT_ISSUE_FILTERS,
+        sort: "title",
+        sortDirection,
+      }).toString();
+
+    expect(params("asc")).toBe("sort=title");
+    expect(params("desc")).toBe("sort=title&dir=desc");
+  });
+});
+
+describe("isSameListQuery", () => {
+  it("should ignore parameter order and a leading question mark", () => {
+    expect(
+      isSameListQuery(
+        "?status=open&type=technical",
+        "type=technical&status=open",
+      ),
+    ).toBe(true);
+    expect(isSameListQuery("status=open", "status=resolved")).toBe(false);
+    expect(isSameListQuery("", "?")).toBe(true);
+  });
+});
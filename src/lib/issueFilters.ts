@@ -0,0 +1,168 @@
+import { Issue, IssueType, Priority, ResolutionStatus } from "./types";
+import {
+  SearchContext,
+  matchesSearchQuery,
+  parseSearchQuery,
+} from "./searchQuery";
+import {
+  GROUP_OPTIONS,
+  IssueGroupKey,
+  IssueSortKey,
+  SORT_OPTIONS,
+  SortDirection,
+} from "./issueGrouping";
+import { getIssueSla } from "./sla";
+import { BusinessCalendar } from "./businessCalendar";
+
+// How the issue list is shown
+export type IssueLayout = "list" | "board" | "table";
+
+// What filtering needs beyond the filters themselves
+export interface FilterContext extends SearchContext {
+  // Counts business time for the SLA filter; defaults to DEFAULT_CALENDAR
+  calendar?: BusinessCalendar;
+}
+
+// Issues whose SLA needs attention: "at-risk" is close to a deadline,
+// "breached" missed one
+export type SlaFilter = "all" | "at-risk" | "breached";
+
+export interface IssueFilters {
+  search: string;
+  status: ResolutionStatus | "all";
+  type: IssueType | "all";
+  priority: Priority | "all";
+  sla: SlaFilter;
+  assignedToMe: boolean;
+  sort: IssueSortKey;
+  sortDirection: SortDirection;
+  groupBy: IssueGroupKey;
+  layout: IssueLayout;
+}
+
+export const DEFAULT_ISSUE_FILTERS: IssueFilters = {
+  search: "",
+  status: "all",
+  type: "all",
+  priority: "all",
+  sla: "all",
+  assignedToMe: false,
+  sort: "updatedAt",
+  sortDirection: "desc",
+  groupBy: "status",
+  layout: "list",
+};
+
+const STATUSES: ResolutionStatus[] = [
+  "open",
+  "in-progress",
+  "resolved",
+  "closed",
+];
+const TYPES: IssueType[] = ["content", "technical", "general"];
+const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"];
+const SLA_FILTERS: SlaFilter[] = ["at-risk", "breached"];
+
+const SORT_KEYS = Object.keys(SORT_OPTIONS) as IssueSortKey[];
+const GROUP_KEYS = Object.keys(GROUP_OPTIONS) as IssueGroupKey[];
+const LAYOUTS: IssueLayout[] = ["list", "board", "table"];
+
+const pick = <T extends string>(value: string | null, allowed: T[]) =>
+  allowed.includes(value as T) ? (value as T) : "all";
+
+const pickOr = <T extends string>(
+  value: string | null,
+  allowed: T[],
+  fallback: T,
+) => (allowed.includes(value as T) ? (value as T) : fallback);
+
+// Read filters from a query string such as
+// `?q=login&status=open&type=technical&priority=high&sla=breached&assigned=me&sort=priority&dir=asc&group=type&layout=board`.
+// Unknown values fall back to the defaults so an old or hand-edited link
+// still opens.
+export const parseIssueFilters = (params: URLSearchParams): IssueFilters => {
+  const sort = pickOr(params.get("sort"), SORT_KEYS, "updatedAt");
+
+  return {
+    search: params.get("q") ?? "",
+    status: pick(params.get("status"), STATUSES),
+    type: pick(params.get("type"), TYPES),
+    priority: pick(params.get("priority"), PRIORITIES),
+    sla: pick(params.get("sla"), SLA_FILTERS),
+    assignedToMe: params.get("assigned") === "me",
+    sort,
+    sortDirection: pickOr<SortDirection>(
+      params.get("dir"),
+      ["asc", "desc"],
+      SORT_OPTIONS[sort].defaultDirection,
+    ),
+    groupBy: pickOr(params.get("group"), GROUP_KEYS, "status"),
+    layout: pickOr<IssueLayout>(params.get("layout"), LAYOUTS, "list"),
+  };
+};
+
+// Inverse of parseIssueFilters; defaults are left out to keep links short
+export const serializeIssueFilters = (filters: IssueFilters) => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("q", filters.search);
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.type !== "all") params.set("type", filters.type);
+  if (filters.priority !== "all") params.set("priority", filters.priority);
+  if (filters.sla !== "all") params.set("sla", filters.sla);
+  if (filters.assignedToMe) params.set("assigned", "me");
+  if (filters.sort !== DEFAULT_ISSUE_FILTERS.sort) {
+    params.set("sort", filters.sort);
+  }
+  // The direction is only kept when it differs from the sort key's natural one
+  if (filters.sortDirection !== SORT_OPTIONS[filters.sort].defaultDirection) {
+    params.set("dir", filters.sortDirection);
+  }
+  if (filters.groupBy !== DEFAULT_ISSUE_FILTERS.groupBy) {
+    params.set("group", filters.groupBy);
+  }
+  if (filters.layout !== DEFAULT_ISSUE_FILTERS.layout) {
+    params.set("layout", filters.layout);
+  }
+  return params;
+};
+
+// Test for one issue against every filter. Search errors are ignored here;
+// check parseSearchQuery first. The SLA filter is evaluated at `now` and
+// checked last, as counting business time is by far the slowest part.
+export const createIssueFilter = (
+  filters: IssueFilters,
+  context: FilterContext = {},
+  now = new Date(),
+) => {
+  const query = parseSearchQuery(filters.search);
+
+  return (issue: Issue) =>
+    (filters.status === "all" || issue.status === filters.status) &&
+    (filters.type === "all" || issue.type === filters.type) &&
+    (filters.priority === "all" || issue.priority === filters.priority) &&
+    (!filters.assignedToMe ||
+      (Boolean(issue.assigneeId) &&
+        issue.assigneeId === context.currentUserId)) &&
+    matchesSearchQuery(issue, query, context) &&
+    (filters.sla === "all" ||
+      getIssueSla(issue, now, context.calendar).state === filters.sla);
+};
+
+// Issues matching every filter. Sorting and grouping are left to the
+// caller.
+export const filterIssues = (
+  issues: Issue[],
+  filters: IssueFilters,
+  context: FilterContext = {},
+  now = new Date(),
+) => issues.filter(createIssueFilter(filters, context, now));
+
+// Query strings compare equal regardless of parameter order or a leading "?"
+export const isSameListQuery = (a: string, b: string) => {
+  const normalize = (query: string) => {
+    const params = new URLSearchParams(query);
+    params.sort();
+    return params.toString();
+  };
+  return normalize(a) === normalize(b);
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { groupIssues, sortIssues } from "./issueGrouping";
+import { Issue } from "./types";
+import { makeIssue } from "./test/fixtures";
+
+const ids = (issues: Issue[]) => issues.map((issue) => issue.id);
+
+describe("sortIssues", () => {
+  it("should sort priorities by rank", () => {
+    const issues = [
+      makeIssue("a", { priority: "low" }),
+      makeIssue("b", { priority: "urgent" }),
+      makeIssue("c", { priority: "high" }),
+    ];
+
+    expect(ids(sortIssues(issues, "priority", "desc"))).toEqual([
+      "b",
+      "c",
+      "a",
+    ]);
+    expect(ids(sortIssues(issues, "priority", "asc"))).toEqual(["a", "c", "b"]);
+  });
+
+  it("should sort statuses in workflow order", () => {
+    const issues = [
+      makeIssue("a", { status: "closed" }),
+      makeIssue("b", { status: "open" }),
+      makeIssue("c", { status: "in-progress" }),
+    ];
+
+    expect(ids(sortIssues(issues, "status", "asc"))).toEqual(["b", "c", "a"]);
+  });
+
+  it("should put issues without a deadline last in both directions", () => {
+    const deadline = (day: number) => ({
+      contentType: "video",
+      platform: "web",
+      audience: "all",
+      deadline: new Date(2026, 9, day),
+    });
+    const issues = [
+      makeIssue("none"),
+      makeIssue("late", { contentDetails: deadline(20) }),
+      makeIssue("soon", { contentDetails: deadline(5) }),
+    ];
+
+    expect(ids(sortIssues(issues, "deadline", "asc"))).toEqual([
+      "soon",
+      "late",
+      "none",
+    ]);
+    expect(ids(sortIssues(issues, "deadline", "desc"))).toEqual([
+      "late",
+      "soon",
+      "none",
+    ]);
+  });
+
+  it("should break ties by most recent update", () => {
+    const issues = [
+      makeIssue("old", { title: "Same", updatedAt: new Date(2026, 8, 1) }),
+      makeIssue("new", { title: "same", updatedAt: new Date(2026, 8, 2) }),
+    ];
+
+    expect(ids(sortIssues(issues, "title", "asc"))).toEqual(["new", "old"]);
+  });
+});
+
+describe("groupIssues", () => {
+  it("should list every status, even empty ones", () => {
+    const groups = groupIssues(
+      [makeIssue("a", { status: "resolved" })],
+      "status",
+    );
+
+    expect(groups.map(({ key, issues }) => [key, issues.length])).toEqual([
+      ["open", 0],
+      ["in-progress", 0],
+      ["resolved", 1],
+      ["closed", 0],
+    ]);
+  });
+
+  it("should put an issue in each of its tag groups, untagged last", () => {
+    const groups = groupIssues(
+      [
+        makeIssue("a", { tags: ["ui", "bug"] }),
+        makeIssue("b"),
+        makeIssue("c", { tags: ["bug"] }),
+      ],
+      "tag",
+    );
+
+    expect(groups.map(({ label, issues }) => [label, ids(issues)])).toEqual([
+      ["bug", ["a", "c"]],
+      ["ui", ["a"]],
+      ["No tags", ["b"]],
+    ]);
+  });
+
+  it("should label assignee and department groups", () => {
+    const getUserName = (userId: string) => ({ "user-3": "Mike Chen" })[userId];
+
+    expect(
+      groupIssues(
+        [makeIssue("a", { assigneeId: "user-3" }), makeIssue("b")],
+        "assignee",
+        { getUserName },
+      ).map(({ label }) => label),
+    ).toEqual(["Mike Chen", "Unassigned"]);
+    expect(
+      groupIssues(
+        [
+          makeIssue("a", {
+            generalDetails: {
+              category: "billing",
+              department: "Finance",
+              urgency: "low",
+            },
+          }),
+          makeIssue("b"),
+        ],
+        "department",
+      ).map(({ label }) => label),
+    ).toEqual(["Finance", "No department"]);
+  });
+});
@@ -0,0 +1,232 @@
+import { Issue, IssueType, Priority, ResolutionStatus } from "./types";
+import { getStatusLabel } from "./workflow";
+
+export type IssueSortKey =
+  | "updatedAt"
+  | "submittedAt"
+  | "priority"
+  | "deadline"
+  | "title"
+  | "status"
+  | "type";
+
+export type SortDirection = "asc" | "desc";
+
+export type IssueGroupKey =
+  | "status"
+  | "type"
+  | "priority"
+  | "assignee"
+  | "tag"
+  | "department";
+
+interface SortOption {
+  label: string;
+  // Direction used when the sort key is picked
+  defaultDirection: SortDirection;
+}
+
+export const SORT_OPTIONS: Record<IssueSortKey, SortOption> = {
+  updatedAt: { label: "Last updated", defaultDirection: "desc" },
+  submittedAt: { label: "Submitted", defaultDirection: "desc" },
+  priority: { label: "Priority", defaultDirection: "desc" },
+  deadline: { label: "Deadline", defaultDirection: "asc" },
+  title: { label: "Title", defaultDirection: "asc" },
+  status: { label: "Status", defaultDirection: "asc" },
+  type: { label: "Type", defaultDirection: "asc" },
+};
+
+export const GROUP_OPTIONS: Record<IssueGroupKey, string> = {
+  status: "Status",
+  type: "Type",
+  priority: "Priority",
+  assignee: "Assignee",
+  tag: "Tag",
+  department: "Department",
+};
+
+export interface IssueGroup {
+  key: string;
+  label: string;
+  issues: Issue[];
+}
+
+export interface GroupingContext {
+  getUserName?: (userId: string) => string | undefined;
+}
+
+const STATUSES: ResolutionStatus[] = [
+  "open",
+  "in-progress",
+  "resolved",
+  "closed",
+];
+const TYPES: IssueType[] = ["content", "technical", "general"];
+const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"];
+
+// Key for issues that have no value for the grouped field
+export const NO_GROUP_KEY = "none";
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const toTime = (value: Date | string) => new Date(value).getTime();
+
+const sortValue = (issue: Issue, key: IssueSortKey) => {
+  switch (key) {
+    case "updatedAt":
+      return toTime(issue.updatedAt);
+    case "submittedAt":
+      return toTime(issue.submittedAt);
+    case "priority":
+      return PRIORITIES.indexOf(issue.priority);
+    case "deadline":
+      return issue.contentDetails?.deadline
+        ? toTime(issue.contentDetails.deadline)
+        : null;
+    case "title":
+      return issue.title.toLowerCase();
+    // Statuses sort in workflow order rather than alphabetically
+    case "status":
+      return STATUSES.indexOf(issue.status);
+    case "type":
+      return issue.type;
+  }
+};
+
+// Where an issue falls in a sorted list: the sort value, then the most
+// recently updated first, then the id. Ids are unique, so this is a total
+// order and a position can serve as a pagination cursor.
+export type IssueSortPosition = [number | string | null, number, string];
+
+export const getSortPosition = (
+  issue: Issue,
+  key: IssueSortKey,
+): IssueSortPosition => [
+  sortValue(issue, key),
+  toTime(issue.updatedAt),
+  issue.id,
+];
+
+// Issues without a value for the key (no deadline) go last in either
+// direction
+export const compareSortPositions = (
+  [leftValue, leftUpdated, leftId]: IssueSortPosition,
+  [rightValue, rightUpdated, rightId]: IssueSortPosition,
+  direction: SortDirection,
+) => {
+  if (leftValue !== rightValue) {
+    if (leftValue === null) return 1;
+    if (rightValue === null) return -1;
+    return (leftValue < rightValue ? -1 : 1) * (direction === "asc" ? 1 : -1);
+  }
+  if (leftUpdated !== rightUpdated) return rightUpdated - leftUpdated;
+  return leftId < rightId ? -1 : leftId > rightId ? 1 : 0;
+};
+
+// Returns a sorted copy
+export const sortIssues = (
+  issues: Issue[],
+  key: IssueSortKey,
+  direction: SortDirection,
+) =>
+  issues
+    .map((issue) => ({ issue, position: getSortPosition(issue, key) }))
+    .sort((a, b) => compareSortPositions(a.position, b.position, direction))
+    .map(({ issue }) => issue);
+
+// Values an issue is grouped under; an issue with several tags appears in
+// each of their groups
+export const getGroupKeys = (
+  issue: Issue,
+  groupBy: IssueGroupKey,
+): string[] => {
+  switch (groupBy) {
+    case "status":
+      return [issue.status];
+    case "type":
+      return [issue.type];
+    case "priority":
+      return [issue.priority];
+    case "assignee":
+      return [issue.assigneeId || NO_GROUP_KEY];
+    case "tag":
+      return issue.tags.length > 0 ? issue.tags : [NO_GROUP_KEY];
+    case "department":
+      return [issue.generalDetails?.department?.trim() || NO_GROUP_KEY];
+  }
+};
+
+const groupLabel = (
+  key: string,
+  groupBy: IssueGroupKey,
+  context: GroupingContext,
+) => {
+  if (key === NO_GROUP_KEY) {
+    switch (groupBy) {
+      case "assignee":
+        return "Unassigned";
+      case "tag":
+        return "No tags";
+      default:
+        return "No department";
+    }
+  }
+
+  switch (groupBy) {
+    case "status":
+      return getStatusLabel(key as ResolutionStatus);
+    case "type":
+    case "priority":
+      return capitalize(key);
+    case "assignee":
+      return context.getUserName?.(key) ?? "Unknown user";
+    default:
+      return key;
+  }
+};
+
+// Fixed groups that are shown even when empty, in display order
+const fixedGroupKeys = (groupBy: IssueGroupKey): string[] | null => {
+  switch (groupBy) {
+    case "status":
+      return STATUSES;
+    case "type":
+      return TYPES;
+    case "priority":
+      return [...PRIORITIES].reverse();
+    default:
+      return null;
+  }
+};
+
+// Split already sorted issues into groups, keeping their order within each
+// group. Status, type and priority always list every value; the other
+// groupings list the values in use alphabetically with the "none" group last.
+export const groupIssues = (
+  issues: Issue[],
+  groupBy: IssueGroupKey,
+  context: GroupingContext = {},
+): IssueGroup[] => {
+  const byKey = new Map<string, Issue[]>();
+  for (const issue of issues) {
+    for (const key of getGroupKeys(issue, groupBy)) {
+      if (!byKey.has(key)) byKey.set(key, []);
+      byKey.get(key).push(issue);
+    }
+  }
+
+  const groups = (fixedGroupKeys(groupBy) ?? [...byKey.keys()]).map((key) => ({
+    key,
+    label: groupLabel(key, groupBy, context),
+    issues: byKey.get(key) ?? [],
+  }));
+
+  if (fixedGroupKeys(groupBy)) return groups;
+
+  return groups.sort((a, b) => {
+    if (a.key === NO_GROUP_KEY) return 1;
+    if (b.key === NO_GROUP_KEY) return -1;
+    return a.label.localeCompare(b.label);
+  });
+};
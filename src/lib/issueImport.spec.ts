@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  IGNORE_COLUMN,
+  ImportContext,
+  buildImportRows,
+  guessColumnMapping,
+  parseCsv,
+  parseImportFile,
+} from "./issueImport";
+import { buildIssueExport } from "./issueExport";
+import { makeIssue } from "./test/fixtures";
+
+const context: ImportContext = {
+  users: [
+    { id: "u1", name: "Mike", email: "mike@company.com", role: "support" },
+    { id: "u2", name: "Alex", email: "alex@company.com", role: "user" },
+  ],
+};
+
+describe("parseCsv", () => {
+  it("should handle quoted commas, quotes and line breaks", () => {
+    expect(
+      parseCsv('\uFEFFtitle,notes\r\n"a, b","say ""hi""\nthere"\r\nc,\n'),
+    ).toEqual([
+      ["title", "notes"],
+      ["a, b", 'say "hi"\nthere'],
+      ["c", ""],
+    ]);
+  });
+
+  it("should reject an unterminated quote", () => {
+    expect(() => parseCsv('title\n"open')).toThrow();
+  });
+});
+
+describe("parseImportFile", () => {
+  it("should flatten JSON issues into the export's column names", () => {
+    const { headers, records } = parseImportFile(
+      JSON.stringify([
+        {
+          title: "Broken link",
+          tags: ["web", "links"],
+          contentDetails: { platform: "Website" },
+        },
+      ]),
+      "json",
+    );
+
+    expect(headers).toEqual(["title", "tags", "contentDetails.platform"]);
+    expect(records[0]).toEqual({
+      title: "Broken link",
+      tags: "web; links",
+      "contentDetails.platform": "Website",
+    });
+  });
+
+  it("should explain files it cannot read", () => {
+    expect(() => parseImportFile("{", "json")).toThrow("not valid JSON");
+    expect(() => parseImportFile('{"a":1}', "json")).toThrow(
+      "Expected a list of issues",
+    );
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("should match field ids and aliases once each", () => {
+    expect(
+      guessColumnMapping(["Summary", "Due Date", "title", "assigneeName", "x"]),
+    ).toEqual({
+      Summary: "title",
+      "Due Date": "contentDetails.deadline",
+      title: IGNORE_COLUMN,
+      assigneeName: "assignee",
+      x: IGNORE_COLUMN,
+    });
+  });
+});
+
+describe("buildImportRows", () => {
+  const importCsv = (csv: string) => {
+    const { headers, records } = parseImportFile(csv, "csv");
+    return buildImportRows(records, guessColumnMapping(headers), context);
+  };
+
+  it("should build issues with details for their type only", () => {
+    const [row] = importCsv(
+      "title,description,type,priority,status,assignee,platform,browser,tags\n" +
+        "Login fails,Error 500,Technical,High,In Progress,mike@company.com,Web,Firefox,auth; login",
+    );
+
+    expect(row.errors).toEqual([]);
+    expect(row.issue).toMatchObject({
+      type: "technical",
+      priority: "high",
+      status: "in-progress",
+      assigneeId: "u1",
+      tags: ["auth", "login"],
+      technicalDetails: { systemType: "", browser: "Firefox" },
+    });
+    expect(row.issue.contentDetails).toBeUndefined();
+  });
+
+  it("should report every problem in a row", () => {
+    const [row] = importCsv(
+      "title,description,type,priority,assignee\n,Text,bug,someday,Alex",
+    );
+
+    expect(row.issue).toBeUndefined();
+    expect(row.errors).toEqual([
+      "Title is required",
+      'Unknown type "bug"; use content, technical, general',
+      'Unknown priority "someday"; use low, medium, high, urgent',
+      "Alex cannot be assigned issues",
+    ]);
+  });
+
+  it("should reject unknown statuses", () => {
+    const [row] = importCsv(
+      "title,description,type,status\nCopy,Fix it,general,in-review",
+    );
+
+    expect(row.errors).toEqual(['Unknown status "in-review"']);
+  });
+
+  it("should read back an export", () => {
+    const exported = makeIssue("issue-1", {
+      type: "content",
+      title: "=Banner",
+      description: "Update the banner",
+      priority: "low",
+      status: "resolved",
+      resolutionNote: "Done",
+      submittedBy: "u2",
+      tags: ["banner"],
+      contentDetails: {
+        contentType: "Image",
+        platform: "Website",
+        audience: "Customers",
+        deadline: new Date("2026-09-30T00:00:00Z"),
+      },
+    });
+
+    const [row] = importCsv(buildIssueExport([exported], "csv"));
+
+    expect(row.errors).toEqual([]);
+    expect(row.issue).toEqual({
+      type: "content",
+      title: "=Banner",
+      description: "Update the banner",
+      priority: "low",
+      status: "resolved",
+      resolutionNote: "Done",
+      tags: ["banner"],
+      mediaFiles: [],
+      contentDetails: exported.contentDetails,
+    });
+  });
+});
@@ -0,0 +1,431 @@
+import { Issue, IssueType, Priority, ResolutionStatus, User } from "./types";
+import { TEAMS, isAssignable } from "./assignment";
+import { DONE_STATUSES, STATUS_LABELS, getWorkflow } from "./workflow";
+
+// Issues sent to the server per import request
+export const IMPORT_BATCH_SIZE = 50;
+
+export type ImportFieldId =
+  | "title"
+  | "description"
+  | "type"
+  | "priority"
+  | "status"
+  | "resolutionNote"
+  | "tags"
+  | "assignee"
+  | "team"
+  | "contentDetails.contentType"
+  | "contentDetails.platform"
+  | "contentDetails.audience"
+  | "contentDetails.deadline"
+  | "technicalDetails.systemType"
+  | "technicalDetails.browser"
+  | "technicalDetails.errorMessage"
+  | "technicalDetails.stepsToReproduce"
+  | "generalDetails.category"
+  | "generalDetails.department"
+  | "generalDetails.urgency";
+
+// Mapping target for columns that should not be imported
+export const IGNORE_COLUMN = "ignore";
+
+export type ColumnMapping = Record<
+  string,
+  ImportFieldId | typeof IGNORE_COLUMN
+>;
+
+interface ImportField {
+  label: string;
+  // Other column names this field is recognized by, lowercased and without
+  // spaces, dashes or underscores. The field id itself always matches.
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportFieldId, ImportField> = {
+  title: { label: "Title", aliases: ["summary", "subject", "name"] },
+  description: { label: "Description", aliases: ["details", "body"] },
+  type: { label: "Type", aliases: ["issuetype", "kind"] },
+  priority: { label: "Priority", aliases: ["severity"] },
+  status: { label: "Status", aliases: ["state"] },
+  resolutionNote: { label: "Resolution note", aliases: ["resolution"] },
+  tags: { label: "Tags", aliases: ["labels", "tag"] },
+  assignee: {
+    label: "Assignee (id, name or email)",
+    aliases: ["assigneeid", "assigneename", "assignedto", "owner"],
+  },
+  team: { label: "Team", aliases: [] },
+  "contentDetails.contentType": {
+    label: "Content type",
+    aliases: ["contenttype"],
+  },
+  "contentDetails.platform": { label: "Platform", aliases: ["platform"] },
+  "contentDetails.audience": { label: "Audience", aliases: ["audience"] },
+  "contentDetails.deadline": {
+    label: "Deadline",
+    aliases: ["deadline", "duedate", "due"],
+  },
+  "technicalDetails.systemType": {
+    label: "System",
+    aliases: ["systemtype", "system"],
+  },
+  "technicalDetails.browser": { label: "Browser", aliases: ["browser"] },
+  "technicalDetails.errorMessage": {
+    label: "Error message",
+    aliases: ["errormessage", "error"],
+  },
+  "technicalDetails.stepsToReproduce": {
+    label: "Steps to reproduce",
+    aliases: ["stepstoreproduce", "steps"],
+  },
+  "generalDetails.category": { label: "Category", aliases: ["category"] },
+  "generalDetails.department": {
+    label: "Department",
+    aliases: ["department"],
+  },
+  "generalDetails.urgency": { label: "Urgency", aliases: ["urgency"] },
+};
+
+export const IMPORT_FIELD_IDS = Object.keys(IMPORT_FIELDS) as ImportFieldId[];
+
+const ISSUE_TYPES: IssueType[] = ["content", "technical", "general"];
+const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"];
+
+// A file's rows keyed by column name, in file order
+export interface ParsedImportFile {
+  headers: string[];
+  records: Record<string, string>[];
+}
+
+// What the server receives for one imported issue
+export type IssueImport = Pick<
+  Issue,
+  "type" | "title" | "description" | "priority" | "tags" | "mediaFiles"
+> &
+  Partial<
+    Pick<
+      Issue,
+      | "status"
+      | "resolutionNote"
+      | "assigneeId"
+      | "team"
+      | "contentDetails"
+      | "technicalDetails"
+      | "generalDetails"
+    >
+  >;
+
+export interface ImportRow {
+  // Position of the record in the file, counting from 1 and skipping the
+  // CSV header and blank lines
+  line: number;
+  issue?: IssueImport;
+  errors: string[];
+}
+
+export interface ImportContext {
+  users: Pick<User, "id" | "name" | "email" | "role">[];
+}
+
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/[\s_-]/g, "");
+
+// Parse CSV text into rows of cells. Handles quoted cells with commas,
+// line breaks and doubled quotes, CRLF line endings and a leading BOM.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error("The file ends inside a quoted value");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Nested objects become `<key>.<field>` columns and lists are joined, so
+// JSON exports map onto the same columns as CSV ones
+const flattenRecord = (value: Record<string, unknown>) => {
+  const record: Record<string, string> = {};
+  const add = (key: string, item: unknown) => {
+    if (item === null || item === undefined) return;
+    if (Array.isArray(item)) {
+      if (item.every((entry) => typeof entry !== "object")) {
+        record[key] = item.join("; ");
+      }
+    } else if (typeof item === "object") {
+      Object.entries(item).forEach(([field, nested]) =>
+        add(`${key}.${field}`, nested),
+      );
+    } else {
+      record[key] = String(item);
+    }
+  };
+  Object.entries(value).forEach(([key, item]) => add(key, item));
+  return record;
+};
+
+// Read a CSV file (first row holds the column names) or a JSON array of
+// issues, also accepted as `{ "issues": [...] }`. Throws with a message
+// for the user when the file cannot be read.
+export const parseImportFile = (
+  text: string,
+  format: "csv" | "json",
+): ParsedImportFile => {
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    const items = Array.isArray(data)
+      ? data
+      : (data as { issues?: unknown })?.issues;
+    if (
+      !Array.isArray(items) ||
+      items.some((item) => !item || typeof item !== "object")
+    ) {
+      throw new Error("Expected a list of issues");
+    }
+    const records = items.map((item) =>
+      flattenRecord(item as Record<string, unknown>),
+    );
+    const headers = [...new Set(records.flatMap(Object.keys))];
+    return { headers, records };
+  }
+
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map((header) => header.trim());
+  if (headers.every((header) => !header)) {
+    throw new Error("The file has no column names in its first row");
+  }
+  const records = rows
+    .filter((row) => row.some((cell) => cell.trim()))
+    .map((row) =>
+      Object.fromEntries(
+        headers.map((header, index) => [header, row[index] ?? ""]),
+      ),
+    );
+  return { headers, records };
+};
+
+// Match columns to fields by name. Each field is used at most once; later
+// columns for the same field are ignored.
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportFieldId>();
+
+  return Object.fromEntries(
+    headers.map((header) => {
+      const name = normalizeName(header);
+      const field = IMPORT_FIELD_IDS.find(
+        (id) =>
+          !used.has(id) &&
+          (normalizeName(id) === name ||
+            IMPORT_FIELDS[id].aliases.includes(name)),
+      );
+      if (field) used.add(field);
+      return [header, field ?? IGNORE_COLUMN];
+    }),
+  );
+};
+
+// Exports prefix formula-like cells with an apostrophe; take it off again
+const cleanValue = (value: string | undefined) =>
+  (value ?? "").trim().replace(/^'(?=[=+\-@\t\r])/, "");
+
+const findOption = <T extends string>(
+  value: string,
+  options: T[],
+  labels: Partial<Record<T, string>> = {},
+) =>
+  options.find(
+    (option) =>
+      normalizeName(option) === normalizeName(value) ||
+      (labels[option] &&
+        normalizeName(labels[option]) === normalizeName(value)),
+  );
+
+// Turn one record into the issue it describes, collecting every problem
+// rather than stopping at the first
+const buildImportIssue = (
+  record: Record<string, string>,
+  mapping: ColumnMapping,
+  { users }: ImportContext,
+) => {
+  const values: Partial<Record<ImportFieldId, string>> = {};
+  Object.entries(mapping).forEach(([header, field]) => {
+    if (field !== IGNORE_COLUMN) values[field] = cleanValue(record[header]);
+  });
+
+  const errors: string[] = [];
+  const title = values.title ?? "";
+  const description = values.description ?? "";
+  if (!title) errors.push("Title is required");
+  if (!description) errors.push("Description is required");
+
+  const type = values.type ? findOption(values.type, ISSUE_TYPES) : undefined;
+  if (!values.type) {
+    errors.push("Type is required");
+  } else if (!type) {
+    errors.push(`Unknown type "${values.type}"; use ${ISSUE_TYPES.join(", ")}`);
+  }
+
+  const priority = values.priority
+    ? findOption(values.priority, PRIORITIES)
+    : "medium";
+  if (!priority) {
+    errors.push(
+      `Unknown priority "${values.priority}"; use ${PRIORITIES.join(", ")}`,
+    );
+  }
+
+  let status: ResolutionStatus | undefined;
+  if (values.status) {
+    status = findOption(
+      values.status,
+      Object.keys(STATUS_LABELS) as ResolutionStatus[],
+      STATUS_LABELS,
+    );
+    if (!status) {
+      errors.push(`Unknown status "${values.status}"`);
+    } else if (type && !getWorkflow(type).states.includes(status)) {
+      errors.push(`"${values.status}" is not a status of ${type} issues`);
+    }
+  }
+
+  let assigneeId: string | undefined;
+  if (values.assignee) {
+    const wanted = values.assignee.toLowerCase();
+    const assignee = users.find((user) =>
+      [user.id, user.email, user.name].some(
+        (key) => key?.toLowerCase() === wanted,
+      ),
+    );
+    if (!assignee) {
+      errors.push(`Unknown assignee "${values.assignee}"`);
+    } else if (!isAssignable(assignee)) {
+      errors.push(`${assignee.name} cannot be assigned issues`);
+    } else {
+      assigneeId = assignee.id;
+    }
+  }
+
+  let team: string | undefined;
+  if (values.team) {
+    team = findOption(
+      values.team,
+      TEAMS.map(({ id }) => id),
+      Object.fromEntries(TEAMS.map(({ id, name }) => [id, name])),
+    );
+    if (!team) errors.push(`Unknown team "${values.team}"`);
+  }
+
+  let deadline: Date | undefined;
+  if (values["contentDetails.deadline"]) {
+    deadline = new Date(values["contentDetails.deadline"]);
+    if (Number.isNaN(deadline.getTime())) {
+      errors.push(`Invalid deadline "${values["contentDetails.deadline"]}"`);
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+
+  // Details of other issue types are dropped, e.g. the empty columns of
+  // an export with mixed types
+  const issue: IssueImport = {
+    type,
+    title,
+    description,
+    priority,
+    tags: [
+      ...new Set(
+        (values.tags ?? "")
+          .split(/[;,]/)
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      ),
+    ],
+    mediaFiles: [],
+    ...(status && { status }),
+    ...(status &&
+      DONE_STATUSES.includes(status) &&
+      values.resolutionNote && { resolutionNote: values.resolutionNote }),
+    ...(assigneeId && { assigneeId }),
+    ...(team && { team }),
+  };
+  if (type === "content") {
+    issue.contentDetails = {
+      contentType: values["contentDetails.contentType"] ?? "",
+      platform: values["contentDetails.platform"] ?? "",
+      audience: values["contentDetails.audience"] ?? "",
+      ...(deadline && { deadline }),
+    };
+  } else if (type === "technical") {
+    issue.technicalDetails = {
+      systemType: values["technicalDetails.systemType"] ?? "",
+      ...(values["technicalDetails.browser"] && {
+        browser: values["technicalDetails.browser"],
+      }),
+      ...(values["technicalDetails.errorMessage"] && {
+        errorMessage: values["technicalDetails.errorMessage"],
+      }),
+      ...(values["technicalDetails.stepsToReproduce"] && {
+        stepsToReproduce: values["technicalDetails.stepsToReproduce"],
+      }),
+    };
+  } else {
+    issue.generalDetails = {
+      category: values["generalDetails.category"] ?? "",
+      department: values["generalDetails.department"] ?? "",
+      urgency: values["generalDetails.urgency"] ?? "",
+    };
+  }
+
+  return { issue, errors };
+};
+
+// The dry run: every record with the issue it would create or the reasons
+// it cannot be imported
+export const buildImportRows = (
+  records: Record<string, string>[],
+  mapping: ColumnMapping,
+  context: ImportContext,
+): ImportRow[] =>
+  records.map((record, index) => ({
+    line: index + 1,
+    ...buildImportIssue(record, mapping, context),
+  }));
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { buildIssuePage } from "./issuePagination";
+import { DEFAULT_ISSUE_FILTERS, IssueFilters } from "./issueFilters";
+import { getSortPosition } from "./issueGrouping";
+import { Issue } from "./types";
+import { makeIssue } from "./test/fixtures";
+
+const makeNumberedIssue = (index: number, overrides: Partial<Issue> = {}) =>
+  makeIssue(`issue-${index}`, {
+    type: index % 2 === 0 ? "technical" : "content",
+    // Same timestamp for several issues, so ties must be broken by id
+    updatedAt: new Date(Date.UTC(2026, 8, 1 + (index % 3))),
+    ...overrides,
+  });
+
+const issues = Array.from({ length: 10 }, (_, index) =>
+  makeNumberedIssue(index),
+);
+
+const readAllPages = (filters: IssueFilters, limit: number) => {
+  const seen: string[] = [];
+  let after = null;
+  for (;;) {
+    const page = buildIssuePage(issues, { filters, after, limit });
+    seen.push(...page.issues.map((issue) => issue.id));
+    if (!page.hasMore) return seen;
+    after = getSortPosition(page.issues[page.issues.length - 1], filters.sort);
+  }
+};
+
+describe("buildIssuePage", () => {
+  it("should return every issue exactly once across pages", () => {
+    const seen = readAllPages(DEFAULT_ISSUE_FILTERS, 3);
+
+    expect(seen).toHaveLength(10);
+    expect(new Set(seen).size).toBe(10);
+  });
+
+  it("should keep the sort order across page boundaries", () => {
+    const filters = { ...DEFAULT_ISSUE_FILTERS, sort: "title" as const };
+
+    expect(readAllPages({ ...filters, sortDirection: "asc" }, 4)).toEqual(
+      [...issues]
+        .sort((a, b) => a.title.localeCompare(b.title))
+        .map((issue) => issue.id),
+    );
+  });
+
+  it("should count groups over all matching issues but page one group", () => {
+    const page = buildIssuePage(issues, {
+      filters: { ...DEFAULT_ISSUE_FILTERS, groupBy: "type" },
+      groupValue: "technical",
+      limit: 2,
+    });
+
+    expect(page.total).toBe(10);
+    expect(page.groups.map(({ key, count }) => [key, count])).toEqual([
+      ["content", 5],
+      ["technical", 5],
+      ["general", 0],
+    ]);
+    expect(page.issues.every((issue) => issue.type === "technical")).toBe(true);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it("should apply the list filters", () => {
+    const page = buildIssuePage(
+      [
+        makeNumberedIssue(1, { assigneeId: "user-3", priority: "high" }),
+        makeNumberedIssue(2, { priority: "high" }),
+        makeNumberedIssue(3, { assigneeId: "user-3" }),
+      ],
+      {
+        filters: {
+          ...DEFAULT_ISSUE_FILTERS,
+          assignedToMe: true,
+          search: "priority:high",
+        },
+        limit: 10,
+      },
+      { currentUserId: "user-3" },
+    );
+
+    expect(page.issues.map((issue) => issue.id)).toEqual(["issue-1"]);
+  });
+});
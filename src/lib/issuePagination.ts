@@ -0,0 +1,128 @@
+import { Issue } from "./types";
+import { FilterContext, IssueFilters, createIssueFilter } from "./issueFilters";
+import {
+  IssueSortKey,
+  IssueSortPosition,
+  SortDirection,
+  compareSortPositions,
+  getGroupKeys,
+  getSortPosition,
+  groupIssues,
+} from "./issueGrouping";
+
+export interface IssuePageRequest {
+  filters: IssueFilters;
+  // Only return issues in this group of `filters.groupBy`
+  groupValue?: string;
+  // Position of the last issue on the previous page
+  after?: IssueSortPosition | null;
+  limit: number;
+}
+
+export interface IssueGroupCount {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface IssuePageResult {
+  issues: Issue[];
+  hasMore: boolean;
+  // Issues matching the filters, across all groups
+  total: number;
+  groups: IssueGroupCount[];
+}
+
+// An issue with its position for one sort key
+export interface SortedIssue {
+  issue: Issue;
+  position: IssueSortPosition;
+}
+
+// Issues in list order for `sort` and `direction`, each with its position.
+// Filtering the result keeps it in order, so one index serves any filters.
+export const indexIssues = (
+  issues: Issue[],
+  sort: IssueSortKey,
+  direction: SortDirection,
+): SortedIssue[] =>
+  issues
+    .map((issue) => ({ issue, position: getSortPosition(issue, sort) }))
+    .sort((a, b) => compareSortPositions(a.position, b.position, direction));
+
+// Index of the first issue that comes after `after`
+const findPageStart = (
+  sorted: SortedIssue[],
+  after: IssueSortPosition,
+  direction: SortDirection,
+) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (compareSortPositions(sorted[middle].position, after, direction) > 0) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+};
+
+// One page of issues that already match the filters and are in list
+// order, e.g. an index from indexIssues narrowed by createIssueFilter
+export const pageSortedIssues = (
+  matching: SortedIssue[],
+  { filters, groupValue, after, limit }: IssuePageRequest,
+  context: FilterContext = {},
+): IssuePageResult => {
+  const groups = groupIssues(
+    matching.map(({ issue }) => issue),
+    filters.groupBy,
+    context,
+  ).map(({ key, label, issues: groupIssueList }) => ({
+    key,
+    label,
+    count: groupIssueList.length,
+  }));
+
+  const page: Issue[] = [];
+  let hasMore = false;
+  const start = after
+    ? findPageStart(matching, after, filters.sortDirection)
+    : 0;
+  for (let index = start; index < matching.length; index++) {
+    const { issue } = matching[index];
+    if (
+      groupValue &&
+      !getGroupKeys(issue, filters.groupBy).includes(groupValue)
+    ) {
+      continue;
+    }
+    if (page.length === limit) {
+      hasMore = true;
+      break;
+    }
+    page.push(issue);
+  }
+
+  return { issues: page, hasMore, total: matching.length, groups };
+};
+
+// One page of the issue list: filter, sort, then continue after the
+// previous page's last position. Used by the client when it falls back to
+// its offline cache; the server keeps a sorted index instead.
+export const buildIssuePage = (
+  issues: Issue[],
+  request: IssuePageRequest,
+  context: FilterContext = {},
+): IssuePageResult =>
+  pageSortedIssues(
+    indexIssues(
+      issues.filter(createIssueFilter(request.filters, context)),
+      request.filters.sort,
+      request.filters.sortDirection,
+    ),
+    request,
+    context,
+  );
@@ -0,0 +1,198 @@
+import { Issue } from "./types";
+import { API_BASE_URL, ApiError, apiRequest } from "./apiClient";
+import { IssueFilters, serializeIssueFilters } from "./issueFilters";
+import { IssueGroupCount } from "./issuePagination";
+import { BatchOperation, BatchResult } from "./bulkActions";
+import { ExportFormat } from "./issueExport";
+import { IssueImport } from "./issueImport";
+
+// Fields the client supplies when creating an issue; the server assigns
+// id, status, submitter and timestamps
+export type IssueInput = Omit<
+  Issue,
+  "id" | "status" | "submittedBy" | "submittedAt" | "updatedAt"
+>;
+
+export type IssueChanges = Partial<
+  Pick<
+    Issue,
+    | "title"
+    | "description"
+    | "priority"
+    | "status"
+    | "resolutionNote"
+    | "assigneeId"
+    | "team"
+    | "tags"
+    | "mediaFiles"
+    | "contentDetails"
+    | "technicalDetails"
+    | "generalDetails"
+  >
+>;
+
+// Convert date strings from the JSON payload back to Date objects
+export const parseIssue = (issue: any): Issue => ({
+  ...issue,
+  submittedAt: new Date(issue.submittedAt),
+  updatedAt: new Date(issue.updatedAt),
+  firstResponseAt: issue.firstResponseAt
+    ? new Date(issue.firstResponseAt)
+    : issue.firstResponseAt,
+  resolvedAt: issue.resolvedAt ? new Date(issue.resolvedAt) : issue.resolvedAt,
+  mediaFiles: (issue.mediaFiles || []).map((file: any) => ({
+    ...file,
+    uploadedAt: new Date(file.uploadedAt),
+  })),
+  contentDetails: issue.contentDetails
+    ? {
+        ...issue.contentDetails,
+        deadline: issue.contentDetails.deadline
+          ? new Date(issue.contentDetails.deadline)
+          : undefined,
+      }
+    : undefined,
+});
+
+export const fetchIssues = async (): Promise<Issue[]> => {
+  const data = await apiRequest<{ issues: unknown[] }>("/issues");
+  return data.issues.map(parseIssue);
+};
+
+export const ISSUE_PAGE_SIZE = 50;
+
+export interface IssuePage {
+  issues: Issue[];
+  // Pass back as `cursor` to load the next page; null on the last page
+  nextCursor: string | null;
+  // Issues matching the filters, and how many of them are in each group
+  total: number;
+  groups: IssueGroupCount[];
+}
+
+export interface IssuePageParams {
+  filters: IssueFilters;
+  groupValue?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export const fetchIssuePage = async ({
+  filters,
+  groupValue,
+  cursor,
+  limit,
+}: IssuePageParams): Promise<IssuePage> => {
+  const params = serializeIssueFilters(filters);
+  if (groupValue) params.set("groupValue", groupValue);
+  if (cursor) params.set("cursor", cursor);
+  params.set("limit", String(limit ?? ISSUE_PAGE_SIZE));
+
+  const data = await apiRequest<
+    Omit<IssuePage, "issues"> & {
+      issues: unknown[];
+    }
+  >(`/issues?${params}`);
+
+  return {
+    issues: data.issues.map(parseIssue),
+    nextCursor: data.nextCursor,
+    total: data.total,
+    groups: data.groups,
+  };
+};
+
+export const fetchIssue = async (id: string): Promise<Issue> => {
+  const data = await apiRequest<{ issue: unknown }>(`/issues/${id}`);
+  return parseIssue(data.issue);
+};
+
+export const createIssue = async (input: IssueInput): Promise<Issue> => {
+  const data = await apiRequest<{ issue: unknown }>("/issues", {
+    method: "POST",
+    body: input,
+  });
+  return parseIssue(data.issue);
+};
+
+// Pass `expectedUpdatedAt` to have the server reject the update with a 409
+// if the issue changed since that version was loaded
+export const updateIssue = async (
+  id: string,
+  changes: IssueChanges,
+  options: { expectedUpdatedAt?: Date } = {},
+): Promise<Issue> => {
+  const data = await apiRequest<{ issue: unknown }>(`/issues/${id}`, {
+    method: "PATCH",
+    body: { ...changes, expectedUpdatedAt: options.expectedUpdatedAt },
+  });
+  return parseIssue(data.issue);
+};
+
+export const deleteIssue = async (id: string): Promise<void> => {
+  await apiRequest(`/issues/${id}`, { method: "DELETE" });
+};
+
+// Run several operations in one request. The promise resolves even when
+// some of them fail; check each result's `success`.
+export const runIssueBatch = async (
+  operations: BatchOperation[],
+): Promise<BatchResult[]> => {
+  const data = await apiRequest<{
+    results: (Omit<BatchResult, "issue"> & { issue?: unknown })[];
+  }>("/issues/batch", {
+    method: "POST",
+    body: { operations },
+  });
+  return data.results.map((result) => ({
+    ...result,
+    issue: result.issue ? parseIssue(result.issue) : undefined,
+  }));
+};
+
+export interface ImportResult {
+  // Position of the issue in the request
+  index: number;
+  success: boolean;
+  error?: string;
+  issue?: Issue;
+}
+
+export const importIssues = async (
+  issues: IssueImport[],
+): Promise<ImportResult[]> => {
+  const data = await apiRequest<{
+    results: (Omit<ImportResult, "issue"> & { issue?: unknown })[];
+  }>("/issues/import", {
+    method: "POST",
+    body: { issues },
+  });
+  return data.results.map((result) => ({
+    ...result,
+    issue: result.issue ? parseIssue(result.issue) : undefined,
+  }));
+};
+
+// The export file for every issue matching `filters`. Not JSON, so it
+// bypasses apiRequest; errors still arrive as JSON and become ApiErrors.
+export const fetchIssueExport = async (
+  filters: IssueFilters,
+  format: ExportFormat,
+  { includeMessages = false }: { includeMessages?: boolean } = {},
+): Promise<Blob> => {
+  const params = serializeIssueFilters(filters);
+  params.set("format", format);
+  if (includeMessages) params.set("messages", "1");
+
+  const response = await fetch(`${API_BASE_URL}/issues/export?${params}`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(
+      data.error || `Request failed with status ${response.status}`,
+      response.status,
+    );
+  }
+  return response.blob();
+};
@@ -0,0 +1,44 @@
+import { ChatMessage } from "./types";
+import { apiRequest } from "./apiClient";
+
+export interface MessagePage {
+  messages: ChatMessage[];
+  // Pass back as `before` to load the previous page; null at the start
+  nextCursor: string | null;
+}
+
+export const parseChatMessage = (message: any): ChatMessage => ({
+  ...message,
+  timestamp: new Date(message.timestamp),
+});
+
+export const fetchMessages = async (
+  issueId: string,
+  options: { before?: string; limit?: number } = {},
+): Promise<MessagePage> => {
+  const params = new URLSearchParams();
+  if (options.before) params.set("before", options.before);
+  if (options.limit) params.set("limit", String(options.limit));
+  const query = params.toString();
+
+  const data = await apiRequest<{
+    messages: unknown[];
+    nextCursor: string | null;
+  }>(`/issues/${issueId}/messages${query ? `?${query}` : ""}`);
+
+  return {
+    messages: data.messages.map(parseChatMessage),
+    nextCursor: data.nextCursor,
+  };
+};
+
+export const postMessage = async (
+  issueId: string,
+  input: { message: string; isInternal?: boolean },
+): Promise<ChatMessage> => {
+  const data = await apiRequest<{ message: unknown }>(
+    `/issues/${issueId}/messages`,
+    { method: "POST", body: input },
+  );
+  return parseChatMessage(data.message);
+};
@@ -37,14 +37,11 @@ export const mockUsers: User[] = [
   },
 ];
 
-// Current user (mock)
-export const currentUser = mockUsers[0];
-
 // Generate mock issues
 const generateMockIssue = (type: IssueType, index: number): Issue => {
   const baseIssue = {
     id: generateId(),
-    submittedBy: mockUsers[index % mockUsers.length].name,
+    submittedBy: mockUsers[index % mockUsers.length].id,
     submittedAt: new Date(
       Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000,
     ),
@@ -57,6 +54,8 @@ const generateMockIssue = (type: IssueType, index: number): Issue => {
     ],
     mediaFiles: [],
     tags: [],
+    // Most demo issues are picked up by one of the staff accounts
+    assigneeId: Math.random() < 0.7 ? mockUsers[1 + (index % 2)].id : undefined,
   };
 
   switch (type) {
@@ -64,6 +63,7 @@ const generateMockIssue = (type: IssueType, index: number): Issue => {
       return {
         ...baseIssue,
         type: "content",
+        team: "content",
         title: `Content Request: ${["Blog Post", "Social Media", "Newsletter", "Video Script"][index % 4]}`,
         description:
           "Need assistance with content creation and strategy for upcoming campaign.",
@@ -87,6 +87,7 @@ const generateMockIssue = (type: IssueType, index: number): Issue => {
       return {
         ...baseIssue,
         type: "technical",
+        team: "technical",
         title: `Technical Issue: ${["Login Error", "Database Connection", "API Timeout", "UI Bug"][index % 4]}`,
         description:
           "Experiencing technical difficulties that need immediate attention.",
@@ -107,6 +108,7 @@ const generateMockIssue = (type: IssueType, index: number): Issue => {
       return {
         ...baseIssue,
         type: "general",
+        team: "operations",
         title: `General Request: ${["Account Access", "Feature Request", "Policy Question", "Training"][index % 4]}`,
         description:
           "General inquiry that requires attention from the appropriate team.",
@@ -169,6 +171,7 @@ export const generateMockChatMessages = (issueId: string): ChatMessage[] => {
       id: generateId(),
       issueId,
       sender: mockUsers[1 + (i % 2)].name,
+      senderId: mockUsers[1 + (i % 2)].id,
       message: responses[i % responses.length],
       timestamp: new Date(Date.now() - (numMessages - i) * 30 * 60 * 1000),
       isSystem: false,
@@ -178,12 +181,34 @@ export const generateMockChatMessages = (issueId: string): ChatMessage[] => {
   return messages;
 };
 
-// Local storage utilities
+// Local storage utilities. The offline caches belong to the user in
+// CACHE_OWNER and are dropped when someone else signs in.
 export const STORAGE_KEYS = {
   ISSUES: "fusion-issues",
   CHAT_MESSAGES: "fusion-chat-messages",
+  CACHE_OWNER: "fusion-cache-owner",
 } as const;
 
+export const clearOfflineCaches = (): void => {
+  try {
+    Object.values(STORAGE_KEYS).forEach((key) => localStorage.removeItem(key));
+  } catch (error) {
+    console.error("Failed to clear localStorage:", error);
+  }
+};
+
+// Keep the offline caches only if `userId` filled them
+export const claimOfflineCaches = (userId: string): void => {
+  try {
+    if (localStorage.getItem(STORAGE_KEYS.CACHE_OWNER) !== userId) {
+      clearOfflineCaches();
+      localStorage.setItem(STORAGE_KEYS.CACHE_OWNER, userId);
+    }
+  } catch (error) {
+    console.error("Failed to update localStorage:", error);
+  }
+};
+
 export const saveToLocalStorage = <T>(key: string, data: T): void => {
   try {
     localStorage.setItem(key, JSON.stringify(data));
@@ -203,6 +228,12 @@ export const loadFromLocalStorage = <T>(key: string, defaultValue: T): T => {
           ...issue,
           submittedAt: new Date(issue.submittedAt),
           updatedAt: new Date(issue.updatedAt),
+          firstResponseAt: issue.firstResponseAt
+            ? new Date(issue.firstResponseAt)
+            : issue.firstResponseAt,
+          resolvedAt: issue.resolvedAt
+            ? new Date(issue.resolvedAt)
+            : issue.resolvedAt,
           contentDetails: issue.contentDetails
             ? {
                 ...issue.contentDetails,
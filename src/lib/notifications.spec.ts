@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  NotificationContext,
+  describeInboxNotification,
+  findMentionedUsers,
+  getInboxRecipients,
+  getNotificationRecipients,
+  getTemplateValues,
+  normalizeEmailPreferences,
+  renderTemplate,
+} from "./notifications";
+
+const alex = {
+  id: "u1",
+  name: "Alex",
+  email: "alex@company.com",
+  role: "user" as const,
+};
+const mike = {
+  id: "u2",
+  name: "Mike",
+  email: "mike@company.com",
+  role: "support" as const,
+};
+const sarah = {
+  id: "u3",
+  name: "Sarah",
+  email: "sarah@company.com",
+  role: "admin" as const,
+};
+
+const context: NotificationContext = {
+  issue: {
+    id: "issue-1",
+    title: "Login fails",
+    type: "technical",
+    priority: "high",
+    status: "in-progress",
+    submittedBy: alex.id,
+    assigneeId: mike.id,
+  },
+  actor: sarah,
+  users: [alex, mike, sarah],
+};
+
+const recipientIds = (
+  event: Parameters<typeof getNotificationRecipients>[0],
+  changes: Partial<NotificationContext> = {},
+) =>
+  getNotificationRecipients(event, { ...context, ...changes }).map(
+    ({ id }) => id,
+  );
+
+describe("getNotificationRecipients", () => {
+  it("should tell staff about new issues", () => {
+    expect(recipientIds("issue.created", { actor: alex })).toEqual([
+      mike.id,
+      sarah.id,
+    ]);
+  });
+
+  it("should tell the submitter and assignee, but not the actor", () => {
+    expect(recipientIds("issue.status-changed")).toEqual([alex.id, mike.id]);
+    expect(recipientIds("issue.status-changed", { actor: mike })).toEqual([
+      alex.id,
+    ]);
+    expect(recipientIds("issue.assigned")).toEqual([mike.id]);
+    expect(recipientIds("issue.assigned", { actor: mike })).toEqual([]);
+  });
+
+  it("should keep internal and automated messages from the submitter", () => {
+    const message = { message: "Looking into it", isSystem: false };
+
+    expect(recipientIds("message.created", { message })).toEqual([
+      alex.id,
+      mike.id,
+    ]);
+    expect(
+      recipientIds("message.created", {
+        message: { ...message, isInternal: true },
+      }),
+    ).toEqual([mike.id]);
+    expect(
+      recipientIds("message.created", {
+        message: { ...message, isBot: true },
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("normalizeEmailPreferences", () => {
+  it("should default missing events and drop unknown ones", () => {
+    expect(
+      normalizeEmailPreferences({ "message.created": false, digest: true }),
+    ).toEqual({
+      "issue.created": true,
+      "issue.status-changed": true,
+      "issue.assigned": true,
+      "message.created": false,
+    });
+  });
+});
+
+describe("renderTemplate", () => {
+  it("should fill in the issue and people", () => {
+    const values = getTemplateValues(
+      { ...context, previousStatus: "open" },
+      alex,
+      "https://issues.example.com/",
+    );
+
+    expect(
+      renderTemplate(
+        DEFAULT_EMAIL_TEMPLATES["issue.status-changed"].text,
+        values,
+      ),
+    ).toBe(
+      [
+        "Hi Alex,",
+        "",
+        'Sarah moved "Login fails" from Open to In Progress.',
+        "",
+        "View it at https://issues.example.com/issues/issue-1",
+      ].join("\n"),
+    );
+  });
+
+  it("should leave unknown placeholders empty", () => {
+    expect(
+      renderTemplate("{{ issue.title }}{{nope}}!", { "issue.title": "A" }),
+    ).toBe("A!");
+  });
+});
+
+describe("findMentionedUsers", () => {
+  it("should match @handles from email addresses, not addresses", () => {
+    expect(
+      findMentionedUsers(
+        "Thanks @Mike. Copying @sarah, see alex@company.com",
+        context.users,
+      ).map(({ id }) => id),
+    ).toEqual([mike.id, sarah.id]);
+  });
+});
+
+describe("getInboxRecipients", () => {
+  const inbox = (
+    event: Parameters<typeof getInboxRecipients>[0],
+    changes: Partial<NotificationContext> = {},
+    followerIds: string[] = [],
+  ) => getInboxRecipients(event, { ...context, ...changes, followerIds });
+
+  it("should tell the submitter and followers about status changes", () => {
+    expect(inbox("issue.status-changed", {}, [mike.id])).toEqual([
+      { userId: alex.id, type: "status-change" },
+      { userId: mike.id, type: "status-change" },
+    ]);
+    expect(inbox("issue.assigned")).toEqual([
+      { userId: mike.id, type: "assignment" },
+    ]);
+  });
+
+  it("should prefer a mention over a reply", () => {
+    const message = { message: "@alex can you check?", isSystem: false };
+
+    expect(
+      inbox("message.created", { actor: mike, message }, [sarah.id]),
+    ).toEqual([
+      { userId: alex.id, type: "mention" },
+      { userId: sarah.id, type: "reply" },
+    ]);
+  });
+
+  it("should not show internal notes to users who cannot read them", () => {
+    const message = {
+      message: "@alex @sarah internal",
+      isSystem: false,
+      isInternal: true,
+    };
+
+    expect(inbox("message.created", { actor: mike, message })).toEqual([
+      { userId: sarah.id, type: "mention" },
+    ]);
+  });
+});
+
+describe("describeInboxNotification", () => {
+  it("should name the actor and the change", () => {
+    expect(
+      describeInboxNotification({
+        type: "status-change",
+        actorName: "Mike",
+        status: "resolved",
+      }),
+    ).toBe("Mike changed the status to Resolved");
+  });
+});
@@ -0,0 +1,305 @@
+import {
+  ChatMessage,
+  InboxNotification,
+  Issue,
+  ResolutionStatus,
+  User,
+} from "./types";
+import { hasPermission } from "./permissions";
+import { getStatusLabel } from "./workflow";
+
+// Issue events users can be emailed about. Names follow the automation
+// events in automation.ts.
+export type NotificationEvent =
+  | "issue.created"
+  | "issue.status-changed"
+  | "issue.assigned"
+  | "message.created";
+
+export const NOTIFICATION_EVENTS: {
+  id: NotificationEvent;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: "issue.created",
+    label: "New issues",
+    description: "Someone submits an issue (support and admins only)",
+  },
+  {
+    id: "issue.status-changed",
+    label: "Status changes",
+    description: "An issue you submitted or are assigned moves to a new status",
+  },
+  {
+    id: "issue.assigned",
+    label: "Assignments",
+    description: "An issue is assigned to you",
+  },
+  {
+    id: "message.created",
+    label: "Chat messages",
+    description: "Someone replies on an issue you submitted or are assigned",
+  },
+];
+
+export type EmailPreferences = Record<NotificationEvent, boolean>;
+
+export const DEFAULT_EMAIL_PREFERENCES: EmailPreferences = {
+  "issue.created": true,
+  "issue.status-changed": true,
+  "issue.assigned": true,
+  "message.created": true,
+};
+
+export interface NotificationPreferences {
+  email: EmailPreferences;
+}
+
+// Stored preferences with unknown events dropped and missing ones defaulted
+export const normalizeEmailPreferences = (value: unknown): EmailPreferences => {
+  const stored = (value && typeof value === "object" ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  return Object.fromEntries(
+    NOTIFICATION_EVENTS.map(({ id }) => [
+      id,
+      typeof stored[id] === "boolean"
+        ? stored[id]
+        : DEFAULT_EMAIL_PREFERENCES[id],
+    ]),
+  ) as EmailPreferences;
+};
+
+export interface NotificationContext {
+  issue: Pick<
+    Issue,
+    | "id"
+    | "title"
+    | "type"
+    | "priority"
+    | "status"
+    | "submittedBy"
+    | "assigneeId"
+  >;
+  // Who caused the event; never notified about it
+  actor: Pick<User, "id" | "name">;
+  users: Pick<User, "id" | "name" | "email" | "role">[];
+  message?: Pick<ChatMessage, "message" | "isSystem" | "isBot" | "isInternal">;
+  previousStatus?: ResolutionStatus;
+}
+
+// Who should hear about an event, before their preferences are applied:
+// staff for new issues, the new assignee for assignments, and the
+// submitter and assignee for everything else. Internal notes only reach
+// users who may read them; automated messages reach nobody.
+export const getNotificationRecipients = (
+  event: NotificationEvent,
+  { issue, actor, users, message }: NotificationContext,
+) => {
+  const byId = (id: string | null | undefined) =>
+    users.find((user) => user.id === id);
+  let recipients: NotificationContext["users"];
+
+  switch (event) {
+    case "issue.created":
+      recipients = users.filter((user) =>
+        hasPermission(user, "issue.reassign"),
+      );
+      break;
+    case "issue.assigned":
+      recipients = [byId(issue.assigneeId)];
+      break;
+    case "message.created":
+      if (!message || message.isSystem || message.isBot) return [];
+      recipients = [byId(issue.submittedBy), byId(issue.assigneeId)].filter(
+        (user) =>
+          user &&
+          (!message.isInternal ||
+            hasPermission(user, "issue.view-internal-notes")),
+      );
+      break;
+    default:
+      recipients = [byId(issue.submittedBy), byId(issue.assigneeId)];
+  }
+
+  return recipients.filter(
+    (user, index) =>
+      user &&
+      user.id !== actor.id &&
+      recipients.findIndex((other) => other?.id === user.id) === index,
+  );
+};
+
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+}
+
+// Placeholders are written {{name}}; see getTemplateValues for the names.
+// EMAIL_TEMPLATES_PATH on the server can override any of these.
+export const DEFAULT_EMAIL_TEMPLATES: Record<NotificationEvent, EmailTemplate> =
+  {
+    "issue.created": {
+      subject: "New {{issue.type}} issue: {{issue.title}}",
+      text: [
+        "Hi {{recipient.name}},",
+        "",
+        "{{actor.name}} submitted a new {{issue.priority}} priority {{issue.type}} issue:",
+        "",
+        "{{issue.title}}",
+        "",
+        "View it at {{issue.url}}",
+      ].join("\n"),
+    },
+    "issue.status-changed": {
+      subject: "{{issue.title}} is now {{issue.status}}",
+      text: [
+        "Hi {{recipient.name}},",
+        "",
+        '{{actor.name}} moved "{{issue.title}}" from {{previousStatus}} to {{issue.status}}.',
+        "",
+        "View it at {{issue.url}}",
+      ].join("\n"),
+    },
+    "issue.assigned": {
+      subject: "Assigned to you: {{issue.title}}",
+      text: [
+        "Hi {{recipient.name}},",
+        "",
+        '{{actor.name}} assigned you the {{issue.priority}} priority issue "{{issue.title}}".',
+        "",
+        "View it at {{issue.url}}",
+      ].join("\n"),
+    },
+    "message.created": {
+      subject: "New message on {{issue.title}}",
+      text: [
+        "Hi {{recipient.name}},",
+        "",
+        '{{actor.name}} wrote on "{{issue.title}}":',
+        "",
+        "{{message}}",
+        "",
+        "Reply at {{issue.url}}/chat",
+      ].join("\n"),
+    },
+  };
+
+// Replaces {{name}} placeholders; unknown names become empty
+export const renderTemplate = (
+  template: string,
+  values: Record<string, string>,
+) =>
+  template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name) => values[name] ?? "");
+
+export const getTemplateValues = (
+  { issue, actor, message, previousStatus }: NotificationContext,
+  recipient: Pick<User, "name">,
+  appUrl: string,
+): Record<string, string> => ({
+  "recipient.name": recipient.name,
+  "actor.name": actor.name,
+  "issue.id": issue.id,
+  "issue.title": issue.title,
+  "issue.type": issue.type,
+  "issue.priority": issue.priority,
+  "issue.status": getStatusLabel(issue.status),
+  "issue.url": `${appUrl.replace(/\/$/, "")}/issues/${issue.id}`,
+  previousStatus: previousStatus ? getStatusLabel(previousStatus) : "",
+  message: message?.message ?? "",
+});
+
+export type InboxNotificationType = InboxNotification["type"];
+
+export const INBOX_EXCERPT_LENGTH = 140;
+
+// People are mentioned as @handle, the part of their email before the @
+export const getMentionHandle = (user: Pick<User, "email">) =>
+  user.email.split("@")[0].toLowerCase();
+
+export const findMentionedUsers = <T extends Pick<User, "email">>(
+  text: string,
+  users: T[],
+) => {
+  const handles = new Set(
+    [...text.matchAll(/(?:^|[^\w.@])@([\w.+-]+)/g)].map(([, handle]) =>
+      handle.replace(/\.+$/, "").toLowerCase(),
+    ),
+  );
+  return users.filter((user) => handles.has(getMentionHandle(user)));
+};
+
+export interface InboxContext extends NotificationContext {
+  // Users following the issue besides its submitter
+  followerIds: string[];
+}
+
+// Inbox entries for an event: mentions and assignments go to the people
+// named, status changes and replies to the submitter and followers. Each
+// user gets at most one entry per event, a mention taking precedence
+// over a reply, and nobody hears about their own actions.
+export const getInboxRecipients = (
+  event: NotificationEvent,
+  { issue, actor, users, message, followerIds }: InboxContext,
+): { userId: string; type: InboxNotificationType }[] => {
+  const watchers = [issue.submittedBy, ...followerIds];
+  let entries: { userId: string; type: InboxNotificationType }[] = [];
+
+  switch (event) {
+    case "issue.assigned":
+      if (issue.assigneeId) {
+        entries = [{ userId: issue.assigneeId, type: "assignment" }];
+      }
+      break;
+    case "issue.status-changed":
+      entries = watchers.map((userId) => ({ userId, type: "status-change" }));
+      break;
+    case "message.created": {
+      if (!message || message.isSystem || message.isBot) return [];
+      const mentioned = findMentionedUsers(message.message, users);
+      entries = [
+        ...mentioned.map(({ id }) => ({
+          userId: id,
+          type: "mention" as const,
+        })),
+        ...watchers.map((userId) => ({ userId, type: "reply" as const })),
+      ];
+      break;
+    }
+  }
+
+  const canRead = (userId: string) => {
+    const user = users.find(({ id }) => id === userId);
+    return (
+      Boolean(user) &&
+      (!message?.isInternal || hasPermission(user, "issue.view-internal-notes"))
+    );
+  };
+  return entries.filter(
+    ({ userId }, index) =>
+      userId !== actor.id &&
+      canRead(userId) &&
+      entries.findIndex((entry) => entry.userId === userId) === index,
+  );
+};
+
+// One line describing an inbox entry, e.g. "Mike Chen mentioned you"
+export const describeInboxNotification = (
+  notification: Pick<InboxNotification, "type" | "actorName" | "status">,
+) => {
+  const { actorName } = notification;
+  switch (notification.type) {
+    case "mention":
+      return `${actorName} mentioned you`;
+    case "assignment":
+      return `${actorName} assigned this issue to you`;
+    case "status-change":
+      return notification.status
+        ? `${actorName} changed the status to ${getStatusLabel(notification.status)}`
+        : `${actorName} changed the status`;
+    case "reply":
+      return `${actorName} replied`;
+  }
+};
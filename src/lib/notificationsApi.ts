@@ -0,0 +1,81 @@
+import { InboxNotification } from "./types";
+import { apiRequest } from "./apiClient";
+import { NotificationPreferences } from "./notifications";
+
+export interface Inbox {
+  notifications: InboxNotification[];
+  unreadCount: number;
+}
+
+export const parseInboxNotification = (
+  notification: any,
+): InboxNotification => ({
+  ...notification,
+  createdAt: new Date(notification.createdAt),
+  readAt: notification.readAt ? new Date(notification.readAt) : null,
+});
+
+export const fetchInbox = async (): Promise<Inbox> => {
+  const data = await apiRequest<{
+    notifications: unknown[];
+    unreadCount: number;
+  }>("/notifications");
+  return {
+    notifications: data.notifications.map(parseInboxNotification),
+    unreadCount: data.unreadCount,
+  };
+};
+
+export const markNotificationRead = async (
+  id: string,
+  read: boolean,
+): Promise<InboxNotification> => {
+  const data = await apiRequest<{ notification: unknown }>(
+    `/notifications/${id}`,
+    { method: "PATCH", body: { read } },
+  );
+  return parseInboxNotification(data.notification);
+};
+
+export const markAllNotificationsRead = async (): Promise<void> => {
+  await apiRequest("/notifications/read-all", { method: "POST" });
+};
+
+export const fetchFollowedIssueIds = async (): Promise<string[]> => {
+  const data = await apiRequest<{ issueIds: string[] }>(
+    "/notifications/following",
+  );
+  return data.issueIds;
+};
+
+export const setIssueFollowed = async (
+  issueId: string,
+  following: boolean,
+): Promise<void> => {
+  await apiRequest(`/notifications/following/${issueId}`, {
+    method: following ? "PUT" : "DELETE",
+  });
+};
+
+export interface NotificationSettings {
+  preferences: NotificationPreferences;
+  // False when the server has no SMTP settings and sends no email
+  emailEnabled: boolean;
+}
+
+export const fetchNotificationSettings =
+  async (): Promise<NotificationSettings> => {
+    const { preferences, emailEnabled } =
+      await apiRequest<NotificationSettings>("/notifications/preferences");
+    return { preferences, emailEnabled };
+  };
+
+export const updateNotificationPreferences = async (
+  preferences: NotificationPreferences,
+): Promise<NotificationSettings> => {
+  const data = await apiRequest<NotificationSettings>(
+    "/notifications/preferences",
+    { method: "PUT", body: preferences },
+  );
+  return { preferences: data.preferences, emailEnabled: data.emailEnabled };
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { canEditIssue, hasPermission } from "./permissions";
+
+const user = { id: "user-1", role: "user" as const };
+const support = { id: "user-3", role: "support" as const };
+const admin = { id: "user-2", role: "admin" as const };
+
+describe("hasPermission", () => {
+  it("should deny staff actions to regular users", () => {
+    expect(hasPermission(user, "issue.change-status")).toBe(false);
+    expect(hasPermission(user, "issue.view-internal-notes")).toBe(false);
+  });
+
+  it("should let support triage but not delete", () => {
+    expect(hasPermission(support, "issue.change-status")).toBe(true);
+    expect(hasPermission(support, "issue.reassign")).toBe(true);
+    expect(hasPermission(support, "issue.delete")).toBe(false);
+  });
+
+  it("should let admins delete issues", () => {
+    expect(hasPermission(admin, "issue.delete")).toBe(true);
+  });
+
+  it("should deny everything without a user", () => {
+    expect(hasPermission(null, "issue.change-status")).toBe(false);
+  });
+});
+
+describe("canEditIssue", () => {
+  it("should let submitters edit their own issues", () => {
+    expect(canEditIssue(user, { submittedBy: "user-1" })).toBe(true);
+    expect(canEditIssue(user, { submittedBy: "user-2" })).toBe(false);
+  });
+
+  it("should let staff edit anyone's issues", () => {
+    expect(canEditIssue(support, { submittedBy: "user-1" })).toBe(true);
+    expect(canEditIssue(admin, { submittedBy: "user-1" })).toBe(true);
+  });
+});
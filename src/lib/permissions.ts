@@ -0,0 +1,42 @@
+import { Issue, User } from "./types";
+
+export type UserRole = User["role"];
+
+export type Permission =
+  | "issue.change-status"
+  | "issue.delete"
+  | "issue.reassign"
+  | "issue.edit-others"
+  | "issue.view-internal-notes";
+
+// What each role may do beyond working on their own issues. Shared by the
+// server, which enforces it, and the UI, which hides what would be refused.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: [],
+  support: [
+    "issue.change-status",
+    "issue.reassign",
+    "issue.edit-others",
+    "issue.view-internal-notes",
+  ],
+  admin: [
+    "issue.change-status",
+    "issue.delete",
+    "issue.reassign",
+    "issue.edit-others",
+    "issue.view-internal-notes",
+  ],
+};
+
+export const hasPermission = (
+  user: Pick<User, "role"> | null | undefined,
+  permission: Permission,
+) => Boolean(user) && ROLE_PERMISSIONS[user.role]?.includes(permission);
+
+// Submitters may always edit their own issues
+export const canEditIssue = (
+  user: Pick<User, "id" | "role"> | null | undefined,
+  issue: Pick<Issue, "submittedBy">,
+) =>
+  Boolean(user) &&
+  (issue.submittedBy === user.id || hasPermission(user, "issue.edit-others"));
@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { matchesSearchQuery, parseSearchQuery } from "./searchQuery";
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+} from "./searchSuggestions";
+import { Issue } from "./types";
+import { makeIssue } from "./test/fixtures";
+
+const issue = makeIssue("issue-1", {
+  type: "technical",
+  title: "Login error on checkout",
+  description: "Users see a 500 after submitting the form",
+  priority: "high",
+  submittedAt: new Date("2026-09-15T10:30:00Z"),
+  updatedAt: new Date("2026-09-20T09:00:00Z"),
+  tags: ["bug", "checkout"],
+});
+
+const context = {
+  currentUserId: "user-3",
+  getUserName: (userId: string) =>
+    ({ "user-1": "Alex Johnson", "user-3": "Mike Chen" })[userId],
+};
+
+const matches = (query: string, overrides: Partial<Issue> = {}) =>
+  matchesSearchQuery(
+    { ...issue, ...overrides },
+    parseSearchQuery(query),
+    context,
+  );
+
+describe("parseSearchQuery", () => {
+  it("should parse fields, operators, negation and phrases", () => {
+    expect(
+      parseSearchQuery(
+        'status:open,in-progress priority:>=high -tag:wontfix "login error" crash',
+      ),
+    ).toEqual({
+      terms: [
+        {
+          kind: "field",
+          field: "status",
+          operator: "=",
+          values: ["open", "in-progress"],
+          negated: false,
+        },
+        {
+          kind: "field",
+          field: "priority",
+          operator: ">=",
+          values: ["high"],
+          negated: false,
+        },
+        {
+          kind: "field",
+          field: "tag",
+          operator: "=",
+          values: ["wontfix"],
+          negated: true,
+        },
+        { kind: "text", text: "login error", negated: false },
+        { kind: "text", text: "crash", negated: false },
+      ],
+      errors: [],
+    });
+  });
+
+  it("should report invalid values and leave those terms out", () => {
+    const query = parseSearchQuery(
+      "status:archived type:>technical submitted:yesterday updated:2026-02-30",
+    );
+
+    expect(query.terms).toEqual([]);
+    expect(query.errors).toEqual([
+      'Unknown status "archived"',
+      '"type" does not support >',
+      'Invalid date "yesterday" for submitted; use YYYY-MM-DD',
+      'Invalid date "2026-02-30" for updated; use YYYY-MM-DD',
+    ]);
+  });
+
+  it("should ignore a field that has no value yet", () => {
+    expect(parseSearchQuery("status:")).toEqual({ terms: [], errors: [] });
+  });
+
+  it("should treat unknown fields as text", () => {
+    expect(parseSearchQuery("http://example.com").terms).toEqual([
+      { kind: "text", text: "http://example.com", negated: false },
+    ]);
+  });
+});
+
+describe("matchesSearchQuery", () => {
+  it("should match everything for an empty query", () => {
+    expect(matches("")).toBe(true);
+  });
+
+  it("should match free text against title, description, tags and submitter", () => {
+    expect(matches('"login error"')).toBe(true);
+    expect(matches("500")).toBe(true);
+    expect(matches("checkout")).toBe(true);
+    expect(matches("alex")).toBe(true);
+    expect(matches("refund")).toBe(false);
+  });
+
+  it("should compare priorities by rank", () => {
+    expect(matches("priority:>=high")).toBe(true);
+    expect(matches("priority:>high")).toBe(false);
+    expect(matches("priority:<urgent")).toBe(true);
+  });
+
+  it("should compare dates by calendar day", () => {
+    expect(matches("submitted:2026-09-15")).toBe(true);
+    expect(matches("submitted:>2026-09-15")).toBe(false);
+    expect(matches("submitted:>=2026-09-15")).toBe(true);
+    expect(matches("submitted:<2026-09-16 updated:>2026-09-19")).toBe(true);
+  });
+
+  it("should use UTC days whatever the local time zone", () => {
+    const lateEvening = { submittedAt: new Date("2026-09-15T23:30:00Z") };
+    const pastMidnight = { submittedAt: new Date("2026-09-16T00:15:00Z") };
+
+    expect(matches("submitted:2026-09-15", lateEvening)).toBe(true);
+    expect(matches("submitted:<=2026-09-15", lateEvening)).toBe(true);
+    expect(matches("submitted:2026-09-15", pastMidnight)).toBe(false);
+    expect(matches("submitted:>2026-09-15", pastMidnight)).toBe(true);
+  });
+
+  it("should resolve me, none and user names", () => {
+    expect(matches("assignee:me", { assigneeId: "user-3" })).toBe(true);
+    expect(matches("assignee:none", { assigneeId: null })).toBe(true);
+    expect(matches('assignee:"mike chen"', { assigneeId: "user-3" })).toBe(
+      true,
+    );
+    expect(matches("submitter:me")).toBe(false);
+  });
+
+  it("should match any of several values and honour negation", () => {
+    expect(matches("status:resolved,open")).toBe(true);
+    expect(matches("-status:open")).toBe(false);
+    expect(matches("-tag:wontfix type:technical")).toBe(true);
+  });
+});
+
+describe("getSearchSuggestions", () => {
+  it("should suggest field names for a partial word", () => {
+    expect(getSearchSuggestions("login st").map(({ label }) => label)).toEqual([
+      "status:",
+    ]);
+  });
+
+  it("should suggest values for the field being typed", () => {
+    expect(
+      getSearchSuggestions("priority:>=h").map(({ label }) => label),
+    ).toEqual(["high"]);
+    expect(
+      getSearchSuggestions("assignee:", { userNames: ["Mike Chen"] }).map(
+        ({ token }) => token,
+      ),
+    ).toEqual(["assignee:me", "assignee:none", 'assignee:"Mike Chen"']);
+  });
+
+  it("should replace only the token being typed", () => {
+    const [suggestion] = getSearchSuggestions("bug status:open,in");
+
+    expect(applySearchSuggestion("bug status:open,in", suggestion)).toBe(
+      "bug status:open,in-progress ",
+    );
+  });
+});
@@ -0,0 +1,314 @@
+import { Issue, IssueType, Priority, ResolutionStatus } from "./types";
+import { TEAMS } from "./assignment";
+
+// Issue search syntax, shared by the issue list and `GET /issues?q=`:
+//
+//   status:open priority:>=high type:technical tag:bug
+//   submitted:>2026-09-01 assignee:me -tag:wontfix "login error"
+//
+// Terms are combined with AND. A leading `-` negates a term, and
+// comma-separated values (`status:open,in-progress`) match any of them.
+// Words and quoted phrases without a field search the title, description,
+// tags and submitter name.
+
+export type SearchField =
+  | "status"
+  | "priority"
+  | "type"
+  | "team"
+  | "tag"
+  | "assignee"
+  | "submitter"
+  | "submitted"
+  | "updated"
+  | "title"
+  | "description";
+
+export type ComparisonOperator = "=" | ">" | ">=" | "<" | "<=";
+
+export type SearchTerm =
+  | { kind: "text"; text: string; negated: boolean }
+  | {
+      kind: "field";
+      field: SearchField;
+      operator: ComparisonOperator;
+      values: string[];
+      negated: boolean;
+    };
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+  // Terms that could not be understood; they are left out of `terms`
+  errors: string[];
+}
+
+export interface SearchContext {
+  currentUserId?: string;
+  getUserName?: (userId: string) => string | undefined;
+}
+
+interface FieldSpec {
+  kind: "enum" | "text" | "user" | "date";
+  description: string;
+  // Allowed values for enum fields, in ascending order when `ordered`
+  values?: readonly string[];
+  ordered?: boolean;
+}
+
+const STATUSES: ResolutionStatus[] = [
+  "open",
+  "in-progress",
+  "resolved",
+  "closed",
+];
+const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"];
+const TYPES: IssueType[] = ["content", "technical", "general"];
+
+export const SEARCH_FIELDS: Record<SearchField, FieldSpec> = {
+  status: { kind: "enum", values: STATUSES, description: "Workflow status" },
+  priority: {
+    kind: "enum",
+    values: PRIORITIES,
+    ordered: true,
+    description: "Priority, e.g. priority:>=high",
+  },
+  type: { kind: "enum", values: TYPES, description: "Issue type" },
+  team: {
+    kind: "enum",
+    values: [...TEAMS.map((team) => team.id), "none"],
+    description: "Team the issue is routed to",
+  },
+  tag: { kind: "text", description: "Exact tag" },
+  assignee: {
+    kind: "user",
+    description: "Assigned user, `me` or `none`",
+  },
+  submitter: { kind: "user", description: "Submitting user or `me`" },
+  submitted: {
+    kind: "date",
+    description: "Submission date, e.g. submitted:>2026-09-01",
+  },
+  updated: { kind: "date", description: "Last update date" },
+  title: { kind: "text", description: "Words in the title" },
+  description: { kind: "text", description: "Words in the description" },
+};
+
+const isSearchField = (name: string): name is SearchField =>
+  Object.prototype.hasOwnProperty.call(SEARCH_FIELDS, name);
+
+// -?  field : op?  "quoted value" | value   |  "phrase"  |  word
+const TOKEN_PATTERN =
+  /(-?)(?:([a-zA-Z]+):(>=|<=|>|<)?(?:"([^"]*)"?|([^\s"]*))|"([^"]*)"?|([^\s"]+))/g;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Start of a YYYY-MM-DD day in UTC, or null for anything else. Days are
+// UTC so the browser and the server pick the same issues for a query.
+const parseDayStart = (value: string) => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const start = new Date(Date.UTC(year, month - 1, day));
+  return start.getUTCMonth() === month - 1 && start.getUTCDate() === day
+    ? start.getTime()
+    : null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Returns an error message if `values` are not valid for the field
+const validateFieldTerm = (
+  field: SearchField,
+  operator: ComparisonOperator,
+  values: string[],
+) => {
+  const spec = SEARCH_FIELDS[field];
+
+  if (operator !== "=" && !(spec.ordered || spec.kind === "date")) {
+    return `"${field}" does not support ${operator}`;
+  }
+  if (operator !== "=" && values.length > 1) {
+    return `Only one value can be compared with ${operator} in "${field}"`;
+  }
+
+  for (const value of values) {
+    if (spec.kind === "enum" && !spec.values.includes(value)) {
+      return `Unknown ${field} "${value}"`;
+    }
+    if (spec.kind === "date" && parseDayStart(value) === null) {
+      return `Invalid date "${value}" for ${field}; use YYYY-MM-DD`;
+    }
+  }
+
+  return null;
+};
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const terms: SearchTerm[] = [];
+  const errors: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, minus, name, op, quotedValue, plainValue, phrase, word] = match;
+    const negated = minus === "-";
+
+    if (name !== undefined && isSearchField(name.toLowerCase())) {
+      const field = name.toLowerCase() as SearchField;
+      const operator = (op ?? "=") as ComparisonOperator;
+      const rawValue = quotedValue ?? plainValue ?? "";
+      const values = (
+        quotedValue !== undefined ? [rawValue] : rawValue.split(",")
+      )
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .map((value) =>
+          SEARCH_FIELDS[field].kind === "enum" ? value.toLowerCase() : value,
+        );
+
+      // A field without a value is usually still being typed
+      if (values.length === 0) continue;
+
+      const error = validateFieldTerm(field, operator, values);
+      if (error) {
+        errors.push(error);
+      } else {
+        terms.push({ kind: "field", field, operator, values, negated });
+      }
+      continue;
+    }
+
+    // Unknown `name:value` pairs are searched for as plain text
+    const text =
+      name !== undefined
+        ? `${name}:${op ?? ""}${quotedValue ?? plainValue ?? ""}`
+        : (phrase ?? word ?? "");
+    if (text.trim()) {
+      terms.push({ kind: "text", text: text.trim(), negated });
+    }
+  }
+
+  return { terms, errors };
+};
+
+const includesText = (haystack: string | undefined, needle: string) =>
+  (haystack ?? "").toLowerCase().includes(needle.toLowerCase());
+
+const compare = (a: number, operator: ComparisonOperator, b: number) => {
+  switch (operator) {
+    case "=":
+      return a === b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+  }
+};
+
+// Dates are compared by UTC day, so `submitted:2026-09-01` matches the
+// whole day and `submitted:>2026-09-01` starts the day after
+const matchesDate = (
+  value: Date | string,
+  operator: ComparisonOperator,
+  target: string,
+) => {
+  const time = new Date(value).getTime();
+  const start = parseDayStart(target);
+  const end = start + DAY_MS;
+
+  switch (operator) {
+    case "=":
+      return time >= start && time < end;
+    case ">":
+      return time >= end;
+    case ">=":
+      return time >= start;
+    case "<":
+      return time < start;
+    case "<=":
+      return time < end;
+  }
+};
+
+const matchesUser = (
+  userId: string | null | undefined,
+  value: string,
+  context: SearchContext,
+) => {
+  if (value === "me") {
+    return Boolean(userId) && userId === context.currentUserId;
+  }
+  if (value === "none") return !userId;
+  if (!userId) return false;
+  return userId === value || includesText(context.getUserName?.(userId), value);
+};
+
+const matchesValue = (
+  issue: Issue,
+  field: SearchField,
+  operator: ComparisonOperator,
+  value: string,
+  context: SearchContext,
+) => {
+  switch (field) {
+    case "status":
+      return issue.status === value;
+    case "priority":
+      return compare(
+        PRIORITIES.indexOf(issue.priority),
+        operator,
+        PRIORITIES.indexOf(value as Priority),
+      );
+    case "type":
+      return issue.type === value;
+    case "team":
+      return value === "none" ? !issue.team : issue.team === value;
+    case "tag":
+      return issue.tags.some(
+        (tag) => tag.toLowerCase() === value.toLowerCase(),
+      );
+    case "assignee":
+      return matchesUser(issue.assigneeId, value, context);
+    case "submitter":
+      return matchesUser(issue.submittedBy, value, context);
+    case "submitted":
+      return matchesDate(issue.submittedAt, operator, value);
+    case "updated":
+      return matchesDate(issue.updatedAt, operator, value);
+    case "title":
+      return includesText(issue.title, value);
+    case "description":
+      return includesText(issue.description, value);
+  }
+};
+
+const matchesTerm = (
+  issue: Issue,
+  term: SearchTerm,
+  context: SearchContext,
+) => {
+  if (term.kind === "text") {
+    return (
+      includesText(issue.title, term.text) ||
+      includesText(issue.description, term.text) ||
+      issue.tags.some((tag) => includesText(tag, term.text)) ||
+      includesText(context.getUserName?.(issue.submittedBy), term.text)
+    );
+  }
+
+  return term.values.some((value) =>
+    matchesValue(issue, term.field, term.operator, value, context),
+  );
+};
+
+export const matchesSearchQuery = (
+  issue: Issue,
+  query: SearchQuery,
+  context: SearchContext = {},
+) =>
+  query.terms.every(
+    (term) => matchesTerm(issue, term, context) !== term.negated,
+  );
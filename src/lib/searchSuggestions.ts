@@ -0,0 +1,103 @@
+import { SEARCH_FIELDS, SearchField } from "./searchQuery";
+
+export interface SearchSuggestion {
+  // Text shown in the suggestion list
+  label: string;
+  description?: string;
+  // Replaces the token under the cursor when the suggestion is picked
+  token: string;
+  // Whether the token is finished and the next one can start
+  complete: boolean;
+}
+
+export interface SuggestionSources {
+  tags?: string[];
+  userNames?: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) =>
+  /\s/.test(value) ? `"${value}"` : value;
+
+// The token being typed is everything after the last space that is not
+// inside quotes
+const splitCurrentToken = (input: string) => {
+  let start = 0;
+  let inQuotes = false;
+  for (let index = 0; index < input.length; index++) {
+    if (input[index] === '"') inQuotes = !inQuotes;
+    if (!inQuotes && /\s/.test(input[index])) start = index + 1;
+  }
+  return { before: input.slice(0, start), token: input.slice(start) };
+};
+
+const valuesFor = (field: SearchField, sources: SuggestionSources) => {
+  const spec = SEARCH_FIELDS[field];
+  switch (spec.kind) {
+    case "enum":
+      return [...spec.values];
+    case "user":
+      return [
+        "me",
+        ...(field === "assignee" ? ["none"] : []),
+        ...(sources.userNames ?? []),
+      ];
+    case "date":
+      return [];
+    case "text":
+      return field === "tag" ? (sources.tags ?? []) : [];
+  }
+};
+
+// Field names while a field is being typed, then values for that field
+export const getSearchSuggestions = (
+  input: string,
+  sources: SuggestionSources = {},
+): SearchSuggestion[] => {
+  const { token } = splitCurrentToken(input);
+  const match = /^(-?)([a-zA-Z]*)(?::(>=|<=|>|<)?(.*))?$/.exec(token);
+  if (!match) return [];
+
+  const [, minus, name, operator = "", valuePart] = match;
+
+  if (valuePart === undefined) {
+    return (Object.keys(SEARCH_FIELDS) as SearchField[])
+      .filter((field) => field.startsWith(name.toLowerCase()))
+      .map((field) => ({
+        label: `${field}:`,
+        description: SEARCH_FIELDS[field].description,
+        token: `${minus}${field}:`,
+        complete: false,
+      }));
+  }
+
+  const field = name.toLowerCase() as SearchField;
+  if (!SEARCH_FIELDS[field]) return [];
+
+  // Only the last of several comma-separated values is being typed
+  const commaIndex = valuePart.lastIndexOf(",");
+  const previousValues = valuePart.slice(0, commaIndex + 1);
+  const partial = valuePart.slice(commaIndex + 1).replace(/^"/, "");
+
+  return valuesFor(field, sources)
+    .filter(
+      (value) =>
+        value.toLowerCase().startsWith(partial.toLowerCase()) &&
+        value !== partial,
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map((value) => ({
+      label: value,
+      token: `${minus}${field}:${operator}${previousValues}${quoteIfNeeded(value)}`,
+      complete: true,
+    }));
+};
+
+export const applySearchSuggestion = (
+  input: string,
+  suggestion: SearchSuggestion,
+) => {
+  const { before } = splitCurrentToken(input);
+  return `${before}${suggestion.token}${suggestion.complete ? " " : ""}`;
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { getIssueSla, getResolvedAt, isFirstResponse } from "./sla";
+import { filterIssues, DEFAULT_ISSUE_FILTERS } from "./issueFilters";
+import { DEFAULT_CALENDAR } from "./businessCalendar";
+import { makeIssue } from "./test/fixtures";
+
+// Friday 2026-10-16, 15:00 UTC
+const friday = new Date("2026-10-16T15:00:00Z");
+
+const issue = makeIssue("issue-1", {
+  type: "technical",
+  title: "Login fails",
+  description: "Error 500",
+  // 1 hour to respond, 8 to resolve
+  priority: "urgent",
+  submittedAt: friday,
+  updatedAt: friday,
+});
+
+describe("getIssueSla", () => {
+  it("should count down both targets while the issue is open", () => {
+    const sla = getIssueSla(issue, new Date("2026-10-16T15:10:00Z"));
+
+    expect(sla.response).toMatchObject({
+      dueAt: new Date("2026-10-16T16:00:00Z"),
+      state: "on-track",
+    });
+    expect(sla.resolution.dueAt).toEqual(new Date("2026-10-19T15:00:00Z"));
+    expect(sla.state).toBe("on-track");
+  });
+
+  it("should flag targets close to or past their deadline", () => {
+    expect(getIssueSla(issue, new Date("2026-10-16T15:50:00Z")).state).toBe(
+      "at-risk",
+    );
+    expect(getIssueSla(issue, new Date("2026-10-16T16:30:00Z")).state).toBe(
+      "breached",
+    );
+  });
+
+  it("should stop the clocks on the first response and on resolution", () => {
+    const answered = {
+      ...issue,
+      firstResponseAt: new Date("2026-10-16T15:30:00Z"),
+    };
+    const now = new Date("2026-10-19T13:30:00Z");
+
+    expect(getIssueSla(answered, now).response.state).toBe("met");
+    expect(getIssueSla(answered, now).state).toBe("at-risk");
+
+    const resolved = {
+      ...answered,
+      status: "resolved" as const,
+      resolvedAt: new Date("2026-10-19T16:00:00Z"),
+    };
+    expect(getIssueSla(resolved, now).resolution.state).toBe("breached");
+    expect(getIssueSla(resolved, now).state).toBe("breached");
+  });
+
+  it("should count time with the given business calendar", () => {
+    const calendar = {
+      ...DEFAULT_CALENDAR,
+      holidays: [{ date: "2026-10-19", name: "Company day" }],
+    };
+    const sla = getIssueSla(issue, new Date("2026-10-19T12:00:00Z"), calendar);
+
+    expect(sla.resolution.dueAt).toEqual(new Date("2026-10-20T15:00:00Z"));
+    expect(sla.resolution.elapsedHours).toBe(2);
+  });
+});
+
+describe("isFirstResponse", () => {
+  it("should only count public replies from someone else", () => {
+    const reply = { senderId: "user-2", isSystem: false };
+
+    expect(isFirstResponse(issue, reply)).toBe(true);
+    expect(isFirstResponse(issue, { ...reply, senderId: "user-1" })).toBe(
+      false,
+    );
+    expect(isFirstResponse(issue, { ...reply, isInternal: true })).toBe(false);
+    expect(isFirstResponse(issue, { ...reply, isBot: true })).toBe(false);
+    expect(isFirstResponse({ ...issue, firstResponseAt: friday }, reply)).toBe(
+      false,
+    );
+  });
+});
+
+describe("getResolvedAt", () => {
+  it("should keep the time across done statuses and clear it on reopening", () => {
+    const now = new Date("2026-10-20T10:00:00Z");
+    const resolved = { status: "resolved" as const, resolvedAt: friday };
+
+    expect(getResolvedAt(issue, "resolved", now)).toBe(now);
+    expect(getResolvedAt(resolved, "closed", now)).toBe(friday);
+    expect(getResolvedAt(resolved, "open", now)).toBeNull();
+  });
+});
+
+describe("SLA filter", () => {
+  it("should match issues by their SLA state", () => {
+    const now = new Date("2026-10-16T16:30:00Z");
+    const answered = { ...issue, id: "issue-2", firstResponseAt: friday };
+    const filter = (sla: "at-risk" | "breached") =>
+      filterIssues(
+        [issue, answered],
+        { ...DEFAULT_ISSUE_FILTERS, sla },
+        {},
+        now,
+      ).map(({ id }) => id);
+
+    expect(filter("breached")).toEqual(["issue-1"]);
+    expect(filter("at-risk")).toEqual([]);
+  });
+});
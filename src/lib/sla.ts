@@ -0,0 +1,184 @@
+import { ChatMessage, Issue, IssueType, Priority } from "./types";
+import { DONE_STATUSES } from "./workflow";
+import {
+  BusinessCalendar,
+  DEFAULT_CALENDAR,
+  addBusinessHours,
+  getBusinessHoursBetween,
+} from "./businessCalendar";
+
+// Service level targets, both in business hours from submission as
+// counted by the business calendar
+export interface SlaPolicy {
+  // Until the first reply from someone other than the submitter
+  responseHours: number;
+  // Until the issue reaches a done status
+  resolutionHours: number;
+}
+
+// One policy per issue type and priority. Shared by the server, which
+// filters on them, and the issue list, which shows the countdowns.
+export const SLA_POLICIES: Record<IssueType, Record<Priority, SlaPolicy>> = {
+  technical: {
+    urgent: { responseHours: 1, resolutionHours: 8 },
+    high: { responseHours: 4, resolutionHours: 24 },
+    medium: { responseHours: 8, resolutionHours: 40 },
+    low: { responseHours: 16, resolutionHours: 80 },
+  },
+  content: {
+    urgent: { responseHours: 2, resolutionHours: 16 },
+    high: { responseHours: 8, resolutionHours: 40 },
+    medium: { responseHours: 16, resolutionHours: 80 },
+    low: { responseHours: 24, resolutionHours: 120 },
+  },
+  // Questions are usually answered in the first reply
+  general: {
+    urgent: { responseHours: 2, resolutionHours: 8 },
+    high: { responseHours: 4, resolutionHours: 16 },
+    medium: { responseHours: 8, resolutionHours: 40 },
+    low: { responseHours: 16, resolutionHours: 80 },
+  },
+};
+
+export const getSlaPolicy = (issue: Pick<Issue, "type" | "priority">) =>
+  SLA_POLICIES[issue.type][issue.priority];
+
+// Dates may be Date objects (client) or ISO strings (server records)
+const toTime = (value: Date | string) => new Date(value).getTime();
+
+export type SlaState = "on-track" | "at-risk" | "breached" | "met";
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  "on-track": "On track",
+  "at-risk": "At risk",
+  breached: "Breached",
+  met: "Met",
+};
+
+// A running target is at risk once this share of its time is left
+export const AT_RISK_SHARE = 0.25;
+
+export interface SlaTarget {
+  hours: number;
+  dueAt: Date;
+  // When the target was reached; unset while the clock is still running
+  completedAt?: Date;
+  // Business hours from submission until completion, or until now
+  elapsedHours: number;
+  state: SlaState;
+}
+
+export interface IssueSla {
+  response: SlaTarget;
+  resolution: SlaTarget;
+  // The worst state of the two targets
+  state: SlaState;
+}
+
+const getTarget = (
+  calendar: BusinessCalendar,
+  submittedAt: Date | string,
+  hours: number,
+  completedAt: Date | string | null | undefined,
+  now: Date,
+): SlaTarget => {
+  const dueAt = addBusinessHours(calendar, submittedAt, hours);
+  if (completedAt) {
+    return {
+      hours,
+      dueAt,
+      completedAt: new Date(completedAt),
+      elapsedHours: Math.max(
+        0,
+        getBusinessHoursBetween(calendar, submittedAt, completedAt),
+      ),
+      state: toTime(completedAt) <= dueAt.getTime() ? "met" : "breached",
+    };
+  }
+
+  const elapsedHours = Math.max(
+    0,
+    getBusinessHoursBetween(calendar, submittedAt, now),
+  );
+  let state: SlaState = "on-track";
+  if (now.getTime() >= dueAt.getTime()) {
+    state = "breached";
+  } else if (hours - elapsedHours <= hours * AT_RISK_SHARE) {
+    state = "at-risk";
+  }
+  return { hours, dueAt, elapsedHours, state };
+};
+
+const STATE_SEVERITY: SlaState[] = ["met", "on-track", "at-risk", "breached"];
+
+// Where an issue stands against its policy at `now`, counting business
+// time with `calendar`. Resolving an issue also stops the response clock
+// if nobody replied before.
+export const getIssueSla = (
+  issue: Pick<
+    Issue,
+    | "type"
+    | "priority"
+    | "status"
+    | "submittedAt"
+    | "firstResponseAt"
+    | "resolvedAt"
+    | "updatedAt"
+  >,
+  now = new Date(),
+  calendar: BusinessCalendar = DEFAULT_CALENDAR,
+): IssueSla => {
+  const policy = getSlaPolicy(issue);
+  const resolvedAt = DONE_STATUSES.includes(issue.status)
+    ? (issue.resolvedAt ?? issue.updatedAt)
+    : undefined;
+
+  const response = getTarget(
+    calendar,
+    issue.submittedAt,
+    policy.responseHours,
+    issue.firstResponseAt ?? resolvedAt,
+    now,
+  );
+  const resolution = getTarget(
+    calendar,
+    issue.submittedAt,
+    policy.resolutionHours,
+    resolvedAt,
+    now,
+  );
+  const state =
+    STATE_SEVERITY.indexOf(response.state) >
+    STATE_SEVERITY.indexOf(resolution.state)
+      ? response.state
+      : resolution.state;
+
+  return { response, resolution, state };
+};
+
+// Whether `message` is the reply that stops an issue's response clock.
+// Automated, internal and the submitter's own messages do not count.
+export const isFirstResponse = (
+  issue: Pick<Issue, "submittedBy" | "firstResponseAt">,
+  message: Pick<ChatMessage, "senderId" | "isSystem" | "isBot" | "isInternal">,
+) =>
+  !issue.firstResponseAt &&
+  !message.isSystem &&
+  !message.isBot &&
+  !message.isInternal &&
+  message.senderId !== issue.submittedBy;
+
+// `resolvedAt` for an issue moving from `previous` to `status`: kept when
+// moving between done statuses, cleared when the issue is reopened
+export const getResolvedAt = (
+  previous: Pick<Issue, "status" | "resolvedAt"> | undefined,
+  status: Issue["status"],
+  now = new Date(),
+) => {
+  if (!DONE_STATUSES.includes(status)) return null;
+  return previous &&
+    DONE_STATUSES.includes(previous.status) &&
+    previous.resolvedAt
+    ? previous.resolvedAt
+    : now;
+};
@@ -0,0 +1,21 @@
+import { Issue } from "../types";
+
+// A plain open issue with every required field set. Specs override only
+// the fields they exercise, so results never depend on ids or clocks.
+export const makeIssue = (
+  id: string,
+  overrides: Partial<Issue> = {},
+): Issue => ({
+  id,
+  type: "general",
+  title: `Issue ${id}`,
+  description: "Something happened",
+  priority: "medium",
+  status: "open",
+  submittedBy: "user-1",
+  submittedAt: new Date("2026-09-01T09:00:00Z"),
+  updatedAt: new Date("2026-09-01T09:00:00Z"),
+  tags: [],
+  mediaFiles: [],
+  ...overrides,
+});
@@ -20,9 +20,20 @@ export interface Issue {
   type: IssueType;
   priority: Priority;
   status: ResolutionStatus;
+  // Id of the submitting User
   submittedBy: string;
   submittedAt: Date;
   updatedAt: Date;
+  // Id of the support/admin User working on the issue
+  assigneeId?: string | null;
+  // One of TEAMS in assignment.ts
+  team?: string | null;
+  // Why the issue was resolved or closed; required by some workflow transitions
+  resolutionNote?: string | null;
+  // Set by the server for SLA tracking (see sla.ts): the first reply from
+  // someone other than the submitter, and when the issue was last done
+  firstResponseAt?: Date | null;
+  resolvedAt?: Date | null;
   tags: string[];
   mediaFiles: MediaFile[];
   // Type-specific fields
@@ -48,10 +59,78 @@ export interface Issue {
 export interface ChatMessage {
   id: string;
   issueId: string;
+  // Display name; senderId links messages written by a signed-in user
   sender: string;
+  senderId?: string;
   message: string;
   timestamp: Date;
   isSystem: boolean;
+  // Posted by an automation rule rather than a person
+  isBot?: boolean;
+  // Staff-only note, hidden from users without permission
+  isInternal?: boolean;
+}
+
+// One field change in an issue's append-only activity log
+export interface ActivityEntry {
+  id: string;
+  issueId: string;
+  // Issue field name, or `<details>.<key>` for type-specific details
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  // Id of the User who made the change
+  actorId: string;
+  timestamp: Date;
+}
+
+// An entry in a user's notification inbox; see src/lib/notifications.ts
+export interface InboxNotification {
+  id: string;
+  // Id of the User the entry belongs to
+  userId: string;
+  type: "mention" | "assignment" | "status-change" | "reply";
+  issueId: string;
+  // Copied so the entry still reads well after the issue is renamed
+  issueTitle: string;
+  actorId: string;
+  actorName: string;
+  // The new status of a status change
+  status?: ResolutionStatus;
+  // Start of the message for mentions and replies
+  excerpt?: string;
+  createdAt: Date;
+  readAt: Date | null;
+}
+
+// A named issue list filter; see server/routes/views.js
+export interface SavedView {
+  id: string;
+  name: string;
+  // Issue list query string without the "?", e.g. "status=open&type=technical"
+  query: string;
+  // Id of the User who created the view; only they may change it
+  ownerId: string;
+  // Visible to every signed-in user instead of only the owner
+  shared: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One visible column of the issue table, in display order
+export interface TableColumnSetting {
+  // One of ISSUE_COLUMNS in issueColumns.ts
+  id: string;
+  // In pixels
+  width: number;
+}
+
+export interface ViewPreferences {
+  pinnedViewIds: string[];
+  // View opened when landing on the issue list without filters
+  defaultViewId: string | null;
+  // Columns of the table layout; null for the default columns
+  tableColumns: TableColumnSetting[] | null;
 }
 
 export interface User {
@@ -0,0 +1,57 @@
+import { SavedView, ViewPreferences } from "./types";
+import { apiRequest } from "./apiClient";
+
+export type SavedViewInput = Pick<SavedView, "name" | "query" | "shared">;
+
+export const parseSavedView = (view: any): SavedView => ({
+  ...view,
+  createdAt: new Date(view.createdAt),
+  updatedAt: new Date(view.updatedAt),
+});
+
+export const fetchSavedViews = async (): Promise<SavedView[]> => {
+  const data = await apiRequest<{ views: unknown[] }>("/views");
+  return data.views.map(parseSavedView);
+};
+
+export const createSavedView = async (
+  input: SavedViewInput,
+): Promise<SavedView> => {
+  const data = await apiRequest<{ view: unknown }>("/views", {
+    method: "POST",
+    body: input,
+  });
+  return parseSavedView(data.view);
+};
+
+export const updateSavedView = async (
+  id: string,
+  changes: Partial<SavedViewInput>,
+): Promise<SavedView> => {
+  const data = await apiRequest<{ view: unknown }>(`/views/${id}`, {
+    method: "PATCH",
+    body: changes,
+  });
+  return parseSavedView(data.view);
+};
+
+export const deleteSavedView = async (id: string): Promise<void> => {
+  await apiRequest(`/views/${id}`, { method: "DELETE" });
+};
+
+export const fetchViewPreferences = async (): Promise<ViewPreferences> => {
+  const data = await apiRequest<{ preferences: ViewPreferences }>(
+    "/views/preferences",
+  );
+  return data.preferences;
+};
+
+export const updateViewPreferences = async (
+  preferences: ViewPreferences,
+): Promise<ViewPreferences> => {
+  const data = await apiRequest<{ preferences: ViewPreferences }>(
+    "/views/preferences",
+    { method: "PUT", body: preferences },
+  );
+  return data.preferences;
+};
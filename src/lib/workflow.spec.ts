@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  WORKFLOWS,
+  findAdjacentStatus,
+  getAvailableTransitions,
+  validateTransition,
+} from "./workflow";
+
+describe("WORKFLOWS", () => {
+  it("should only use declared states in transitions", () => {
+    for (const workflow of Object.values(WORKFLOWS)) {
+      expect(workflow.states).toContain(workflow.initial);
+      for (const { from, to } of workflow.transitions) {
+        expect(workflow.states).toContain(from);
+        expect(workflow.states).toContain(to);
+      }
+    }
+  });
+});
+
+describe("getAvailableTransitions", () => {
+  it("should not offer any way out of a closed technical issue", () => {
+    expect(
+      getAvailableTransitions({ type: "technical", status: "closed" }),
+    ).toEqual([]);
+  });
+
+  it("should let closed general issues be reopened", () => {
+    const targets = getAvailableTransitions({
+      type: "general",
+      status: "closed",
+    }).map(({ to }) => to);
+
+    expect(targets).toEqual(["open"]);
+  });
+});
+
+describe("validateTransition", () => {
+  it("should reject transitions the workflow does not define", () => {
+    expect(
+      validateTransition({ type: "content", status: "closed" }, "resolved"),
+    ).toMatch(/Cannot move a content issue from "Closed" to "Resolved"/);
+  });
+
+  it("should reject unknown statuses", () => {
+    expect(
+      validateTransition(
+        { type: "general", status: "open" },
+        "archived" as any,
+      ),
+    ).toMatch(/not a valid status/);
+  });
+
+  it("should require a resolution note to resolve an issue", () => {
+    const issue = {
+      type: "technical" as const,
+      status: "in-progress" as const,
+    };
+
+    expect(validateTransition(issue, "resolved")).toMatch(
+      /Resolution note is required/,
+    );
+    expect(
+      validateTransition(issue, "resolved", { resolutionNote: "   " }),
+    ).toMatch(/Resolution note is required/);
+    expect(
+      validateTransition(issue, "resolved", {
+        resolutionNote: "Fixed in 2.3.1",
+      }),
+    ).toBeNull();
+  });
+
+  it("should allow transitions without required fields", () => {
+    expect(
+      validateTransition({ type: "technical", status: "open" }, "in-progress"),
+    ).toBeNull();
+  });
+});
+
+describe("findAdjacentStatus", () => {
+  const order = ["open", "in-progress", "resolved", "closed"] as const;
+
+  it("should pick the nearest allowed status in the given direction", () => {
+    expect(
+      findAdjacentStatus({ type: "technical", status: "open" }, [...order], 1),
+    ).toBe("in-progress");
+    expect(
+      findAdjacentStatus({ type: "content", status: "closed" }, [...order], -1),
+    ).toBe("open");
+  });
+
+  it("should return undefined when nothing is allowed that way", () => {
+    expect(
+      findAdjacentStatus(
+        { type: "technical", status: "closed" },
+        [...order],
+        -1,
+      ),
+    ).toBeUndefined();
+    expect(
+      findAdjacentStatus({ type: "general", status: "open" }, [...order], -1),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import { Issue, IssueType, ResolutionStatus } from "./types";
+
+// Fields that a transition may require the caller to fill in
+export type TransitionField = "resolutionNote";
+
+export type TransitionFields = Partial<Pick<Issue, TransitionField>>;
+
+export interface WorkflowTransition {
+  from: ResolutionStatus;
+  to: ResolutionStatus;
+  requires?: TransitionField[];
+}
+
+export interface Workflow {
+  // Status given to newly submitted issues
+  initial: ResolutionStatus;
+  states: ResolutionStatus[];
+  transitions: WorkflowTransition[];
+}
+
+export const STATUS_LABELS: Record<ResolutionStatus, string> = {
+  open: "Open",
+  "in-progress": "In Progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+export const TRANSITION_FIELD_LABELS: Record<TransitionField, string> = {
+  resolutionNote: "Resolution note",
+};
+
+// Statuses that count as finished work. Leaving them clears the resolution.
+export const DONE_STATUSES: ResolutionStatus[] = ["resolved", "closed"];
+
+// One workflow per issue type. Shared by the server, which rejects any
+// other status change, and the status dropdown, which only offers these.
+export const WORKFLOWS: Record<IssueType, Workflow> = {
+  // Closed technical issues stay closed; a regression gets a new issue
+  technical: {
+    initial: "open",
+    states: ["open", "in-progress", "resolved", "closed"],
+    transitions: [
+      { from: "open", to: "in-progress" },
+      { from: "open", to: "closed", requires: ["resolutionNote"] },
+      { from: "in-progress", to: "open" },
+      { from: "in-progress", to: "resolved", requires: ["resolutionNote"] },
+      { from: "resolved", to: "in-progress" },
+      { from: "resolved", to: "closed" },
+    ],
+  },
+  content: {
+    initial: "open",
+    states: ["open", "in-progress", "resolved", "closed"],
+    transitions: [
+      { from: "open", to: "in-progress" },
+      { from: "open", to: "closed", requires: ["resolutionNote"] },
+      { from: "in-progress", to: "open" },
+      { from: "in-progress", to: "resolved", requires: ["resolutionNote"] },
+      { from: "resolved", to: "in-progress" },
+      { from: "resolved", to: "closed" },
+      { from: "closed", to: "open" },
+    ],
+  },
+  // Questions can often be answered without picking them up first
+  general: {
+    initial: "open",
+    states: ["open", "in-progress", "resolved", "closed"],
+    transitions: [
+      { from: "open", to: "in-progress" },
+      { from: "open", to: "resolved", requires: ["resolutionNote"] },
+      { from: "open", to: "closed", requires: ["resolutionNote"] },
+      { from: "in-progress", to: "open" },
+      { from: "in-progress", to: "resolved", requires: ["resolutionNote"] },
+      { from: "resolved", to: "open" },
+      { from: "resolved", to: "closed" },
+      { from: "closed", to: "open" },
+    ],
+  },
+};
+
+export const getWorkflow = (type: IssueType) => WORKFLOWS[type];
+
+export const getStatusLabel = (status: ResolutionStatus) =>
+  STATUS_LABELS[status] ?? status;
+
+export const findTransition = (
+  type: IssueType,
+  from: ResolutionStatus,
+  to: ResolutionStatus,
+) =>
+  getWorkflow(type)?.transitions.find(
+    (transition) => transition.from === from && transition.to === to,
+  );
+
+// Transitions available from the issue's current status
+export const getAvailableTransitions = (
+  issue: Pick<Issue, "type" | "status">,
+) =>
+  (getWorkflow(issue.type)?.transitions ?? []).filter(
+    (transition) => transition.from === issue.status,
+  );
+
+// The nearest status in `order` after (step 1) or before (step -1) the
+// issue's current one that its workflow allows moving to, if any. Used to
+// move board cards between columns from the keyboard.
+export const findAdjacentStatus = (
+  issue: Pick<Issue, "type" | "status">,
+  order: ResolutionStatus[],
+  step: 1 | -1,
+) => {
+  for (
+    let index = order.indexOf(issue.status) + step;
+    index >= 0 && index < order.length;
+    index += step
+  ) {
+    if (findTransition(issue.type, issue.status, order[index])) {
+      return order[index];
+    }
+  }
+  return undefined;
+};
+
+// Returns an error message if the issue may not move to `to` with the
+// given fields, otherwise null
+export const validateTransition = (
+  issue: Pick<Issue, "type" | "status">,
+  to: ResolutionStatus,
+  fields: TransitionFields = {},
+) => {
+  const workflow = getWorkflow(issue.type);
+  if (!workflow?.states.includes(to)) {
+    return `"${to}" is not a valid status for ${issue.type} issues`;
+  }
+
+  const transition = findTransition(issue.type, issue.status, to);
+  if (!transition) {
+    return `Cannot move a ${issue.type} issue from "${getStatusLabel(
+      issue.status,
+    )}" to "${getStatusLabel(to)}"`;
+  }
+
+  const missing = (transition.requires ?? []).find(
+    (field) => typeof fields[field] !== "string" || !fields[field].trim(),
+  );
+  if (missing) {
+    return `${TRANSITION_FIELD_LABELS[missing]} is required to move this issue to "${getStatusLabel(to)}"`;
+  }
+
+  return null;
+};
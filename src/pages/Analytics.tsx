@@ -0,0 +1,467 @@
+import React from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { ArrowLeft, WifiOff } from "lucide-react";
+import { useIssueAnalytics } from "@/hooks/use-analytics";
+import {
+  ANALYTICS_RANGE_PRESETS,
+  AnalyticsFilters,
+  AnalyticsInterval,
+  getPresetFilters,
+  parseAnalyticsFilters,
+  toAnalyticsParams,
+} from "@/lib/analytics";
+
+const DEFAULT_PRESET_DAYS = 30;
+
+const throughputConfig = {
+  created: { label: "Created", color: "hsl(var(--chart-1))" },
+  resolved: { label: "Resolved", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const backlogConfig = {
+  open: { label: "Open", color: "hsl(var(--chart-3))" },
+  inProgress: { label: "In Progress", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const typeConfig = {
+  count: { label: "Issues" },
+  content: { label: "Content", color: "hsl(var(--chart-4))" },
+  technical: { label: "Technical", color: "hsl(var(--chart-1))" },
+  general: { label: "General", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const priorityConfig = {
+  count: { label: "Issues", color: "hsl(var(--chart-1))" },
+  medianHours: { label: "Median hours", color: "hsl(var(--chart-2))" },
+  low: { label: "Low" },
+  medium: { label: "Medium" },
+  high: { label: "High" },
+  urgent: { label: "Urgent" },
+} satisfies ChartConfig;
+
+const tagConfig = {
+  count: { label: "Issues", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+const formatBucket = (start: string, interval: AnalyticsInterval) =>
+  format(parseISO(start), interval === "month" ? "MMM yyyy" : "MMM d");
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} d`;
+};
+
+// Which preset the filters match, if any
+const getPresetValue = (filters: AnalyticsFilters) => {
+  const preset = ANALYTICS_RANGE_PRESETS.find(({ days }) => {
+    const range = getPresetFilters(days);
+    return range.from === filters.from && range.to === filters.to;
+  });
+  return preset ? String(preset.days) : "custom";
+};
+
+export default function Analytics() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const parsed = parseAnalyticsFilters(searchParams);
+  const filters =
+    "filters" in parsed
+      ? parsed.filters
+      : getPresetFilters(DEFAULT_PRESET_DAYS);
+  const { data: analytics, isError, error } = useIssueAnalytics(filters);
+
+  const updateFilters = (changes: Partial<AnalyticsFilters>) =>
+    setSearchParams(toAnalyticsParams({ ...filters, ...changes }), {
+      replace: true,
+    });
+
+  const buckets = analytics?.buckets ?? [];
+  const interval = analytics?.interval ?? "day";
+  const tickFormatter = (start: string) => formatBucket(start, interval);
+  const labelFormatter = (_: unknown, payload: { payload?: any }[]) =>
+    payload[0]?.payload?.start
+      ? formatBucket(payload[0].payload.start, interval)
+      : "";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/issues")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Analytics</h1>
+            <p className="text-muted-foreground">
+              Issue volume, backlog and resolution times
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Range</Label>
+                <Select
+                  value={getPresetValue(filters)}
+                  onValueChange={(value) =>
+                    value !== "custom" &&
+                    updateFilters(getPresetFilters(Number(value), filters.type))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ANALYTICS_RANGE_PRESETS.map(({ days, label }) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom" disabled>
+                      Custom
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analytics-from">From</Label>
+                <Input
+                  id="analytics-from"
+                  type="date"
+                  value={filters.from}
+                  max={filters.to}
+                  onChange={(e) =>
+                    e.target.value && updateFilters({ from: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analytics-to">To</Label>
+                <Input
+                  id="analytics-to"
+                  type="date"
+                  value={filters.to}
+                  min={filters.from}
+                  onChange={(e) =>
+                    e.target.value && updateFilters({ to: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={filters.type}
+                  onValueChange={(value) =>
+                    updateFilters({ type: value as AnalyticsFilters["type"] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Types</SelectItem>
+                    <SelectItem value="content">Content</SelectItem>
+                    <SelectItem value="technical">Technical</SelectItem>
+                    <SelectItem value="general">General</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {"error" in parsed && (
+              <p className="mt-3 text-sm text-red-500">
+                {parsed.error}; showing the last {DEFAULT_PRESET_DAYS} days.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {isError && (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              <WifiOff className="h-8 w-8 mx-auto mb-3" />
+              Analytics could not be loaded: {error.message}
+            </CardContent>
+          </Card>
+        )}
+
+        {analytics && (
+          <>
+            <div className="grid gap-4 md:grid-cols-4">
+              {[
+                ["Created", analytics.totals.created],
+                ["Resolved", analytics.totals.resolved],
+                ["Backlog", analytics.totals.backlog],
+                [
+                  "Median time to resolution",
+                  formatHours(analytics.totals.medianResolutionHours),
+                ],
+              ].map(([label, value]) => (
+                <Card key={label}>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">{label}</p>
+                    <p className="text-3xl font-bold">{value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    Created vs. resolved
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={throughputConfig}>
+                    <LineChart data={buckets}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="start"
+                        tickFormatter={tickFormatter}
+                        tickLine={false}
+                        axisLine={false}
+                        minTickGap={24}
+                      />
+                      <YAxis allowDecimals={false} width={32} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={labelFormatter}
+                          />
+                        }
+                      />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line
+                        dataKey="created"
+                        stroke="var(--color-created)"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                      <Line
+                        dataKey="resolved"
+                        stroke="var(--color-resolved)"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Backlog by status</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={backlogConfig}>
+                    <AreaChart data={buckets}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="start"
+                        tickFormatter={tickFormatter}
+                        tickLine={false}
+                        axisLine={false}
+                        minTickGap={24}
+                      />
+                      <YAxis allowDecimals={false} width={32} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={labelFormatter}
+                          />
+                        }
+                      />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Area
+                        dataKey="open"
+                        stackId="backlog"
+                        type="monotone"
+                        fill="var(--color-open)"
+                        stroke="var(--color-open)"
+                        fillOpacity={0.4}
+                      />
+                      <Area
+                        dataKey="inProgress"
+                        stackId="backlog"
+                        type="monotone"
+                        fill="var(--color-inProgress)"
+                        stroke="var(--color-inProgress)"
+                        fillOpacity={0.4}
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Created by type</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={typeConfig}>
+                    <PieChart>
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent nameKey="type" hideLabel />
+                        }
+                      />
+                      <Pie
+                        data={analytics.byType}
+                        dataKey="count"
+                        nameKey="type"
+                        innerRadius="50%"
+                      >
+                        {analytics.byType.map(({ type }) => (
+                          <Cell key={type} fill={`var(--color-${type})`} />
+                        ))}
+                      </Pie>
+                      <ChartLegend
+                        content={<ChartLegendContent nameKey="type" />}
+                      />
+                    </PieChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Created by priority</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={priorityConfig}>
+                    <BarChart data={analytics.byPriority}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="priority"
+                        tickFormatter={(priority) =>
+                          priorityConfig[priority]?.label ?? priority
+                        }
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis allowDecimals={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar
+                        dataKey="count"
+                        fill="var(--color-count)"
+                        radius={4}
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    Median time to resolution
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={priorityConfig}>
+                    <BarChart data={analytics.resolutionTimes}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="priority"
+                        tickFormatter={(priority) =>
+                          priorityConfig[priority]?.label ?? priority
+                        }
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis width={32} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            formatter={(value, _, item) =>
+                              `${formatHours(Number(value))} (${item.payload.resolved} resolved)`
+                            }
+                          />
+                        }
+                      />
+                      <Bar
+                        dataKey="medianHours"
+                        fill="var(--color-medianHours)"
+                        radius={4}
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Top tags</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {analytics.topTags.length > 0 ? (
+                    <ChartContainer config={tagConfig}>
+                      <BarChart data={analytics.topTags} layout="vertical">
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" allowDecimals={false} />
+                        <YAxis
+                          type="category"
+                          dataKey="tag"
+                          width={96}
+                          tickLine={false}
+                          axisLine={false}
+                        />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar
+                          dataKey="count"
+                          fill="var(--color-count)"
+                          radius={4}
+                        />
+                      </BarChart>
+                    </ChartContainer>
+                  ) : (
+                    <p className="py-12 text-center text-muted-foreground">
+                      No tagged issues in this range.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import React, { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, CheckCircle, Upload, XCircle } from "lucide-react";
+import {
+  ColumnMapping,
+  IGNORE_COLUMN,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_IDS,
+  ImportFieldId,
+  ParsedImportFile,
+  buildImportRows,
+  guessColumnMapping,
+  parseImportFile,
+} from "@/lib/issueImport";
+import { ImportResult } from "@/lib/issuesApi";
+import { getStatusLabel } from "@/lib/workflow";
+import { useImportIssues } from "@/hooks/use-issues";
+import { useUsers } from "@/hooks/use-users";
+
+// Rows shown in the preview; counts always cover the whole file
+const PREVIEW_LIMIT = 200;
+
+export default function ImportIssues() {
+  const navigate = useNavigate();
+  const { data: users = [] } = useUsers();
+  const importIssues = useImportIssues();
+
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [imported, setImported] = useState(0);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const rows = useMemo(
+    () => (file ? buildImportRows(file.records, mapping, { users }) : []),
+    [file, mapping, users],
+  );
+  const validRows = rows.filter((row) => row.issue);
+  const shownRows = (
+    onlyErrors ? rows.filter((row) => row.errors.length > 0) : rows
+  ).slice(0, PREVIEW_LIMIT);
+  const isImporting = importIssues.isPending;
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const selected = event.target.files?.[0];
+    setFile(null);
+    setFileError("");
+    setResults(null);
+    if (!selected) return;
+
+    setFileName(selected.name);
+    const format = /\.json$/i.test(selected.name) ? "json" : "csv";
+    try {
+      const parsed = parseImportFile(await selected.text(), format);
+      if (parsed.records.length === 0) {
+        throw new Error("The file has no issues in it");
+      }
+      setFile(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (error) {
+      setFileError(
+        error instanceof Error ? error.message : "Could not read the file",
+      );
+    }
+  };
+
+  const handleImport = () => {
+    setImported(0);
+    setResults(null);
+    importIssues.mutate(
+      {
+        issues: validRows.map((row) => row.issue),
+        onProgress: setImported,
+      },
+      { onSuccess: setResults },
+    );
+  };
+
+  const failed = results?.filter((result) => !result.success) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/issues")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Import Issues</h1>
+            <p className="text-muted-foreground">
+              Create issues from a CSV or JSON file, such as an export
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">1. Choose a file</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              disabled={isImporting}
+            />
+            {fileError && (
+              <p className="text-sm text-destructive">
+                {fileName}: {fileError}
+              </p>
+            )}
+            {file && (
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {file.records.length} rows, {file.headers.length}{" "}
+                columns
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {file && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">2. Map columns</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-3 md:grid-cols-2">
+                {file.headers.map((header) => {
+                  const sample = file.records.find(
+                    (record) => record[header],
+                  )?.[header];
+                  return (
+                    <div
+                      key={header}
+                      className="flex items-center justify-between gap-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{header}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {sample ? `e.g. ${sample}` : "Empty"}
+                        </p>
+                      </div>
+                      <Select
+                        value={mapping[header] ?? IGNORE_COLUMN}
+                        onValueChange={(value) =>
+                          setMapping((previous) => ({
+                            ...previous,
+                            [header]: value as ImportFieldId,
+                          }))
+                        }
+                        disabled={isImporting}
+                      >
+                        <SelectTrigger className="w-56 shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE_COLUMN}>
+                            Don't import
+                          </SelectItem>
+                          {IMPORT_FIELD_IDS.map((field) => (
+                            <SelectItem key={field} value={field}>
+                              {IMPORT_FIELDS[field].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {file && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <CardTitle className="text-lg">3. Preview</CardTitle>
+                <div className="flex items-center space-x-4">
+                  <Badge variant="secondary">{validRows.length} ready</Badge>
+                  <Badge
+                    variant={
+                      rows.length > validRows.length ? "destructive" : "outline"
+                    }
+                  >
+                    {rows.length - validRows.length} with errors
+                  </Badge>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="only-errors"
+                      checked={onlyErrors}
+                      onCheckedChange={setOnlyErrors}
+                    />
+                    <Label htmlFor="only-errors" className="text-sm">
+                      Only rows with errors
+                    </Label>
+                  </div>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shownRows.map(({ line, issue, errors }) => (
+                    <TableRow key={line}>
+                      <TableCell className="text-muted-foreground">
+                        {line}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">
+                        {issue?.title}
+                      </TableCell>
+                      <TableCell className="capitalize">
+                        {issue?.type}
+                      </TableCell>
+                      <TableCell className="capitalize">
+                        {issue?.priority}
+                      </TableCell>
+                      <TableCell>
+                        {issue &&
+                          (issue.status
+                            ? getStatusLabel(issue.status)
+                            : "Initial")}
+                      </TableCell>
+                      <TableCell>
+                        {errors.length > 0 ? (
+                          <ul className="text-sm text-destructive space-y-1">
+                            {errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {shownRows.length === PREVIEW_LIMIT && (
+                <p className="text-sm text-muted-foreground">
+                  Showing the first {PREVIEW_LIMIT} rows
+                </p>
+              )}
+
+              <div className="flex items-center justify-between gap-4 border-t pt-4">
+                <p className="text-sm text-muted-foreground">
+                  Rows with errors are skipped. Fix them in the file or the
+                  column mapping to include them.
+                </p>
+                <Button
+                  onClick={handleImport}
+                  // Choosing the file again starts over, so a finished
+                  // import is not sent twice by accident
+                  disabled={
+                    isImporting || validRows.length === 0 || results !== null
+                  }
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {isImporting
+                    ? "Importing..."
+                    : `Import ${validRows.length} issues`}
+                </Button>
+              </div>
+              {isImporting && (
+                <div className="space-y-1">
+                  <Progress value={(imported / validRows.length) * 100} />
+                  <p className="text-sm text-muted-foreground">
+                    {imported} of {validRows.length} processed
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {results && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center space-x-2">
+                {failed.length === 0 ? (
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-destructive" />
+                )}
+                <span>
+                  Imported {results.length - failed.length} of {results.length}{" "}
+                  issues
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {failed.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {failed.map(({ index, error }) => (
+                    <li key={index}>
+                      <span className="font-medium">
+                        Row {validRows[index]?.line}:
+                      </span>{" "}
+                      <span className="text-destructive">{error}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button variant="outline" onClick={() => navigate("/issues")}>
+                View issues
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,163 +2,251 @@ import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, MessageSquare } from "lucide-react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import {
+  BarChart3,
+  Plus,
+  MessageSquare,
+  LogOut,
+  Mail,
+  Upload,
+  Users,
+} from "lucide-react";
 import IssueSubmissionForm from "@/components/IssueSubmissionForm";
 import IssuesList from "@/components/IssuesList";
 import ChatInterface from "@/components/ChatInterface";
-import { Issue, ChatMessage, ResolutionStatus } from "@/lib/types";
+import NotificationSettingsDialog from "@/components/NotificationSettingsDialog";
+import NotificationCenter from "@/components/NotificationCenter";
+import SavedViewsSidebar from "@/components/SavedViewsSidebar";
+import { Issue, Priority, ResolutionStatus } from "@/lib/types";
+import { IssueChanges } from "@/lib/issuesApi";
+import { TransitionFields } from "@/lib/workflow";
 import {
-  generateMockIssues,
-  generateMockChatMessages,
-  saveToLocalStorage,
-  loadFromLocalStorage,
-  STORAGE_KEYS,
-  generateId,
-  currentUser,
-} from "@/lib/mockData";
+  useIssue,
+  useCreateIssue,
+  useUpdateIssue,
+  useDeleteIssue,
+} from "@/hooks/use-issues";
+import { useMessages, useSendMessage } from "@/hooks/use-messages";
+import { useIssueEvents } from "@/hooks/use-issue-events";
+import { useIssueActivity } from "@/hooks/use-activity";
+import { useLandingView } from "@/hooks/use-saved-views";
+import { useCurrentUser, useLogout } from "@/hooks/use-current-user";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 
-type View = "submit" | "issues" | "chat";
-
-export default function Index() {
-  const [currentView, setCurrentView] = useState<View>("issues");
-  const [issues, setIssues] = useState<Issue[]>([]);
-  const [chatMessages, setChatMessages] = useState<
-    Record<string, ChatMessage[]>
-  >({});
-  const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
-
-  // Initialize data on component mount
-  useEffect(() => {
-    const savedIssues = loadFromLocalStorage(STORAGE_KEYS.ISSUES, []);
-    const savedMessages = loadFromLocalStorage(STORAGE_KEYS.CHAT_MESSAGES, {});
-
-    if (savedIssues.length === 0) {
-      // Generate initial mock data
-      const mockIssues = generateMockIssues();
-      setIssues(mockIssues);
-      saveToLocalStorage(STORAGE_KEYS.ISSUES, mockIssues);
-
-      // Generate mock chat messages for each issue
-      const mockMessages: Record<string, ChatMessage[]> = {};
-      mockIssues.forEach((issue) => {
-        mockMessages[issue.id] = generateMockChatMessages(issue.id);
+// Which screen to show; each one has its own route in App.tsx
+export type IssuesView = "issues" | "submit" | "issue" | "chat" | "edit";
+
+interface IndexProps {
+  view: IssuesView;
+}
+
+// Location state carried from the issue list into an issue, so "back"
+// returns to the list with the same filters
+interface IssueLocationState {
+  listSearch?: string;
+}
+
+export default function Index({ view: currentView }: IndexProps) {
+  const { id: selectedIssueId = null } = useParams<{ id: string }>();
+  const location = useLocation();
+  const listSearch =
+    (location.state as IssueLocationState | null)?.listSearch ?? "";
+  const {
+    data: selectedIssue,
+    isPlaceholderData,
+    isLoading,
+  } = useIssue(selectedIssueId);
+  const createIssue = useCreateIssue();
+  const updateIssue = useUpdateIssue();
+  const deleteIssue = useDeleteIssue();
+  const sendMessage = useSendMessage();
+  const { toast } = useToast();
+  const { user: currentUser } = useCurrentUser();
+  const logout = useLogout();
+  const { can } = usePermissions();
+  const navigate = useNavigate();
+  const [isNotificationSettingsOpen, setIsNotificationSettingsOpen] =
+    useState(false);
+  const thread = useMessages(selectedIssueId ?? "");
+  const activity = useIssueActivity(selectedIssueId ?? "");
+  const connectionState = useIssueEvents(
+    currentView === "chat" || currentView === "issue" ? selectedIssueId : null,
+  );
+  useLandingView(currentView === "issues");
+
+  // Move between screens of the same issue without losing the way back
+  const goToIssue = (issueId: string, page: "" | "/chat" | "/edit" = "") =>
+    navigate(`/issues/${issueId}${page}`, {
+      state: { listSearch },
+    });
+  const goToList = () => navigate(`/issues${listSearch}`);
+
+  const handleSubmitIssue = async (newIssue: Issue) => {
+    const { id, status, submittedBy, submittedAt, updatedAt, ...input } =
+      newIssue;
+
+    try {
+      await createIssue.mutateAsync(input);
+    } catch (error) {
+      toast({
+        title: "Could not submit issue",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
       });
-      setChatMessages(mockMessages);
-      saveToLocalStorage(STORAGE_KEYS.CHAT_MESSAGES, mockMessages);
-    } else {
-      setIssues(savedIssues);
-      setChatMessages(savedMessages);
+      throw error;
     }
-  }, []);
 
-  const handleSubmitIssue = (newIssue: Issue) => {
-    const updatedIssues = [newIssue, ...issues];
-    setIssues(updatedIssues);
-    saveToLocalStorage(STORAGE_KEYS.ISSUES, updatedIssues);
+    goToList();
+  };
 
-    // Generate initial chat messages for the new issue
-    const initialMessages = generateMockChatMessages(newIssue.id);
-    const updatedMessages = { ...chatMessages, [newIssue.id]: initialMessages };
-    setChatMessages(updatedMessages);
-    saveToLocalStorage(STORAGE_KEYS.CHAT_MESSAGES, updatedMessages);
+  const handleEditIssue = async (edited: Issue) => {
+    try {
+      await updateIssue.mutateAsync({
+        id: edited.id,
+        changes: {
+          title: edited.title,
+          description: edited.description,
+          priority: edited.priority,
+          tags: edited.tags,
+          mediaFiles: edited.mediaFiles,
+          contentDetails: edited.contentDetails,
+          technicalDetails: edited.technicalDetails,
+          generalDetails: edited.generalDetails,
+        },
+        expectedUpdatedAt: edited.updatedAt,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save changes",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      throw error;
+    }
 
-    setCurrentView("issues");
+    goToIssue(edited.id, "/chat");
+    toast({ title: "Issue updated" });
   };
 
-  const handleStatusChange = (issueId: string, status: ResolutionStatus) => {
-    const updatedIssues = issues.map((issue) =>
-      issue.id === issueId
-        ? { ...issue, status, updatedAt: new Date() }
-        : issue,
-    );
-    setIssues(updatedIssues);
-    saveToLocalStorage(STORAGE_KEYS.ISSUES, updatedIssues);
-
-    // Add system message about status change
-    const systemMessage: ChatMessage = {
-      id: generateId(),
-      issueId,
-      sender: "System",
-      message: `Issue status changed to "${status.replace("-", " ")}"`,
-      timestamp: new Date(),
-      isSystem: true,
-    };
-
-    const updatedMessages = {
-      ...chatMessages,
-      [issueId]: [...(chatMessages[issueId] || []), systemMessage],
-    };
-    setChatMessages(updatedMessages);
-    saveToLocalStorage(STORAGE_KEYS.CHAT_MESSAGES, updatedMessages);
+  // Resolves to whether the change was saved
+  const handleStatusChange = async (
+    issueId: string,
+    status: ResolutionStatus,
+    fields: TransitionFields = {},
+  ) => {
+    try {
+      await updateIssue.mutateAsync({
+        id: issueId,
+        changes: { status, ...fields },
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Could not update status",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handlePriorityChange = async (issueId: string, priority: Priority) => {
+    try {
+      await updateIssue.mutateAsync({ id: issueId, changes: { priority } });
+    } catch (error) {
+      toast({
+        title: "Could not update priority",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAssignmentChange = async (
+    issueId: string,
+    changes: Pick<IssueChanges, "assigneeId" | "team">,
+  ) => {
+    try {
+      await updateIssue.mutateAsync({ id: issueId, changes });
+    } catch (error) {
+      toast({
+        title: "Could not update assignment",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
   };
 
   const handleIssueClick = (issue: Issue) => {
-    setSelectedIssue(issue);
-    setCurrentView("chat");
+    navigate(`/issues/${issue.id}/chat`, {
+      state: { listSearch: location.search },
+    });
   };
 
-  const handleSendMessage = (issueId: string, message: string) => {
-    const newMessage: ChatMessage = {
-      id: generateId(),
-      issueId,
-      sender: currentUser.name,
-      message,
-      timestamp: new Date(),
-      isSystem: false,
-    };
-
-    const updatedMessages = {
-      ...chatMessages,
-      [issueId]: [...(chatMessages[issueId] || []), newMessage],
-    };
-    setChatMessages(updatedMessages);
-    saveToLocalStorage(STORAGE_KEYS.CHAT_MESSAGES, updatedMessages);
-
-    // Simulate auto-response after a delay
-    setTimeout(
-      () => {
-        const autoResponses = [
-          "Thanks for the update! I'll look into this right away.",
-          "I've received your message and will get back to you shortly.",
-          "Let me check on this and I'll update you soon.",
-          "Thanks for the additional information. This helps a lot!",
-          "I'm working on this now. I'll keep you posted on the progress.",
-        ];
-
-        const autoResponse: ChatMessage = {
-          id: generateId(),
-          issueId,
-          sender: "Sarah Wilson",
-          message:
-            autoResponses[Math.floor(Math.random() * autoResponses.length)],
-          timestamp: new Date(),
-          isSystem: false,
-        };
-
-        setChatMessages((prev) => {
-          const updated = {
-            ...prev,
-            [issueId]: [...(prev[issueId] || []), autoResponse],
-          };
-          saveToLocalStorage(STORAGE_KEYS.CHAT_MESSAGES, updated);
-          return updated;
-        });
-      },
-      2000 + Math.random() * 3000,
-    );
+  const handleDeleteIssue = async (issueId: string) => {
+    try {
+      await deleteIssue.mutateAsync(issueId);
+    } catch (error) {
+      toast({
+        title: "Could not delete issue",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    goToList();
+    toast({ title: "Issue deleted" });
+  };
+
+  const handleSendMessage = async (
+    issueId: string,
+    message: string,
+    options: { isInternal?: boolean } = {},
+  ) => {
+    try {
+      await sendMessage.mutateAsync({ issueId, message, ...options });
+    } catch (error) {
+      toast({
+        title: "Message not sent",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
   };
 
-  if (currentView === "chat" && selectedIssue) {
+  if ((currentView === "chat" || currentView === "issue") && selectedIssue) {
     return (
       <div className="container mx-auto px-4 py-8">
         <ChatInterface
           issue={selectedIssue}
-          messages={chatMessages[selectedIssue.id] || []}
-          onBack={() => setCurrentView("issues")}
+          messages={thread.messages}
+          hasOlderMessages={thread.hasNextPage}
+          isLoadingOlder={thread.isFetchingNextPage}
+          onLoadOlder={() => thread.fetchNextPage()}
+          connectionState={connectionState}
+          activity={activity.data ?? []}
+          isLoadingActivity={activity.isLoading}
+          activeTab={currentView === "chat" ? "conversation" : "activity"}
+          onTabChange={(tab) =>
+            goToIssue(selectedIssue.id, tab === "conversation" ? "/chat" : "")
+          }
+          onBack={goToList}
           onSendMessage={handleSendMessage}
+          onEdit={(issueId) => goToIssue(issueId, "/edit")}
+          onDelete={handleDeleteIssue}
+          onAssign={(issueId, assigneeId) =>
+            handleAssignmentChange(issueId, { assigneeId })
+          }
+          onTeamChange={(issueId, team) =>
+            handleAssignmentChange(issueId, { team })
+          }
         />
       </div>
     );
@@ -177,21 +265,65 @@ export default function Index() {
               Streamline your workflow with intelligent issue management
             </p>
           </div>
-          <div className="flex space-x-3">
+          <div className="flex items-center space-x-3">
             <Button
               variant={currentView === "issues" ? "default" : "outline"}
-              onClick={() => setCurrentView("issues")}
+              onClick={() => navigate("/issues")}
             >
               <MessageSquare className="h-4 w-4 mr-2" />
               All Issues
             </Button>
             <Button
               variant={currentView === "submit" ? "default" : "outline"}
-              onClick={() => setCurrentView("submit")}
+              onClick={() => navigate("/issues/new")}
             >
               <Plus className="h-4 w-4 mr-2" />
               New Issue
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate("/issues/import")}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/analytics")}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Analytics
+            </Button>
+            {can("issue.reassign") && (
+              <Button variant="outline" onClick={() => navigate("/workload")}>
+                <Users className="h-4 w-4 mr-2" />
+                Workload
+              </Button>
+            )}
+            <div className="flex items-center space-x-2 pl-3 border-l">
+              <NotificationCenter />
+              <Avatar className="h-8 w-8">
+                <AvatarFallback className="text-xs">
+                  {currentUser?.avatar}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-sm font-medium hidden md:inline">
+                {currentUser?.name}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsNotificationSettingsOpen(true)}
+                title="Email notifications"
+              >
+                <Mail className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logout.mutate()}
+                title="Sign out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -199,18 +331,55 @@ export default function Index() {
         {currentView === "submit" && (
           <IssueSubmissionForm
             onSubmit={handleSubmitIssue}
-            onCancel={() => setCurrentView("issues")}
+            onCancel={goToList}
           />
         )}
 
-        {currentView === "issues" && (
-          <IssuesList
-            issues={issues}
-            onIssueClick={handleIssueClick}
-            onStatusChange={handleStatusChange}
+        {selectedIssueId &&
+          !selectedIssue &&
+          !isLoading &&
+          !isPlaceholderData && (
+            <Card>
+              <CardContent className="p-12 text-center space-y-4">
+                <p className="text-muted-foreground">
+                  This issue does not exist or has been deleted.
+                </p>
+                <Button variant="outline" onClick={goToList}>
+                  Back to all issues
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+        {currentView === "edit" && selectedIssue && (
+          <IssueSubmissionForm
+            key={selectedIssue.id}
+            issue={selectedIssue}
+            onSubmit={handleEditIssue}
+            onCancel={() => goToIssue(selectedIssue.id, "/chat")}
           />
         )}
+
+        {currentView === "issues" && (
+          <div className="grid gap-6 lg:grid-cols-[240px_1fr]">
+            <aside>
+              <SavedViewsSidebar />
+            </aside>
+            <IssuesList
+              onIssueClick={handleIssueClick}
+              onStatusChange={handleStatusChange}
+              onAssign={(issueId, assigneeId) =>
+                handleAssignmentChange(issueId, { assigneeId })
+              }
+              onPriorityChange={handlePriorityChange}
+            />
+          </div>
+        )}
       </div>
+      <NotificationSettingsDialog
+        open={isNotificationSettingsOpen}
+        onOpenChange={setIsNotificationSettingsOpen}
+      />
     </div>
   );
 }
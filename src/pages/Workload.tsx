@@ -0,0 +1,91 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Inbox } from "lucide-react";
+import { useIssues } from "@/hooks/use-issues";
+import { useUsers } from "@/hooks/use-users";
+import { computeWorkload, countUnassigned } from "@/lib/assignment";
+
+export default function Workload() {
+  const navigate = useNavigate();
+  const { data: issues = [] } = useIssues();
+  const { data: users = [] } = useUsers();
+
+  const workload = computeWorkload(issues, users);
+  const unassigned = countUnassigned(issues);
+  // Bars are relative to the busiest assignee
+  const maxActive = Math.max(1, ...workload.map((entry) => entry.active));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/issues")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold">Team Workload</h1>
+              <p className="text-muted-foreground">
+                Open and in-progress issues per support agent
+              </p>
+            </div>
+          </div>
+          <Badge variant="outline" className="text-sm">
+            <Inbox className="h-4 w-4 mr-1" />
+            {unassigned} unassigned
+          </Badge>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {workload.map(({ user, open, inProgress, active }) => (
+            <Card key={user.id}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center space-x-3 text-lg">
+                  <Avatar className="h-8 w-8">
+                    <AvatarFallback className="text-xs">
+                      {user.avatar}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span>{user.name}</span>
+                  <Badge variant="secondary" className="capitalize">
+                    {user.role}
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-3xl font-bold">{active}</span>
+                  <span className="text-sm text-muted-foreground">
+                    active issues
+                  </span>
+                </div>
+                <Progress value={(active / maxActive) * 100} />
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>{open} open</span>
+                  <span>{inProgress} in progress</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {workload.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              No support or admin users yet.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,7 +21,8 @@ console.log("");
 
 const serverPath = join(__dirname, "server", "index.js");
 
-const server = spawn("node", [serverPath], {
+// tsx lets the server share TypeScript modules from src/lib
+const server = spawn("node", ["--import", "tsx", serverPath], {
   stdio: "inherit",
   cwd: __dirname,
 });